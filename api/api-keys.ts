@@ -0,0 +1,354 @@
+/**
+ * Named API keys for the tool endpoints, each limited to some tools, operations and projects
+ * Keys are defined in a JSON or YAML file (API_KEYS_FILE) by the SHA-256 hash of their secret, so the
+ * file never contains the secrets themselves. Generate keys with generate-api-key.js
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { mapFieldNameToId } from './field-mapper';
+import { getTenants } from './tenants';
+
+export type ToolOperation = 'read' | 'create' | 'update' | 'delete';
+
+// Operation each tool performs, for keys limited to some operations
+export const TOOL_OPERATIONS: Record<string, ToolOperation> = {
+  create_jira_ticket_with_fields: 'create',
+  bulk_create_jira_tickets: 'create',
+  update_jira_ticket_with_fields: 'update',
+  search_jira_tickets: 'read',
+  get_jira_ticket: 'read',
+  transition_jira_ticket: 'update',
+  add_jira_comment: 'create',
+  list_jira_comments: 'read',
+  update_jira_comment: 'update',
+  delete_jira_comment: 'delete',
+  link_jira_tickets: 'create',
+  unlink_jira_tickets: 'delete',
+  set_jira_parent: 'update',
+  get_jira_ticket_links: 'read',
+  attach_jira_file: 'create',
+  list_jira_attachments: 'read',
+  download_jira_attachment: 'read',
+  // The account tools change only the caller's own OAuth grant, not JIRA data
+  connect_jira_account: 'read',
+  disconnect_jira_account: 'read'
+};
+
+// Tools that touch no project, so keys limited to some projects may still use them
+const ACCOUNT_TOOLS = ['connect_jira_account', 'disconnect_jira_account'];
+
+const OPERATIONS: ToolOperation[] = ['read', 'create', 'update', 'delete'];
+
+// Hashes are written as "sha256:<hex>" (a bare 64 character hex digest is also accepted)
+const HASH_PATTERN = /^(?:sha256:)?([0-9a-f]{64})$/i;
+
+// Parameters that name tickets, whose project keys are checked against a key's projects
+const TICKET_KEY_PARAMETERS = ['ticketKey', 'TicketKey', 'targetKey', 'TargetKey', 'parentKey', 'ParentKey'];
+
+export interface ApiKey {
+  name: string;
+  secrets: Array<{ hash: Buffer; expiresAt?: Date }>; // The current secret, plus previous ones while a rotation is in progress
+  tools?: string[]; // Tool names (all tools if not set)
+  operations?: ToolOperation[]; // All operations if not set
+  projects?: string[]; // Project keys (all projects if not set)
+  tenant?: string; // Tenant ID the key belongs to (the default configuration if not set)
+  caller?: string; // Calling user the key always acts as (see jira-oauth)
+  trustCallerHeader?: boolean; // Whether the key may name the calling user in JIRA_OAUTH_CALLER_HEADER
+  expiresAt?: Date;
+}
+
+let _apiKeys: ApiKey[] | null = null;
+
+/**
+ * Gets the API keys from API_KEYS_FILE, loading and validating the file on first use
+ * @returns No keys if API_KEYS_FILE is not set
+ */
+export function getApiKeys(): ApiKey[] {
+  if (!_apiKeys) {
+    const configured = process.env.API_KEYS_FILE;
+    _apiKeys = configured && configured.trim() ? loadApiKeysFile(path.resolve(configured.trim())) : [];
+  }
+  return _apiKeys;
+}
+
+/**
+ * Hashes an API key secret the way API_KEYS_FILE stores it
+ */
+export function hashApiKey(secret: string): string {
+  return `sha256:${createHash('sha256').update(secret).digest('hex')}`;
+}
+
+/**
+ * Finds the API key a secret belongs to, comparing hashes in constant time
+ * Previous secrets stop matching once their rotation period ends
+ * @returns The key, and whether the key itself has expired
+ */
+export function findApiKey(secret: string, now = new Date()): { key: ApiKey; expired: boolean } | undefined {
+  const hash = createHash('sha256').update(secret).digest();
+  let match: ApiKey | undefined;
+  for (const key of getApiKeys()) {
+    for (const stored of key.secrets) {
+      // Compare against every hash, so the time taken does not reveal which key matched
+      if (timingSafeEqual(hash, stored.hash) && !match && (!stored.expiresAt || stored.expiresAt > now)) {
+        match = key;
+      }
+    }
+  }
+  return match ? { key: match, expired: !!match.expiresAt && match.expiresAt <= now } : undefined;
+}
+
+/**
+ * Checks whether a key may call a tool with the given parameters
+ * @param defaultProject - Project tickets are created in, and searched when no project is given
+ * @returns Why the call is not allowed, or undefined if it is
+ */
+export function checkApiKeyScope(key: ApiKey, tool: string, params: Record<string, any>, defaultProject?: string): string | undefined {
+  if (key.tools && !key.tools.includes(tool)) {
+    return `API key "${key.name}" may not use ${tool}`;
+  }
+  const operation = TOOL_OPERATIONS[tool];
+  if (key.operations && (!operation || !key.operations.includes(operation))) {
+    return `API key "${key.name}" may not perform ${operation || 'this'} operations (allowed: ${key.operations.join(', ')})`;
+  }
+  if (!key.projects || ACCOUNT_TOOLS.includes(tool)) {
+    return undefined;
+  }
+
+  const projects = getRequestedProjects(tool, params, defaultProject);
+  if (!projects && tool === 'search_jira_tickets') {
+    return `API key "${key.name}" is limited to projects ${key.projects.join(', ')}, so it cannot search with raw JQL. Use the projectKey filter instead`;
+  }
+  if (!projects) {
+    return `API key "${key.name}" is limited to projects ${key.projects.join(', ')}, so parents must be given by ticket key (e.g., "${key.projects[0]}-123")`;
+  }
+  if (projects.length === 0 && tool === 'download_jira_attachment') {
+    return `API key "${key.name}" is limited to projects ${key.projects.join(', ')}, so downloads must give the ticketKey the attachment is on`;
+  }
+  const outside = projects.filter(project => !key.projects!.includes(project));
+  if (projects.length === 0 || outside.length > 0) {
+    return `API key "${key.name}" may not access project ${outside.join(', ') || '(unknown)'} (allowed: ${key.projects.join(', ')})`;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the projects a tool call touches, from its ticket keys, project parameters and any parent fields
+ * @returns Project keys, or null if they cannot be determined (a raw JQL search, or a parent given by issue ID)
+ */
+function getRequestedProjects(tool: string, params: Record<string, any>, defaultProject?: string): string[] | null {
+  if (tool === 'create_jira_ticket_with_fields' || tool === 'bulk_create_jira_tickets') {
+    if (!defaultProject) {
+      return [];
+    }
+    // Tickets are always created in the default project (a project field is rejected), but may be given parents elsewhere
+    const projects = new Set<string>([defaultProject]);
+    const tickets = tool === 'bulk_create_jira_tickets' ? params.tickets || params.Tickets : [params];
+    for (const ticket of Array.isArray(tickets) ? tickets : []) {
+      if (!addParentProjects(ticket, projects)) {
+        return null;
+      }
+    }
+    return [...projects];
+  }
+  if (tool === 'search_jira_tickets') {
+    if (params.jql || params.JQL || params.Jql) {
+      return null;
+    }
+    const projectKey = params.projectKey || params.ProjectKey || defaultProject;
+    return projectKey ? [String(projectKey).trim().toUpperCase()] : [];
+  }
+
+  const projects = new Set<string>();
+  for (const name of TICKET_KEY_PARAMETERS) {
+    if (typeof params[name] === 'string' && params[name].includes('-')) {
+      projects.add(params[name].trim().split('-')[0].toUpperCase());
+    }
+  }
+  // Updates and transitions may move the ticket under a new parent
+  if ((tool === 'update_jira_ticket_with_fields' || tool === 'transition_jira_ticket') && !addParentProjects(params.fields || params.Fields, projects)) {
+    return null;
+  }
+  return [...projects];
+}
+
+/**
+ * Adds the projects of any parent fields (parent, parentKey, epic, ...) among a ticket's fields
+ * @returns false if a parent is given in a form whose project is unknown (an issue ID)
+ */
+function addParentProjects(fields: any, projects: Set<string>): boolean {
+  if (!fields || typeof fields !== 'object') {
+    return true;
+  }
+  for (const [name, value] of Object.entries<any>(fields)) {
+    if (value === null || value === undefined || value === '' || !isParentField(name)) {
+      continue;
+    }
+    const parentKey = typeof value === 'string' ? value.trim() : value.key;
+    if (typeof parentKey !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*-\d+$/.test(parentKey.trim())) {
+      return false;
+    }
+    projects.add(parentKey.trim().split('-')[0].toUpperCase());
+  }
+  return true;
+}
+
+function isParentField(fieldName: string): boolean {
+  try {
+    return mapFieldNameToId(fieldName) === 'parent';
+  } catch {
+    // Not a field name at all; the tool call itself reports it
+    return false;
+  }
+}
+
+/**
+ * Reads, parses and validates the API keys file
+ * @throws With every validation problem listed if the file is invalid
+ */
+function loadApiKeysFile(filePath: string): ApiKey[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Invalid API keys file: ${filePath} (from API_KEYS_FILE) does not exist`);
+  }
+
+  let parsed: any;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid API keys file ${filePath}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+  }
+
+  const problems: string[] = [];
+  const keys = parseApiKeys(parsed, problems);
+  if (problems.length > 0) {
+    throw new Error(`Invalid API keys file ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return keys;
+}
+
+/**
+ * Parses API keys file contents ({ "keys": { "<name>": { "hash": "sha256:...", ... } } }), collecting validation problems
+ */
+function parseApiKeys(parsed: any, problems: string[]): ApiKey[] {
+  if (!parsed || typeof parsed.keys !== 'object' || Array.isArray(parsed.keys)) {
+    problems.push('"keys" must be an object keyed by key name');
+    return [];
+  }
+
+  const keys: ApiKey[] = [];
+  const hashes = new Map<string, string>();
+  const tenantIds = getTenants().map(tenant => tenant.id);
+  for (const [name, entry] of Object.entries<any>(parsed.keys)) {
+    const source = `keys.${name}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push(`${source}: expected an object`);
+      continue;
+    }
+
+    const key: ApiKey = { name, secrets: [] };
+    const addSecret = (hash: any, expiresAt: any, secretSource: string) => {
+      const match = typeof hash === 'string' ? hash.trim().match(HASH_PATTERN) : null;
+      if (!match) {
+        problems.push(`${secretSource}: expected a SHA-256 hash ("sha256:<64 hex characters>"), not the key itself`);
+        return;
+      }
+      const hex = match[1].toLowerCase();
+      if (hashes.has(hex)) {
+        problems.push(`${secretSource}: the same secret is already used by key ${hashes.get(hex)}`);
+      }
+      hashes.set(hex, name);
+      key.secrets.push({ hash: Buffer.from(hex, 'hex'), expiresAt: parseDate(expiresAt, `${secretSource}.expiresAt`, problems) });
+    };
+
+    if (entry.hash === undefined) {
+      problems.push(`${source}: hash is required`);
+    } else {
+      addSecret(entry.hash, undefined, `${source}.hash`);
+    }
+    if (entry.previousHashes !== undefined) {
+      if (!Array.isArray(entry.previousHashes)) {
+        problems.push(`${source}.previousHashes: expected a list of { hash, expiresAt }`);
+      } else {
+        entry.previousHashes.forEach((previous: any, index: number) => {
+          const previousSource = `${source}.previousHashes[${index}]`;
+          if (!previous || typeof previous !== 'object' || previous.expiresAt === undefined) {
+            problems.push(`${previousSource}: expected { hash, expiresAt }, so the previous secret stops working once the rotation is done`);
+            return;
+          }
+          addSecret(previous.hash, previous.expiresAt, previousSource);
+        });
+      }
+    }
+
+    key.tools = parseList(entry.tools, `${source}.tools`, problems);
+    for (const tool of key.tools || []) {
+      if (!TOOL_OPERATIONS[tool]) {
+        problems.push(`${source}.tools: unknown tool "${tool}"`);
+      }
+    }
+    key.operations = parseList(entry.operations, `${source}.operations`, problems) as ToolOperation[] | undefined;
+    for (const operation of key.operations || []) {
+      if (!OPERATIONS.includes(operation)) {
+        problems.push(`${source}.operations: unknown operation "${operation}" (expected ${OPERATIONS.join(', ')})`);
+      }
+    }
+    key.projects = parseList(entry.projects, `${source}.projects`, problems)?.map(project => project.toUpperCase());
+    if (entry.tenant !== undefined) {
+      key.tenant = String(entry.tenant);
+      if (!tenantIds.includes(key.tenant)) {
+        problems.push(`${source}.tenant: no tenant "${key.tenant}" in JIRA_TENANTS_FILE`);
+      }
+    }
+    if (entry.caller !== undefined) {
+      key.caller = typeof entry.caller === 'string' ? entry.caller.trim() : '';
+      if (!key.caller) {
+        problems.push(`${source}.caller: expected the ID of the user the key acts as`);
+      }
+    }
+    if (entry.trustCallerHeader !== undefined) {
+      if (typeof entry.trustCallerHeader !== 'boolean') {
+        problems.push(`${source}.trustCallerHeader: expected true or false`);
+      } else if (entry.trustCallerHeader && key.caller) {
+        problems.push(`${source}: set either caller or trustCallerHeader, not both`);
+      } else {
+        key.trustCallerHeader = entry.trustCallerHeader;
+      }
+    }
+    key.expiresAt = parseDate(entry.expiresAt, `${source}.expiresAt`, problems);
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Reads a list of names given as an array or a comma separated string
+ */
+function parseList(value: any, source: string, problems: string[]): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string' || !item.trim())) {
+    problems.push(`${source}: expected a list of names`);
+    return undefined;
+  }
+  return items.map(item => item.trim());
+}
+
+/**
+ * Reads an ISO 8601 date (YAML dates are parsed to Date objects already)
+ */
+function parseDate(value: any, source: string, problems: string[]): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) {
+    problems.push(`${source}: expected a date like 2026-12-31 or 2026-12-31T00:00:00Z`);
+    return undefined;
+  }
+  return date;
+}
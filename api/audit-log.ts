@@ -0,0 +1,37 @@
+/**
+ * Audit records for tool calls: who called which tool, for which tickets, and how it ended
+ * Records are written to the console as single-line JSON (prefixed with "AUDIT "), and appended
+ * to AUDIT_LOG_FILE as JSON lines when it is set
+ */
+
+import * as fs from 'fs';
+
+export interface AuditRecord {
+  timestamp: string;
+  keyName: string | null; // API key (or "BEARER_TOKEN" / "tenant:<id>") the call was made with; null if not authenticated
+  tenant: string;
+  caller?: string; // Calling user (JIRA_OAUTH_CALLER_HEADER), whose JIRA OAuth grant is used when they have one
+  tool: string;
+  operation?: string;
+  ticketKeys: string[]; // Tickets named in the request, and any created
+  status: number; // HTTP status of the response
+  outcome: 'success' | 'denied' | 'error';
+  errorCode?: string;
+  durationMs: number;
+}
+
+/**
+ * Writes an audit record
+ * A failure to append to AUDIT_LOG_FILE is logged rather than thrown, since the call has already been answered
+ */
+export function recordAudit(record: AuditRecord): void {
+  const line = JSON.stringify(record);
+  console.log(`AUDIT ${line}`);
+
+  const filePath = process.env.AUDIT_LOG_FILE;
+  if (filePath && filePath.trim()) {
+    fs.promises.appendFile(filePath.trim(), `${line}\n`).catch(error => {
+      console.error(`Could not write audit record to ${filePath}:`, error);
+    });
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Loads and validates ticket defaults: values filled in when a ticket is created without them
+ * Defaults come from JIRA_DEFAULT_* environment variables and an optional JSON or YAML file
+ * (JIRA_DEFAULTS_FILE) with defaults for all projects, per project and per issue type
+ */
+
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+
+// Special assignee defaults (anything else is an email address, display name or account ID)
+export const ASSIGNEE_UNASSIGNED = 'unassigned'; // Create the ticket without an assignee
+export const ASSIGNEE_COMPONENT_LEAD = 'component-lead'; // Assign to the lead of the ticket's first component that has one
+export const ASSIGNEE_PROJECT_DEFAULT = 'project-default'; // Leave the assignee to the project's default assignee setting
+
+export interface CreateDefaults {
+  assignee?: string;
+  labels?: string[]; // Added to every ticket, alongside any labels given
+  priority?: string;
+  components?: string[];
+  descriptionTemplate?: string; // {{description}}, {{summary}}, {{issueType}} and {{projectKey}} are filled in
+}
+
+export interface ProjectDefaults extends CreateDefaults {
+  issueTypes: Record<string, CreateDefaults>; // By issue type name
+}
+
+export interface CreateDefaultsFile {
+  path: string;
+  defaults: CreateDefaults; // For all projects
+  projects: Record<string, ProjectDefaults>; // By project key
+}
+
+// Environment variables for defaults that apply to all projects
+// (JIRA_DEFAULT_ASIGNEE_EMAIL is the spelling used by earlier deployment guides)
+const ENV_DEFAULTS: Record<string, keyof CreateDefaults> = {
+  JIRA_DEFAULT_ASSIGNEE: 'assignee',
+  JIRA_DEFAULT_ASIGNEE_EMAIL: 'assignee',
+  JIRA_DEFAULT_LABELS: 'labels',
+  JIRA_DEFAULT_PRIORITY: 'priority',
+  JIRA_DEFAULT_COMPONENTS: 'components',
+  JIRA_DEFAULT_DESCRIPTION_TEMPLATE: 'descriptionTemplate'
+};
+
+const DEFAULT_KEYS: Array<keyof CreateDefaults> = ['assignee', 'labels', 'priority', 'components', 'descriptionTemplate'];
+
+// Placeholders a description template can use
+const TEMPLATE_PLACEHOLDERS = ['description', 'summary', 'issueType', 'projectKey'];
+
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9_]+$/;
+
+/**
+ * Reads defaults from JIRA_DEFAULT_* settings, collecting validation problems
+ * @param settings - Environment variables, or a tenant's settings
+ */
+export function parseEnvDefaults(settings: Record<string, string | undefined>, problems: string[]): CreateDefaults {
+  const defaults: Record<string, any> = {};
+  for (const [name, key] of Object.entries(ENV_DEFAULTS)) {
+    const value = settings[name];
+    if (value === undefined || !value.trim() || defaults[key] !== undefined) {
+      continue;
+    }
+    defaults[key] = key === 'labels' || key === 'components'
+      ? value.split(',').map(item => item.trim()).filter(item => item)
+      : key === 'descriptionTemplate' ? value.replace(/\\n/g, '\n') : value.trim();
+  }
+  return validateDefaults(defaults, 'JIRA_DEFAULT_*', problems);
+}
+
+/**
+ * Reads, parses and validates a defaults file
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @throws With every validation problem listed if the file is invalid
+ */
+export function loadCreateDefaultsFile(filePath: string): CreateDefaultsFile {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Invalid defaults file: ${filePath} (from JIRA_DEFAULTS_FILE) does not exist`);
+  }
+
+  let parsed: any;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid defaults file ${filePath}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+  }
+
+  const problems: string[] = [];
+  const result = parseDefaultsFile(parsed ?? {}, problems);
+  if (problems.length > 0) {
+    throw new Error(`Invalid defaults file ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return { path: filePath, ...result };
+}
+
+/**
+ * Parses defaults file contents ({ "defaults": {...}, "projects": { "<KEY>": { ..., "issueTypes": {...} } } })
+ */
+function parseDefaultsFile(parsed: any, problems: string[]): Omit<CreateDefaultsFile, 'path'> {
+  const result: Omit<CreateDefaultsFile, 'path'> = { defaults: {}, projects: {} };
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    problems.push('expected an object at the top level');
+    return result;
+  }
+  for (const key of Object.keys(parsed)) {
+    if (key !== 'defaults' && key !== 'projects') {
+      problems.push(`"${key}": unknown key (expected "defaults" or "projects")`);
+    }
+  }
+
+  if (parsed.defaults !== undefined) {
+    result.defaults = parseDefaults(parsed.defaults, 'defaults', problems);
+  }
+
+  if (parsed.projects === undefined) {
+    return result;
+  }
+  if (typeof parsed.projects !== 'object' || parsed.projects === null || Array.isArray(parsed.projects)) {
+    problems.push('"projects" must be an object keyed by project key');
+    return result;
+  }
+  for (const [projectKey, entry] of Object.entries<any>(parsed.projects)) {
+    const source = `projects.${projectKey}`;
+    if (!PROJECT_KEY_PATTERN.test(projectKey)) {
+      problems.push(`${source}: "${projectKey}" is not a JIRA project key`);
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push(`${source}: expected an object`);
+      continue;
+    }
+    const { issueTypes, ...projectEntry } = entry;
+    const project: ProjectDefaults = { ...parseDefaults(projectEntry, source, problems), issueTypes: {} };
+    if (issueTypes !== undefined) {
+      if (typeof issueTypes !== 'object' || issueTypes === null || Array.isArray(issueTypes)) {
+        problems.push(`${source}.issueTypes: expected an object keyed by issue type name`);
+      } else {
+        for (const [issueType, issueTypeEntry] of Object.entries(issueTypes)) {
+          project.issueTypes[issueType] = parseDefaults(issueTypeEntry, `${source}.issueTypes.${issueType}`, problems);
+        }
+      }
+    }
+    result.projects[projectKey] = project;
+  }
+  return result;
+}
+
+/**
+ * Parses one set of defaults from the file
+ * Labels and components can be given as a list or a comma separated string
+ */
+function parseDefaults(entry: any, source: string, problems: string[]): CreateDefaults {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    problems.push(`${source}: expected an object`);
+    return {};
+  }
+
+  const defaults: Record<string, any> = {};
+  for (const [key, value] of Object.entries(entry)) {
+    if (!DEFAULT_KEYS.includes(key as keyof CreateDefaults)) {
+      problems.push(`${source}.${key}: unknown default (expected ${DEFAULT_KEYS.join(', ')})`);
+      continue;
+    }
+    if ((key === 'labels' || key === 'components') && typeof value === 'string') {
+      defaults[key] = value.split(',').map(item => item.trim()).filter(item => item);
+    } else if (key === 'labels' || key === 'components') {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+        problems.push(`${source}.${key}: expected a list of names`);
+        continue;
+      }
+      defaults[key] = value.map(item => item.trim());
+    } else if (typeof value !== 'string' || !value.trim()) {
+      problems.push(`${source}.${key}: expected a non-empty string`);
+    } else {
+      defaults[key] = key === 'descriptionTemplate' ? value : value.trim();
+    }
+  }
+  return validateDefaults(defaults, source, problems);
+}
+
+/**
+ * Checks values that JIRA would reject, or that would silently do the wrong thing
+ */
+function validateDefaults(defaults: CreateDefaults, source: string, problems: string[]): CreateDefaults {
+  for (const label of defaults.labels || []) {
+    if (/\s/.test(label)) {
+      problems.push(`${source}.labels: "${label}" contains a space, which JIRA labels cannot`);
+    }
+  }
+  const assignee = defaults.assignee?.toLowerCase();
+  if (assignee && ['none', 'unassign', 'componentlead', 'component lead', 'lead', 'automatic', 'default'].includes(assignee)) {
+    problems.push(`${source}.assignee: "${defaults.assignee}" is ambiguous. Use "${ASSIGNEE_UNASSIGNED}", "${ASSIGNEE_COMPONENT_LEAD}", "${ASSIGNEE_PROJECT_DEFAULT}" or a user`);
+  }
+  for (const [, placeholder] of (defaults.descriptionTemplate || '').matchAll(/\{\{\s*([^}]*?)\s*\}\}/g)) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(placeholder)) {
+      problems.push(`${source}.descriptionTemplate: unknown placeholder {{${placeholder}}} (expected ${TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')})`);
+    }
+  }
+  return defaults;
+}
@@ -0,0 +1,140 @@
+/**
+ * Ticket defaults for the current tenant: the project, issue type and the values filled in
+ * when a ticket is created without them (see create-defaults-file)
+ */
+
+import {
+  loadCreateDefaultsFile,
+  parseEnvDefaults,
+  CreateDefaults,
+  CreateDefaultsFile,
+  ASSIGNEE_UNASSIGNED,
+  ASSIGNEE_COMPONENT_LEAD,
+  ASSIGNEE_PROJECT_DEFAULT
+} from './create-defaults-file';
+import { getSetting, getSettings, getTenantId } from './tenants';
+import * as path from 'path';
+
+interface DefaultsState {
+  envDefaults: CreateDefaults;
+  defaultsFile: CreateDefaultsFile | null;
+}
+
+// Defaults by tenant ID, loaded on first use
+const DEFAULTS_STATES = new Map<string, DefaultsState>();
+
+/**
+ * Gets the current tenant's defaults, loading them on first use
+ * @throws With every validation problem listed if the defaults are invalid
+ */
+function getDefaultsState(): DefaultsState {
+  const tenantId = getTenantId();
+  let state = DEFAULTS_STATES.get(tenantId);
+  if (!state) {
+    const problems: string[] = [];
+    const envDefaults = parseEnvDefaults(getSettings(), problems);
+    if (problems.length > 0) {
+      throw new Error(`Invalid ticket defaults:\n  - ${problems.join('\n  - ')}`);
+    }
+    const filePath = getSetting('JIRA_DEFAULTS_FILE');
+    state = {
+      envDefaults,
+      defaultsFile: filePath && filePath.trim() ? loadCreateDefaultsFile(path.resolve(filePath.trim())) : null
+    };
+    DEFAULTS_STATES.set(tenantId, state);
+  }
+  return state;
+}
+
+// Load the default ticket defaults at module load, so invalid defaults fail at startup
+getDefaultsState();
+
+/**
+ * Gets the project tickets are created in (JIRA_PROJECT_KEY)
+ * @throws If no project is configured
+ */
+export function getProjectKey(): string {
+  const projectKey = getSetting('JIRA_PROJECT_KEY');
+  if (!projectKey || !projectKey.trim()) {
+    throw new Error('JIRA_PROJECT_KEY environment variable is required');
+  }
+  return projectKey.trim();
+}
+
+/**
+ * Gets the issue type used when none is given (JIRA_DEFAULT_ISSUE_TYPE, or Story)
+ */
+export function getDefaultIssueType(): string {
+  return getSetting('JIRA_DEFAULT_ISSUE_TYPE') || 'Story';
+}
+
+/**
+ * Gets the defaults for a project and issue type
+ * Issue type defaults override project defaults, which override defaults for all projects
+ * (from the defaults file, then JIRA_DEFAULT_* settings)
+ */
+export function getCreateDefaults(projectKey: string, issueType: string): CreateDefaults {
+  const { envDefaults, defaultsFile } = getDefaultsState();
+  const project = defaultsFile?.projects[projectKey];
+  const issueTypeKey = project && Object.keys(project.issueTypes).find(name => name.toLowerCase() === issueType.toLowerCase());
+  const { issueTypes, ...projectDefaults } = project || { issueTypes: {} };
+  return {
+    ...envDefaults,
+    ...defaultsFile?.defaults,
+    ...projectDefaults,
+    ...(issueTypeKey ? issueTypes[issueTypeKey] : {})
+  };
+}
+
+/**
+ * Gets the issue types with their own defaults in a project
+ */
+export function getIssueTypesWithDefaults(projectKey: string): string[] {
+  return Object.keys(getDefaultsState().defaultsFile?.projects[projectKey]?.issueTypes || {});
+}
+
+/**
+ * Fills in a description template's placeholders
+ */
+export function renderDescriptionTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*([^}]*?)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder).trim();
+}
+
+/**
+ * Describes a set of defaults for discovery descriptions, e.g. "assignee: the component lead; priority: High"
+ */
+export function describeCreateDefaults(defaults: CreateDefaults): string {
+  const parts: string[] = [];
+  if (defaults.assignee) {
+    parts.push(`assignee: ${describeAssigneeDefault(defaults.assignee)}`);
+  }
+  if (defaults.priority) {
+    parts.push(`priority: ${defaults.priority}`);
+  }
+  if (defaults.components && defaults.components.length > 0) {
+    parts.push(`components: ${defaults.components.join(', ')}`);
+  }
+  if (defaults.labels && defaults.labels.length > 0) {
+    parts.push(`labels added: ${defaults.labels.join(', ')}`);
+  }
+  if (defaults.descriptionTemplate) {
+    parts.push('description from a template');
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Describes an assignee default, e.g. "the component lead"
+ */
+export function describeAssigneeDefault(assignee: string): string {
+  switch (assignee.toLowerCase()) {
+    case ASSIGNEE_UNASSIGNED:
+      return 'unassigned';
+    case ASSIGNEE_COMPONENT_LEAD:
+      return 'the component lead';
+    case ASSIGNEE_PROJECT_DEFAULT:
+      return "the project's default assignee";
+    default:
+      return assignee;
+  }
+}
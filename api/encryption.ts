@@ -0,0 +1,53 @@
+/**
+ * Encryption for secrets kept at rest (encrypted tenant values and stored OAuth grants)
+ * Values are written as enc:v1:<iv>:<auth tag>:<ciphertext>, base64, AES-256-GCM with a 32 byte key
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ENCRYPTED_VALUE_PATTERN = /^enc:v1:([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+)$/;
+
+/**
+ * Checks whether a value is in the enc:v1: format
+ */
+export function isEncryptedValue(value: string): boolean {
+  return ENCRYPTED_VALUE_PATTERN.test(value);
+}
+
+/**
+ * Encrypts a value into the enc:v1: format
+ */
+export function encryptValue(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return `enc:v1:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypts an enc:v1: value
+ * @throws If the value is not in the enc:v1: format, was encrypted with another key or has been tampered with
+ */
+export function decryptValue(encrypted: string, key: Buffer): string {
+  const match = encrypted.match(ENCRYPTED_VALUE_PATTERN);
+  if (!match) {
+    throw new Error('Value is not encrypted');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(match[1], 'base64'));
+  decipher.setAuthTag(Buffer.from(match[2], 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(match[3], 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Reads a 32 byte key (base64 or hex) from an environment variable
+ * @param purpose - What the key is needed for, to explain the error (e.g., "to use encrypted values")
+ * @throws If the variable is not set to a 32 byte key
+ */
+export function readEncryptionKey(variable: string, purpose: string): Buffer {
+  const configured = (process.env[variable] || '').trim();
+  const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, 'hex') : Buffer.from(configured, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${variable} must be set to a 32 byte key (base64 or hex) ${purpose}`);
+  }
+  return key;
+}
@@ -3,6 +3,16 @@
  * Supports both standard fields and custom fields
  */
 
+import {
+  findFieldMappingFile,
+  loadFieldMappingFile,
+  FieldMappingDefinition,
+  FieldMappingFile,
+  FieldTypeHint
+} from './field-mapping-file';
+import { JiraValidationError } from './jira-errors';
+import { getCurrentTenant, getSetting, getTenantId } from './tenants';
+
 // Standard JIRA field mappings (friendly name -> JIRA field ID)
 const STANDARD_FIELD_MAP: Record<string, string> = {
   'summary': 'summary',
@@ -20,12 +30,68 @@ const STANDARD_FIELD_MAP: Record<string, string> = {
   'reporterEmail': 'reporter',
   'environment': 'environment',
   'parent': 'parent',
+  'parentKey': 'parent',
+  'parentkey': 'parent',
+  'epic': 'parent',
+  'epicKey': 'parent',
+  'epickey': 'parent',
+  'epicLink': 'parent',
+  'epiclink': 'parent',
+  'resolution': 'resolution',
+  'watchers': 'watches', // Added through the watchers API rather than the issue fields
+  'watcher': 'watches',
   'storypoints': 'customfield_10016', // Common story points field ID (may vary by instance)
   'storyPoints': 'customfield_10016',
   'story points': 'customfield_10016',
   'points': 'customfield_10016'
 };
 
+// JIRA field schema, as reported by /field and createmeta
+export interface FieldSchema {
+  type: string;
+  items?: string;
+  custom?: string;
+  system?: string;
+}
+
+export interface FieldMetadata {
+  id: string;
+  name: string;
+  schema?: FieldSchema;
+  allowedValues?: any[];
+  required?: boolean;
+}
+
+const TEXTAREA_CUSTOM_TYPE = 'com.atlassian.jira.plugin.system.customfieldtypes:textarea';
+
+// JIRA schema equivalent of each mapping file type hint
+const TYPE_HINT_SCHEMAS: Record<FieldTypeHint, FieldSchema> = {
+  'string': { type: 'string' },
+  'text': { type: 'string', custom: TEXTAREA_CUSTOM_TYPE },
+  'number': { type: 'number' },
+  'date': { type: 'date' },
+  'datetime': { type: 'datetime' },
+  'select': { type: 'option' },
+  'multiselect': { type: 'array', items: 'option' },
+  'cascadingSelect': { type: 'option-with-child' },
+  'user': { type: 'user' },
+  'multiUser': { type: 'array', items: 'user' },
+  'array': { type: 'array', items: 'string' }
+};
+
+// Field mappings and metadata for one tenant's JIRA instance
+interface FieldState {
+  metadata: Record<string, FieldMetadata>; // Registered from the JIRA instance (field ID -> metadata)
+  nameIndex: Map<string, FieldMetadata[]>; // Registered fields by normalized display name (several fields can share a name)
+  envFieldMap: Record<string, string>;
+  mappingFile: FieldMappingFile | null;
+  fileFieldMap: Record<string, string>;
+  hintedMetadata: Record<string, FieldMetadata>; // From mapping file type hints, used when the schema is not loaded
+}
+
+// Field state by tenant ID, so one tenant's mappings and metadata never apply to another's requests
+const FIELD_STATES = new Map<string, FieldState>();
+
 /**
  * Load field mappings from individual environment variables
  * Each field has its own variable: JIRA_FIELD_SUMMARY, JIRA_FIELD_PRIORITY, etc.
@@ -44,7 +110,7 @@ function loadFieldMappingsFromEnv(): Record<string, string> {
 
   // Load each field mapping from environment variables
   for (const [envVar, fieldNames] of Object.entries(envVarMap)) {
-    const fieldId = process.env[envVar];
+    const fieldId = getSetting(envVar);
     if (fieldId && fieldId.trim()) {
       // Map all variations to the same field ID
       for (const fieldName of fieldNames) {
@@ -56,26 +122,139 @@ function loadFieldMappingsFromEnv(): Record<string, string> {
   return mappings;
 }
 
-// Load field mappings once at module load
-const ENV_FIELD_MAP = loadFieldMappingsFromEnv();
+/**
+ * Load the field mapping file (JIRA_FIELD_MAPPINGS_FILE or field-mappings.{json,yaml,yml}), if any
+ * Tenants only use the file configured for them, never the default files in the working directory
+ * Throws if the file is invalid
+ */
+function loadFieldMappingsFromFile(): FieldMappingFile | null {
+  const filePath = findFieldMappingFile(getSetting('JIRA_FIELD_MAPPINGS_FILE'), !getCurrentTenant());
+  return filePath ? loadFieldMappingFile(filePath) : null;
+}
+
+/**
+ * Gets the current tenant's field state, loading its field mappings on first use
+ */
+function getFieldState(): FieldState {
+  const tenantId = getTenantId();
+  let state = FIELD_STATES.get(tenantId);
+  if (!state) {
+    const mappingFile = loadFieldMappingsFromFile();
+    state = {
+      metadata: {},
+      nameIndex: new Map(),
+      envFieldMap: loadFieldMappingsFromEnv(),
+      mappingFile,
+      fileFieldMap: buildFileFieldMap(mappingFile),
+      hintedMetadata: buildHintedFieldMetadata(mappingFile)
+    };
+    FIELD_STATES.set(tenantId, state);
+  }
+  return state;
+}
+
+// Load the default field mappings at module load, so an invalid mapping file fails at startup
+getFieldState();
+
+/**
+ * Builds field metadata from mapping file type hints, used when the instance's schema is not loaded
+ */
+function buildHintedFieldMetadata(mappingFile: FieldMappingFile | null): Record<string, FieldMetadata> {
+  const metadata: Record<string, FieldMetadata> = {};
+  for (const field of mappingFile ? mappingFile.fields : []) {
+    if (field.type) {
+      metadata[field.id] = { id: field.id, name: field.name, schema: TYPE_HINT_SCHEMAS[field.type] };
+    }
+  }
+  return metadata;
+}
 
 /**
- * Get the combined field mapping (standard + environment variables)
- * Environment variable mappings override standard mappings if there's a conflict
+ * Builds alias lookups from the mapping file, adding normalized variants of each alias
+ */
+function buildFileFieldMap(mappingFile: FieldMappingFile | null): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  if (!mappingFile) {
+    return mappings;
+  }
+  for (const [alias, fieldId] of Object.entries(mappingFile.aliases)) {
+    mappings[alias] = fieldId;
+    mappings[alias.toLowerCase().trim()] = fieldId;
+    mappings[normalizeFieldName(alias)] = fieldId;
+  }
+  return mappings;
+}
+
+/**
+ * Get the combined field mapping (standard + mapping file + environment variables)
+ * Mapping file entries override standard mappings, and environment variables override both
  */
 function getFieldMapping(): Record<string, string> {
+  const state = getFieldState();
   return {
     ...STANDARD_FIELD_MAP,
-    ...ENV_FIELD_MAP
+    ...state.fileFieldMap,
+    ...state.envFieldMap
   };
 }
 
+/**
+ * Gets the fields defined in the mapping file's detailed format
+ * (with descriptions, type hints, defaults and required flags)
+ */
+export function getMappingFileFields(): FieldMappingDefinition[] {
+  const { mappingFile } = getFieldState();
+  return mappingFile ? mappingFile.fields : [];
+}
+
+/**
+ * Fills in mapping file defaults for fields that were not supplied
+ * @param fields - Fields keyed by friendly name or field ID
+ * @returns A copy of fields with defaults added under their friendly names
+ */
+export function applyFieldDefaults(fields: Record<string, any>): Record<string, any> {
+  const supplied = suppliedFieldIds(fields);
+  const result = { ...fields };
+  for (const field of getMappingFileFields()) {
+    if (field.default !== undefined && !supplied.has(field.id)) {
+      result[field.name] = field.default;
+    }
+  }
+  return result;
+}
+
+/**
+ * Lists mapping file fields marked as required that were not supplied
+ * @param fields - Fields keyed by friendly name or field ID
+ * @returns Friendly names of the missing fields
+ */
+export function findMissingRequiredFields(fields: Record<string, any>): string[] {
+  const supplied = suppliedFieldIds(fields);
+  return getMappingFileFields()
+    .filter(field => field.required && !supplied.has(field.id))
+    .map(field => field.name);
+}
+
+/**
+ * Collects the field IDs of supplied, non-empty fields (names that cannot be mapped yet are ignored)
+ */
+function suppliedFieldIds(fields: Record<string, any>): Set<string> {
+  const ids = new Set<string>();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    ids.add(lookupFieldId(name) || name);
+  }
+  return ids;
+}
+
 /**
  * Normalizes a field name for lookup (handles common variations)
  * @param fieldName - Field name to normalize
  * @returns Normalized field name
  */
-function normalizeFieldName(fieldName: string): string {
+export function normalizeFieldName(fieldName: string): string {
   return fieldName
     .toLowerCase()
     .trim()
@@ -85,12 +264,10 @@ function normalizeFieldName(fieldName: string): string {
 }
 
 /**
- * Maps a friendly field name to JIRA field ID
- * Supports case-insensitive matching, handles spaces/underscores/hyphens
- * @param fieldName - Friendly field name (e.g., 'summary', 'assigneeEmail', 'Story Points')
- * @returns JIRA field ID (e.g., 'summary', 'assignee', 'customfield_10016')
+ * Looks up a field name in the configured mappings and known field IDs
+ * @returns JIRA field ID, or undefined if the name is not a configured name or known ID
  */
-export function mapFieldNameToId(fieldName: string): string {
+function lookupFieldId(fieldName: string): string | undefined {
   const fieldMapping = getFieldMapping();
   
   // First, try exact match (case-insensitive)
@@ -118,13 +295,145 @@ export function mapFieldNameToId(fieldName: string): string {
   // Check if it's a standard field ID (not in mapping but known)
   const standardFieldIds = ['summary', 'description', 'assignee', 'issuetype', 'priority', 
                             'labels', 'components', 'fixVersions', 'versions', 'duedate', 
-                            'reporter', 'environment', 'parent'];
+                            'reporter', 'environment', 'parent', 'resolution'];
   if (standardFieldIds.includes(lowerFieldName)) {
     return lowerFieldName;
   }
   
-  // Return as-is (might be a custom field name that needs to be resolved, or invalid)
-  return fieldName;
+  return undefined;
+}
+
+/**
+ * Maps a friendly field name to JIRA field ID
+ * Supports case-insensitive matching, handles spaces/underscores/hyphens
+ * Once the instance's field list is registered, also resolves JIRA display names and close misspellings
+ * @param fieldName - Friendly field name (e.g., 'summary', 'assigneeEmail', 'Story Points')
+ * @returns JIRA field ID (e.g., 'summary', 'assignee', 'customfield_10016')
+ * @throws If the name is ambiguous or matches no field (only when the field list is registered)
+ */
+export function mapFieldNameToId(fieldName: string): string {
+  const mapped = lookupFieldId(fieldName);
+  if (mapped) {
+    return mapped;
+  }
+  
+  const fieldMapping = getFieldMapping();
+  const normalized = normalizeFieldName(fieldName);
+  const { metadata, nameIndex } = getFieldState();
+  
+  // Without the instance's field list, return as-is (might be a custom field name, or invalid)
+  if (Object.keys(metadata).length === 0) {
+    return fieldName;
+  }
+  
+  // Field ID known to the instance (e.g., "timetracking")
+  if (metadata[fieldName.trim()]) {
+    return fieldName.trim();
+  }
+  
+  // Match the instance's field display names (e.g., "Team Name" -> customfield_10042)
+  const byDisplayName = nameIndex.get(normalized) || [];
+  if (byDisplayName.length === 1) {
+    return byDisplayName[0].id;
+  } else if (byDisplayName.length > 1) {
+    throw fieldError(fieldName, `Invalid field: "${fieldName}" is ambiguous. Matching fields: ${describeCandidates(byDisplayName)}. Use the field ID instead.`);
+  }
+  
+  // Typo-tolerant match against friendly names and display names (e.g., "priorty" -> priority)
+  const closest = findClosestFields(normalized, fieldMapping);
+  if (closest.length === 1) {
+    return closest[0].id;
+  } else if (closest.length > 1) {
+    throw fieldError(fieldName, `Invalid field: "${fieldName}" is ambiguous. Did you mean one of: ${describeCandidates(closest)}?`);
+  }
+  
+  throw fieldError(fieldName, `Invalid field: "${fieldName}" does not match any JIRA field name or ID`);
+}
+
+/**
+ * Creates the validation error for an unknown, ambiguous or invalid field, reported against that field
+ */
+function fieldError(field: string, message: string): JiraValidationError {
+  return new JiraValidationError(message, { [field]: message });
+}
+
+/**
+ * Lists candidate fields for ambiguity errors, e.g. "Team (customfield_10042), Team (customfield_10077)"
+ */
+function describeCandidates(fields: FieldMetadata[]): string {
+  return fields.map(field => `${field.name} (${field.id})`).join(', ');
+}
+
+/**
+ * Finds the fields whose friendly name or display name is closest to a misspelled name
+ * Allows one edit for short names and two for longer ones; names under 4 characters must match exactly
+ * @returns Distinct fields at the smallest distance found (empty if none are close enough)
+ */
+function findClosestFields(normalized: string, fieldMapping: Record<string, string>): FieldMetadata[] {
+  if (normalized.length < 4) {
+    return [];
+  }
+  const maxDistance = normalized.length <= 6 ? 1 : 2;
+
+  const { metadata, nameIndex } = getFieldState();
+  const candidates: Array<{ name: string; field: FieldMetadata }> = [];
+  for (const [friendlyName, fieldId] of Object.entries(fieldMapping)) {
+    candidates.push({ name: normalizeFieldName(friendlyName), field: metadata[fieldId] || { id: fieldId, name: friendlyName } });
+  }
+  for (const [name, fields] of nameIndex) {
+    for (const field of fields) {
+      candidates.push({ name, field });
+    }
+  }
+
+  let bestDistance = maxDistance + 1;
+  let best = new Map<string, FieldMetadata>();
+  for (const candidate of candidates) {
+    const distance = editDistance(normalized, candidate.name, maxDistance);
+    if (distance > maxDistance) {
+      continue;
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = new Map([[candidate.field.id, candidate.field]]);
+    } else if (distance === bestDistance && !best.has(candidate.field.id)) {
+      best.set(candidate.field.id, candidate.field);
+    }
+  }
+  return Array.from(best.values());
+}
+
+/**
+ * Edit distance between two strings, counting an adjacent transposition ("lables") as one edit
+ * Gives up once the distance exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
 }
 
 /**
@@ -134,33 +443,11 @@ export function mapFieldNameToId(fieldName: string): string {
  * @returns Formatted value for JIRA API
  */
 export function formatFieldValue(fieldId: string, value: any): any {
-  // Handle assignee field (can be email or accountId)
-  if (fieldId === 'assignee') {
-    if (typeof value === 'string' && value.includes('@')) {
-      // Email address
-      return { emailAddress: value };
-    } else if (typeof value === 'string') {
-      // Account ID
-      return { accountId: value };
-    } else if (value && typeof value === 'object' && value.emailAddress) {
-      // Already formatted
-      return value;
-    } else if (value === null || value === '') {
-      // Unassign
-      return null;
-    }
-  }
-  
-  // Handle reporter field (same as assignee)
-  if (fieldId === 'reporter') {
-    if (typeof value === 'string' && value.includes('@')) {
-      return { emailAddress: value };
-    } else if (typeof value === 'string') {
-      return { accountId: value };
-    } else if (value && typeof value === 'object' && value.emailAddress) {
-      return value;
-    } else if (value === null || value === '') {
-      return null;
+  // Handle assignee and reporter fields (can be email or accountId)
+  if (fieldId === 'assignee' || fieldId === 'reporter') {
+    const user = formatUserValue(value);
+    if (user !== undefined) {
+      return user;
     }
   }
   
@@ -182,6 +469,26 @@ export function formatFieldValue(fieldId: string, value: any): any {
     }
   }
   
+  // Handle parent (issue key or ID of the epic/parent issue)
+  if (fieldId === 'parent') {
+    if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+      return { id: value.trim() };
+    } else if (typeof value === 'string') {
+      return { key: value.trim().toUpperCase() };
+    } else if (value && typeof value === 'object' && (value.key || value.id)) {
+      return value;
+    }
+  }
+  
+  // Handle resolution
+  if (fieldId === 'resolution') {
+    if (typeof value === 'string') {
+      return { name: value };
+    } else if (value && typeof value === 'object' && value.name) {
+      return value;
+    }
+  }
+  
   // Handle project
   if (fieldId === 'project') {
     if (typeof value === 'string') {
@@ -227,15 +534,292 @@ export function formatFieldValue(fieldId: string, value: any): any {
   // Handle description - should be converted to ADF if it's a string
   // (This will be handled separately in the update function)
   
+  // Coerce custom and other fields by their JIRA schema type, when field metadata is loaded
+  // (falling back to the mapping file's type hint)
+  const metadata = getFieldMetadata(fieldId);
+  if (metadata && metadata.schema) {
+    return coerceValueBySchema(metadata, metadata.schema, value);
+  }
+  
   // For all other fields, return as-is
   return value;
 }
 
+/**
+ * Checks whether a field holds users, so its values can be resolved to account IDs before formatting
+ * @returns 'single' for assignee, reporter and user pickers, 'multi' for watchers and multi-user pickers,
+ * or undefined for other fields
+ */
+export function getUserFieldKind(fieldId: string): 'single' | 'multi' | undefined {
+  if (fieldId === 'assignee' || fieldId === 'reporter') {
+    return 'single';
+  }
+  if (fieldId === 'watches') {
+    return 'multi';
+  }
+  const metadata = getFieldMetadata(fieldId);
+  if (metadata && metadata.schema) {
+    if (metadata.schema.type === 'user') {
+      return 'single';
+    }
+    if (metadata.schema.type === 'array' && metadata.schema.items === 'user') {
+      return 'multi';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a user field value (email address or account ID)
+ * JiraClient resolves emails and names to account IDs first, since JIRA Cloud ignores emailAddress
+ * @returns Formatted user, null to clear the field, or undefined if the value is not recognised
+ */
+function formatUserValue(value: any): any {
+  if (typeof value === 'string' && value.includes('@')) {
+    // Email address
+    return { emailAddress: value };
+  } else if (typeof value === 'string' && value.trim()) {
+    // Account ID
+    return { accountId: value };
+  } else if (value && typeof value === 'object' && (value.emailAddress || value.accountId)) {
+    // Already formatted
+    return value;
+  } else if (value === null || value === '') {
+    // Unassign
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * Coerces a value to the shape JIRA expects for a field's schema type
+ * e.g., "X" becomes { value: "X" } for a select list and "5" becomes 5 for a number field
+ * @param field - Field metadata, used for error messages and allowed values
+ * @param schema - Schema to coerce against (the item schema when coercing array items)
+ * @param value - Value supplied by the caller
+ */
+function coerceValueBySchema(field: FieldMetadata, schema: FieldSchema, value: any): any {
+  const label = `${field.name} (${field.id})`;
+  if (value === null) {
+    return null;
+  }
+
+  switch (schema.type) {
+    case 'array': {
+      const items = Array.isArray(value)
+        ? value
+        : typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(item => item) : [value];
+      const itemSchema: FieldSchema = { type: schema.items || 'string', custom: schema.custom };
+      return items.map(item => coerceValueBySchema(field, itemSchema, item));
+    }
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || !Number.isFinite(number)) {
+        throw fieldError(field.id, `Invalid value for ${label}: "${value}" is not a number`);
+      }
+      return number;
+    }
+
+    case 'date': {
+      const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim();
+      const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+      if (!match || !date || date.getUTCMonth() !== Number(match[2]) - 1 || date.getUTCDate() !== Number(match[3])) {
+        throw fieldError(field.id, `Invalid value for ${label}: "${value}" is not a valid date. Expected format: YYYY-MM-DD`);
+      }
+      return text;
+    }
+
+    case 'datetime': {
+      const date = value instanceof Date ? value : new Date(String(value).trim());
+      if (isNaN(date.getTime())) {
+        throw fieldError(field.id, `Invalid value for ${label}: "${value}" is not a valid date and time. Expected ISO 8601, e.g. 2026-11-01T09:30:00Z`);
+      }
+      // JIRA expects a numeric UTC offset rather than "Z"
+      return date.toISOString().replace('Z', '+0000');
+    }
+
+    case 'option':
+      return coerceOptionValue(field, label, value);
+
+    case 'option-with-child': {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if (typeof value.child === 'string') {
+          return { ...coerceOptionValue(field, label, value.value ?? value.id), child: { value: value.child } };
+        }
+        return value;
+      }
+      const parts = Array.isArray(value)
+        ? value.map(part => String(part).trim())
+        : String(value).split(/\s*(?:->|>)\s*/).map(part => part.trim());
+      const parent = coerceOptionValue(field, label, parts[0]);
+      return parts[1] ? { ...parent, child: { value: parts[1] } } : parent;
+    }
+
+    case 'user': {
+      const user = formatUserValue(value);
+      if (user === undefined) {
+        throw fieldError(field.id, `Invalid value for ${label}: expected an email address or account ID`);
+      }
+      return user;
+    }
+
+    case 'priority':
+    case 'issuetype':
+    case 'resolution':
+    case 'version':
+    case 'component':
+    case 'securitylevel':
+    case 'group':
+      return typeof value === 'string' ? { name: value } : value;
+
+    case 'project':
+      return typeof value === 'string' ? { key: value } : value;
+
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Formats a select list option, matching allowed values case-insensitively when they are known
+ */
+function coerceOptionValue(field: FieldMetadata, label: string, value: any): any {
+  if (value && typeof value === 'object') {
+    return value;
+  }
+
+  const text = String(value).trim();
+  if (field.allowedValues && field.allowedValues.length > 0) {
+    const option = field.allowedValues.find(allowed =>
+      String(allowed.value ?? allowed.name ?? '').toLowerCase() === text.toLowerCase() || allowed.id === text
+    );
+    if (!option) {
+      const allowed = field.allowedValues.map(allowed => allowed.value ?? allowed.name).join(', ');
+      throw fieldError(field.id, `Invalid value for ${label}: "${text}". Allowed values: ${allowed}`);
+    }
+    return option.value !== undefined ? { value: option.value } : { id: option.id };
+  }
+  return { value: text };
+}
+
 /**
  * Checks if a field requires special formatting (like description for ADF)
+ * Rich text fields (description, environment and multi-line custom text fields) are sent as ADF
  */
 export function requiresSpecialFormatting(fieldId: string): boolean {
-  return fieldId === 'description';
+  if (fieldId === 'description' || fieldId === 'environment') {
+    return true;
+  }
+  const metadata = getFieldMetadata(fieldId);
+  return Boolean(metadata && metadata.schema && metadata.schema.custom === TEXTAREA_CUSTOM_TYPE);
+}
+
+/**
+ * Registers field metadata loaded from the JIRA instance, used for type-aware value coercion
+ * @param fields - Fields as returned by JIRA's /field endpoint
+ */
+export function registerFieldMetadata(fields: FieldMetadata[]): void {
+  const metadata: Record<string, FieldMetadata> = {};
+  const nameIndex = new Map<string, FieldMetadata[]>();
+  for (const field of fields) {
+    if (field && field.id) {
+      metadata[field.id] = field;
+      if (field.name) {
+        const name = normalizeFieldName(field.name);
+        nameIndex.set(name, [...(nameIndex.get(name) || []), field]);
+      }
+    }
+  }
+  const state = getFieldState();
+  state.metadata = metadata;
+  state.nameIndex = nameIndex;
+}
+
+/**
+ * Gets registered metadata for a JIRA field ID
+ */
+export function getFieldMetadata(fieldId: string): FieldMetadata | undefined {
+  const state = getFieldState();
+  return state.metadata[fieldId] || state.hintedMetadata[fieldId];
+}
+
+/**
+ * Finds formatted option values that are not among a field's allowed values
+ * Handles single and multi-value option fields ({ id }, { name } or { value }) and cascading selects
+ * @param field - Field metadata with allowedValues (from createmeta)
+ * @param value - Value as formatted for the JIRA API
+ * @returns Labels of the values that are not allowed (empty when all are allowed or nothing is known)
+ */
+export function findDisallowedValues(field: FieldMetadata, value: any): string[] {
+  if (!field.allowedValues || field.allowedValues.length === 0) {
+    return [];
+  }
+
+  const matches = (allowed: any, item: any): boolean => {
+    if (item.id !== undefined && String(allowed.id) === String(item.id)) {
+      return true;
+    }
+    const label = item.value ?? item.name;
+    return label !== undefined &&
+      String(allowed.value ?? allowed.name ?? '').toLowerCase() === String(label).toLowerCase();
+  };
+
+  const disallowed: string[] = [];
+  for (const item of Array.isArray(value) ? value : [value]) {
+    if (!item || typeof item !== 'object' || (item.id === undefined && item.value === undefined && item.name === undefined)) {
+      continue;
+    }
+    const option = field.allowedValues.find(allowed => matches(allowed, item));
+    if (!option) {
+      disallowed.push(String(item.value ?? item.name ?? item.id));
+    } else if (item.child && Array.isArray(option.children) && !option.children.some((child: any) => matches(child, item.child))) {
+      disallowed.push(`${option.value ?? option.name} > ${item.child.value ?? item.child.name ?? item.child.id}`);
+    }
+  }
+  return disallowed;
+}
+
+/**
+ * Describes the parameter type of a field for tool discovery, based on its JIRA schema
+ * @param field - Field metadata (from /field or createmeta)
+ * @returns Discovery type (string, number, array or object) and a hint describing the expected value
+ */
+export function describeFieldType(field: FieldMetadata): { type: string; hint?: string } {
+  const schema = field.schema;
+  if (!schema) {
+    return { type: 'string' };
+  }
+
+  const allowed = field.allowedValues && field.allowedValues.length > 0
+    ? `Allowed values: ${field.allowedValues.slice(0, 20).map(v => v.value ?? v.name).join(', ')}${field.allowedValues.length > 20 ? ', ...' : ''}`
+    : undefined;
+
+  switch (schema.type) {
+    case 'number':
+      return { type: 'number' };
+    case 'date':
+      return { type: 'string', hint: 'Date in YYYY-MM-DD format' };
+    case 'datetime':
+      return { type: 'string', hint: 'Date and time in ISO 8601 format' };
+    case 'user':
+      return { type: 'string', hint: 'User email address, display name or account ID' };
+    case 'option':
+      return { type: 'string', hint: allowed };
+    case 'option-with-child':
+      return { type: 'string', hint: `Parent and child option as "Parent > Child"${allowed ? `. ${allowed}` : ''}` };
+    case 'array':
+      if (schema.items === 'user') {
+        return { type: 'array', hint: 'List of user email addresses, display names or account IDs' };
+      }
+      return { type: 'array', hint: allowed };
+    default:
+      return { type: 'string' };
+  }
 }
 
 
@@ -0,0 +1,209 @@
+/**
+ * Loads field mappings from a JSON or YAML mapping file
+ * Supports the flat alias format ({ "alias": "fieldId" }) used by field-mappings-example.json
+ * and a detailed format with aliases, type hints, defaults, descriptions and required flags
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Type hints that can be given for a field in the mapping file
+export const FIELD_TYPE_HINTS = [
+  'string',
+  'text',
+  'number',
+  'date',
+  'datetime',
+  'select',
+  'multiselect',
+  'cascadingSelect',
+  'user',
+  'multiUser',
+  'array'
+] as const;
+
+export type FieldTypeHint = typeof FIELD_TYPE_HINTS[number];
+
+export interface FieldMappingDefinition {
+  name: string; // Friendly name used in tool parameters (e.g., "storyPoints")
+  id: string; // JIRA field ID (e.g., "customfield_10016")
+  aliases: string[];
+  type?: FieldTypeHint;
+  description?: string;
+  required: boolean;
+  default?: any;
+}
+
+export interface FieldMappingFile {
+  path: string;
+  aliases: Record<string, string>; // Every name and alias -> JIRA field ID
+  fields: FieldMappingDefinition[]; // Fields defined in the detailed format
+}
+
+// File names checked in the working directory when JIRA_FIELD_MAPPINGS_FILE is not set
+const DEFAULT_MAPPING_FILES = ['field-mappings.json', 'field-mappings.yaml', 'field-mappings.yml'];
+
+/**
+ * Finds the mapping file to load: JIRA_FIELD_MAPPINGS_FILE, or field-mappings.{json,yaml,yml}
+ * @param configured - Configured path (defaults to JIRA_FIELD_MAPPINGS_FILE)
+ * @param useDefaultFiles - Whether to look for the default file names when no path is configured
+ * @returns Absolute path, or null if no mapping file is configured
+ */
+export function findFieldMappingFile(configured = process.env.JIRA_FIELD_MAPPINGS_FILE, useDefaultFiles = true): string | null {
+  if (configured && configured.trim()) {
+    const resolved = path.resolve(configured.trim());
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Invalid field mappings file: ${resolved} (from JIRA_FIELD_MAPPINGS_FILE) does not exist`);
+    }
+    return resolved;
+  }
+  if (!useDefaultFiles) {
+    return null;
+  }
+
+  for (const fileName of DEFAULT_MAPPING_FILES) {
+    const candidate = path.resolve(fileName);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads, parses and validates a field mapping file
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @throws With every validation problem listed if the file is invalid
+ */
+export function loadFieldMappingFile(filePath: string): FieldMappingFile {
+  const content = fs.readFileSync(filePath, 'utf8');
+
+  let parsed: any;
+  try {
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid field mappings file ${filePath}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+  }
+
+  const problems: string[] = [];
+  const result = parseFieldMappings(parsed ?? {}, problems);
+  if (problems.length > 0) {
+    throw new Error(`Invalid field mappings file ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return { path: filePath, ...result };
+}
+
+/**
+ * Parses mapping file contents, collecting validation problems
+ * A top-level "fields" object selects the detailed format; anything else is read as flat aliases
+ */
+function parseFieldMappings(parsed: any, problems: string[]): Omit<FieldMappingFile, 'path'> {
+  const aliases: Record<string, string> = {};
+  const fields: FieldMappingDefinition[] = [];
+
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    problems.push('expected an object at the top level');
+    return { aliases, fields };
+  }
+
+  const addAlias = (alias: string, fieldId: string, source: string) => {
+    const existing = aliases[alias];
+    if (existing && existing !== fieldId) {
+      problems.push(`${source}: "${alias}" is already mapped to ${existing}`);
+      return;
+    }
+    aliases[alias] = fieldId;
+  };
+
+  // Flat format: { "alias": "fieldId" }
+  if (!('fields' in parsed)) {
+    for (const [alias, fieldId] of Object.entries(parsed)) {
+      if (typeof fieldId !== 'string' || !fieldId.trim()) {
+        problems.push(`"${alias}": expected a JIRA field ID string`);
+        continue;
+      }
+      addAlias(alias, fieldId.trim(), `"${alias}"`);
+    }
+    return { aliases, fields };
+  }
+
+  if (typeof parsed.fields !== 'object' || parsed.fields === null || Array.isArray(parsed.fields)) {
+    problems.push('"fields" must be an object keyed by friendly field name');
+    return { aliases, fields };
+  }
+
+  for (const [name, entry] of Object.entries<any>(parsed.fields)) {
+    const source = `fields.${name}`;
+
+    // Shorthand: "storyPoints": "customfield_10016"
+    const definition = typeof entry === 'string' ? { id: entry } : entry;
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+      problems.push(`${source}: expected a field ID string or an object with an "id"`);
+      continue;
+    }
+
+    const fieldProblems: string[] = [];
+    if (typeof definition.id !== 'string' || !definition.id.trim()) {
+      fieldProblems.push(`${source}.id: required, expected a JIRA field ID (e.g., customfield_10016)`);
+    }
+    if (definition.aliases !== undefined &&
+        (!Array.isArray(definition.aliases) || definition.aliases.some((alias: any) => typeof alias !== 'string'))) {
+      fieldProblems.push(`${source}.aliases: expected an array of strings`);
+    }
+    if (definition.type !== undefined && !FIELD_TYPE_HINTS.includes(definition.type)) {
+      fieldProblems.push(`${source}.type: "${definition.type}" is not one of ${FIELD_TYPE_HINTS.join(', ')}`);
+    }
+    if (definition.description !== undefined && typeof definition.description !== 'string') {
+      fieldProblems.push(`${source}.description: expected a string`);
+    }
+    if (definition.required !== undefined && typeof definition.required !== 'boolean') {
+      fieldProblems.push(`${source}.required: expected true or false`);
+    }
+    if (definition.default !== undefined && definition.type && !defaultMatchesType(definition.default, definition.type)) {
+      fieldProblems.push(`${source}.default: ${JSON.stringify(definition.default)} does not match type "${definition.type}"`);
+    }
+
+    if (fieldProblems.length > 0) {
+      problems.push(...fieldProblems);
+      continue;
+    }
+
+    const fieldId = definition.id.trim();
+    const fieldAliases: string[] = (definition.aliases || []).map((alias: string) => alias.trim()).filter((alias: string) => alias);
+    for (const alias of [name, ...fieldAliases]) {
+      addAlias(alias, fieldId, source);
+    }
+
+    fields.push({
+      name,
+      id: fieldId,
+      aliases: fieldAliases,
+      type: definition.type,
+      description: definition.description,
+      required: definition.required === true,
+      default: definition.default
+    });
+  }
+
+  return { aliases, fields };
+}
+
+/**
+ * Checks that a default value has the shape its type hint expects
+ */
+function defaultMatchesType(value: any, type: FieldTypeHint): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    case 'multiselect':
+    case 'multiUser':
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === 'string';
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Stores for idempotency keys, so a repeated create request returns the ticket created the first time
+ * Keys are kept in memory unless IDEMPOTENCY_STORE selects a file or a Redis-compatible REST store,
+ * which survive restarts and (for Redis) are shared between serverless instances
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFile, sendRedisCommand } from './storage';
+
+export interface IdempotencyRecord {
+  fingerprint: string; // Hash of the request, to detect a key being reused for a different request
+  status: 'pending' | 'completed'; // Pending while the request that claimed the key is still running
+  issueKey?: string;
+  ticket?: Record<string, any>; // Ticket returned to the original request
+  createdAt: number;
+}
+
+export interface IdempotencyStore {
+  /**
+   * Gets the record for a key, if there is one that has not expired
+   */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Stores a record only if the key has none, so only one request can claim a key
+   * @returns Whether the record was stored
+   */
+  add(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Stores a record, replacing any existing one
+   */
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+interface StoredRecord {
+  record: IdempotencyRecord;
+  expiresAt: number;
+}
+
+// Prefix for keys in shared stores, so they do not collide with other applications' keys
+const KEY_PREFIX = 'jira-idempotency:';
+
+/**
+ * Keeps records in process memory (lost on restart, and not shared between serverless instances)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, StoredRecord>();
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const stored = this.records.get(key);
+    if (stored && stored.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return stored?.record;
+  }
+
+  async add(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean> {
+    // Checked and set without awaiting in between, so concurrent claims cannot both win
+    const stored = this.records.get(key);
+    if (stored && stored.expiresAt > Date.now()) {
+      return false;
+    }
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Keeps records in a JSON file
+ * Operations are serialized within the process; the file should not be shared by several servers
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly file: JsonFile<StoredRecord>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath, 'idempotency store');
+  }
+
+  get(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.update(records => records[key]?.record);
+  }
+
+  add(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean> {
+    return this.update(records => {
+      if (records[key]) {
+        return false;
+      }
+      records[key] = { record, expiresAt: Date.now() + ttlMs };
+      return true;
+    });
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    await this.update(records => {
+      records[key] = { record, expiresAt: Date.now() + ttlMs };
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(records => {
+      delete records[key];
+    });
+  }
+
+  /**
+   * Applies a change to the file's records, without the expired ones
+   */
+  private update<T>(change: (records: Record<string, StoredRecord>) => T): Promise<T> {
+    return this.file.update(records => {
+      const now = Date.now();
+      for (const [key, stored] of Object.entries(records)) {
+        if (stored.expiresAt <= now) {
+          delete records[key];
+        }
+      }
+      return change(records);
+    });
+  }
+}
+
+/**
+ * Keeps records in Redis through a REST API that takes commands as JSON arrays
+ * (Upstash, Vercel KV and compatible services)
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly url: string, private readonly token: string) {}
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const value = await this.command(['GET', KEY_PREFIX + key]);
+    return typeof value === 'string' ? JSON.parse(value) : undefined;
+  }
+
+  async add(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean> {
+    return await this.command(['SET', KEY_PREFIX + key, JSON.stringify(record), 'NX', 'PX', String(ttlMs)]) === 'OK';
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    await this.command(['SET', KEY_PREFIX + key, JSON.stringify(record), 'PX', String(ttlMs)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', KEY_PREFIX + key]);
+  }
+
+  private command(args: string[]): Promise<any> {
+    return sendRedisCommand(this.url, this.token, args, 'Idempotency store');
+  }
+}
+
+/**
+ * Creates the store selected by IDEMPOTENCY_STORE ("memory", "file" or "redis")
+ * Defaults to redis when a Redis REST URL is configured, otherwise memory
+ */
+export function createIdempotencyStore(): IdempotencyStore {
+  const redisUrl = process.env.IDEMPOTENCY_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const redisToken = process.env.IDEMPOTENCY_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+  const kind = (process.env.IDEMPOTENCY_STORE || (redisUrl ? 'redis' : 'memory')).trim().toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryIdempotencyStore();
+    case 'file':
+      return new FileIdempotencyStore(path.resolve(
+        process.env.IDEMPOTENCY_FILE || path.join(os.tmpdir(), 'jira-idempotency-keys.json')
+      ));
+    case 'redis':
+      if (!redisUrl || !redisToken) {
+        throw new Error('IDEMPOTENCY_REDIS_REST_URL and IDEMPOTENCY_REDIS_REST_TOKEN are required for the redis idempotency store');
+      }
+      return new RedisIdempotencyStore(redisUrl, redisToken);
+    default:
+      throw new Error(`Invalid IDEMPOTENCY_STORE: ${kind}. Expected memory, file or redis`);
+  }
+}
+
+// Lazy initialization so environment variables are read when the store is first used
+let _idempotencyStore: IdempotencyStore | null = null;
+
+export const idempotencyStore = {
+  get instance(): IdempotencyStore {
+    if (!_idempotencyStore) {
+      _idempotencyStore = createIdempotencyStore();
+    }
+    return _idempotencyStore;
+  },
+
+  /**
+   * Replaces the store, e.g. with another IdempotencyStore implementation
+   */
+  use(store: IdempotencyStore): void {
+    _idempotencyStore = store;
+  }
+};
@@ -1,6 +1,70 @@
 import express from 'express';
-import { createJiraTicket, updateJiraTicket, CreateTicketParams } from './jira-tools';
+import {
+  createJiraTicket,
+  updateJiraTicket,
+  searchJiraTickets,
+  listJiraTransitions,
+  transitionJiraTicket,
+  addJiraComment,
+  listJiraComments,
+  updateJiraComment,
+  deleteJiraComment,
+  linkJiraTickets,
+  unlinkJiraTickets,
+  setJiraParent,
+  getJiraTicketLinks,
+  getJiraTicket,
+  attachJiraFile,
+  listJiraAttachments,
+  downloadJiraAttachment,
+  connectJiraAccount,
+  disconnectJiraAccount,
+  bulkCreateJiraTickets,
+  BulkCreateTicketParams,
+  CreateTicketParams,
+  SearchTicketsParams
+} from './jira-tools';
 import { jiraClient } from './jira-client';
+import {
+  getFieldMetadata,
+  getMappingFileFields,
+  describeFieldType,
+  normalizeFieldName,
+  FieldMetadata
+} from './field-mapper';
+import { JiraErrorCode, toJiraError } from './jira-errors';
+import {
+  getProjectKey,
+  getDefaultIssueType,
+  getCreateDefaults,
+  getIssueTypesWithDefaults,
+  describeCreateDefaults,
+  describeAssigneeDefault
+} from './create-defaults';
+import {
+  getTenants,
+  getCurrentTenant,
+  getSetting,
+  getSettings,
+  getTenantId,
+  findTenantByToken,
+  findTenantByPath,
+  runWithTenant,
+  tokensMatch,
+  TenantConfig
+} from './tenants';
+import { getApiKeys, findApiKey, checkApiKeyScope, ApiKey, TOOL_OPERATIONS } from './api-keys';
+import { recordAudit } from './audit-log';
+import { getCallerHeader, runWithCaller, getStateTenantId, completeAuthorization } from './jira-oauth';
+import {
+  handleMcpMessage,
+  dispatchToApp,
+  createError,
+  McpToolHost,
+  DiscoveryFunction,
+  DiscoveryParameter,
+  PARSE_ERROR
+} from './mcp-server';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -8,20 +72,72 @@ const PORT = process.env.PORT || 3000;
 // Trigger redeploy - environment variables updated
 
 // Middleware
-app.use(express.json());
+// Attachments can be sent as base64, so allow bodies larger than express's 100kb default
+app.use(express.json({ limit: '15mb' }));
+
+// Load and validate the tenants file (JIRA_TENANTS_FILE) and API keys (API_KEYS_FILE) at startup,
+// so configuration errors fail fast
+getTenants();
+getApiKeys();
+
+// Tenant path prefixes: /acme/tools/... is served as /tools/... for the acme tenant
+app.use((req, res, next) => {
+  const tenant = findTenantByPath(req.path);
+  if (!tenant || !tenant.pathPrefix) {
+    return next();
+  }
+  req.url = req.url.substring(tenant.pathPrefix.length) || '/';
+  res.locals.pathPrefix = tenant.pathPrefix;
+  runWithTenant(tenant, next);
+});
+
+// Caller identified by a bearer token
+interface Caller {
+  name: string; // API key name, "tenant:<id>" for a tenant's bearer token, or "BEARER_TOKEN"
+  tenant?: TenantConfig;
+  apiKey?: ApiKey; // Set for API keys, whose scopes are checked
+  expired?: boolean;
+}
+
+// Identifies the caller from a bearer token: an API key, a tenant's token, or BEARER_TOKEN
+// Under a tenant's path prefix, only that tenant's token and API keys are accepted
+function identifyCaller(token: string): Caller | undefined {
+  const pathTenant = getCurrentTenant();
+  const match = findApiKey(token);
+  if (match) {
+    const tenant = match.key.tenant ? getTenants().find(candidate => candidate.id === match.key.tenant) : undefined;
+    if (pathTenant && tenant !== pathTenant) {
+      return undefined;
+    }
+    return { name: match.key.name, tenant, apiKey: match.key, expired: match.expired };
+  }
+  if (pathTenant) {
+    return tokensMatch(token, pathTenant.bearerToken) ? { name: `tenant:${pathTenant.id}`, tenant: pathTenant } : undefined;
+  }
+  const tenant = findTenantByToken(token);
+  if (tenant) {
+    return { name: `tenant:${tenant.id}`, tenant };
+  }
+  const expectedToken = process.env.BEARER_TOKEN;
+  return expectedToken && tokensMatch(token, expectedToken) ? { name: 'BEARER_TOKEN' } : undefined;
+}
 
 // Bearer token authentication middleware for tool endpoints
+// The token selects the caller's tenant, and API keys are checked against their tool, operation and project scopes.
+// The calling user is the one an API key is bound to, or the one named in the JIRA_OAUTH_CALLER_HEADER header
+// by an API key trusted to send it; their JIRA OAuth grant (if any) is used for the request
 const authenticateBearerToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const authHeader = req.headers.authorization;
-  const expectedToken = process.env.BEARER_TOKEN;
 
-  if (!expectedToken) {
+  if (!process.env.BEARER_TOKEN && getTenants().length === 0 && getApiKeys().length === 0) {
     return res.status(500).json({
       error: 'Server configuration error',
-      message: 'BEARER_TOKEN environment variable is not configured'
+      message: 'No credentials are configured. Set BEARER_TOKEN, API_KEYS_FILE or JIRA_TENANTS_FILE'
     });
   }
 
+  // Rejections below are audited as denied rather than failed calls
+  res.locals.denied = true;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({
       error: 'Unauthorized',
@@ -30,15 +146,108 @@ const authenticateBearerToken = (req: express.Request, res: express.Response, ne
   }
 
   const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-  if (token !== expectedToken) {
+  const caller = identifyCaller(token);
+  if (!caller) {
     return res.status(403).json({
       error: 'Forbidden',
       message: 'Invalid bearer token'
     });
   }
+  res.locals.keyName = caller.name;
+  if (caller.expired) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      code: 'PERMISSION_DENIED',
+      message: `API key "${caller.name}" has expired`
+    });
+  }
+
+  // Scopes are checked in the caller's tenant, whose project is the default for creates and searches
+  const authorize = () => {
+    res.locals.tenantId = getTenantId();
+    const apiKey = caller.apiKey;
+    if (apiKey) {
+      const tool = req.path.replace(/^\/tools\//, '');
+      const bodyParams = req.body.parameters || req.body.arguments || req.body || {};
+      const denied = checkApiKeyScope(apiKey, tool, bodyParams, getSetting('JIRA_PROJECT_KEY'));
+      if (denied) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          code: 'PERMISSION_DENIED',
+          message: denied
+        });
+      }
+    }
+    // Anyone holding a shared token could name any user, so only keys marked as trusted may send the header
+    const callerHeader = req.headers[getCallerHeader()];
+    const namedCaller = typeof callerHeader === 'string' && callerHeader.trim() ? callerHeader.trim() : undefined;
+    if (namedCaller && !apiKey?.trustCallerHeader) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        code: 'PERMISSION_DENIED',
+        message: `The ${getCallerHeader()} header is only accepted from API keys with trustCallerHeader set`
+      });
+    }
+    const callerId = apiKey?.caller || namedCaller;
+    res.locals.callerId = callerId;
+    res.locals.denied = false;
+    return callerId ? runWithCaller(callerId, next) : next();
+  };
+  return caller.tenant && caller.tenant !== getCurrentTenant() ? runWithTenant(caller.tenant, authorize) : authorize();
+};
+
+// Writes an audit record for every tool call once it has been answered (see audit-log)
+app.use('/tools', (req, res, next) => {
+  const startedAt = Date.now();
+  const tool = req.path.replace(/^\//, '');
+  const bodyParams = (req.body && (req.body.parameters || req.body.arguments || req.body)) || {};
+  const ticketKeys = new Set<string>(['ticketKey', 'TicketKey', 'targetKey', 'TargetKey', 'parentKey', 'ParentKey']
+    .map(name => bodyParams[name])
+    .filter(value => typeof value === 'string' && value.trim())
+    .map(value => value.trim().toUpperCase()));
+
+  // Keep the error code and any created ticket keys from the response body
+  const sendJson = res.json.bind(res);
+  res.json = (body: any) => {
+    if (body && typeof body.code === 'string') {
+      res.locals.errorCode = body.code;
+    }
+    if (body && body.ticket && body.ticket.key) {
+      ticketKeys.add(body.ticket.key);
+    }
+    for (const result of body && Array.isArray(body.results) ? body.results : []) {
+      if (result && result.ticket && result.ticket.key) {
+        ticketKeys.add(result.ticket.key);
+      }
+    }
+    return sendJson(body);
+  };
 
+  res.on('finish', () => {
+    recordAudit({
+      timestamp: new Date(startedAt).toISOString(),
+      keyName: res.locals.keyName ?? null,
+      tenant: res.locals.tenantId ?? getTenantId(),
+      ...(res.locals.callerId ? { caller: res.locals.callerId } : {}),
+      tool,
+      operation: TOOL_OPERATIONS[tool],
+      ticketKeys: [...ticketKeys],
+      status: res.statusCode,
+      outcome: res.statusCode < 400 ? 'success' : res.locals.denied ? 'denied' : 'error',
+      ...(res.locals.errorCode ? { errorCode: res.locals.errorCode } : {}),
+      durationMs: Date.now() - startedAt
+    });
+  });
   next();
+});
+
+// Selects the tenant for unauthenticated endpoints (discovery) from an optional bearer token
+// Without a tenant token, the default configuration is described; with an API key, only the tools it may use
+const selectTenantByOptionalToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const authHeader = req.headers.authorization;
+  const caller = authHeader && authHeader.startsWith('Bearer ') ? identifyCaller(authHeader.substring(7)) : undefined;
+  res.locals.apiKey = caller?.apiKey;
+  return caller && caller.tenant && caller.tenant !== getCurrentTenant() ? runWithTenant(caller.tenant, next) : next();
 };
 
 // Health check endpoint
@@ -60,14 +269,26 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// Loads field metadata and the default create screen so discovery can describe field types
+// Discovery still works (with untyped custom fields) when JIRA is not reachable
+async function loadDiscoveryMetadata(): Promise<FieldMetadata[]> {
+  try {
+    const client = jiraClient.instance;
+    await client.loadFieldMetadata();
+    return await client.getCreateMeta(getProjectKey(), getDefaultIssueType());
+  } catch (error) {
+    console.warn('Could not load JIRA field metadata for discovery:', error);
+    return [];
+  }
+}
+
 // Helper function to dynamically build discovery parameters from environment variables
-function buildDiscoveryParameters() {
-  const parameters: Array<{
-    name: string;
-    type: string;
-    description: string;
-    required: boolean;
-  }> = [
+// Custom field types come from the JIRA field schema (createMeta adds allowed values)
+// Returns the parameters, and how many of them are custom fields rather than standard parameters
+function buildDiscoveryParameters(createMeta: FieldMetadata[] = []): { parameters: DiscoveryParameter[]; customFieldCount: number } {
+  const projectKey = getSetting('JIRA_PROJECT_KEY');
+  const defaults = projectKey ? getCreateDefaults(projectKey, getDefaultIssueType()) : {};
+  const parameters: DiscoveryParameter[] = [
     {
       name: 'Summary',
       type: 'string',
@@ -83,25 +304,25 @@ function buildDiscoveryParameters() {
     {
       name: 'issueType',
       type: 'string',
-      description: `Type of issue (defaults to ${process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Story'})`,
+      description: `Type of issue (defaults to ${getDefaultIssueType()})`,
       required: false
     },
     {
       name: 'assigneeEmail',
       type: 'string',
-      description: 'Email of the assignee',
+      description: `Assignee email address, display name or account ID${defaults.assignee ? ` (defaults to ${describeAssigneeDefault(defaults.assignee)})` : ''}`,
       required: false
     },
     {
       name: 'priority',
       type: 'string',
-      description: 'Priority name (e.g., High, Medium, Low, Critical)',
+      description: `Priority name (e.g., High, Medium, Low, Critical)${defaults.priority ? ` (defaults to ${defaults.priority})` : ''}`,
       required: false
     },
     {
       name: 'labels',
       type: 'array',
-      description: 'Array of label strings',
+      description: `Array of label strings${defaults.labels && defaults.labels.length > 0 ? ` (${defaults.labels.join(', ')} always added)` : ''}`,
       required: false
     },
     {
@@ -109,19 +330,56 @@ function buildDiscoveryParameters() {
       type: 'number',
       description: 'Story points',
       required: false
+    },
+    {
+      name: 'deferUnsettableFields',
+      type: 'boolean',
+      description: 'If some fields are not on the create screen for the issue type, create the ticket without them and then set them with an update (otherwise the request is rejected before anything is created)',
+      required: false
+    },
+    {
+      name: 'idempotencyKey',
+      type: 'string',
+      description: 'Unique key for this request (e.g., a UUID). Retrying with the same key returns the ticket created by the first attempt instead of creating a duplicate',
+      required: false
     }
   ];
 
+  // Add fields from the field mappings file, using its human-written descriptions
+  // A file entry with the same name as a standard parameter replaces that parameter
+  let customFieldCount = 0;
+  const fileFieldIds = new Set<string>();
+  for (const field of getMappingFileFields()) {
+    fileFieldIds.add(field.id);
+    const metadata = createMeta.find(meta => meta.id === field.id) || getFieldMetadata(field.id);
+    const { type: fieldType, hint } = metadata ? describeFieldType(metadata) : { type: 'string', hint: undefined };
+    const defaultNote = field.default !== undefined ? ` (defaults to ${JSON.stringify(field.default)})` : '';
+    const parameter = {
+      name: field.name,
+      type: fieldType,
+      description: `${field.description || `${field.name} (maps to ${field.id})`}${hint && !field.description ? `. ${hint}` : ''}${defaultNote}`,
+      required: field.required
+    };
+
+    const existing = parameters.findIndex(p => normalizeFieldName(p.name) === normalizeFieldName(field.name));
+    if (existing >= 0) {
+      parameters[existing] = parameter;
+    } else {
+      parameters.push(parameter);
+      customFieldCount++;
+    }
+  }
+
   // Dynamically add custom fields from JIRA_FIELD_* environment variables
   // Skip standard fields that are already included above
   const standardFields = ['SUMMARY', 'DESCRIPTION', 'PRIORITY', 'STORY_POINTS', 'LABELS'];
   
-  for (const [envVar, fieldId] of Object.entries(process.env)) {
+  for (const [envVar, fieldId] of Object.entries(getSettings())) {
     if (envVar.startsWith('JIRA_FIELD_') && fieldId && fieldId.trim()) {
       const fieldNameBase = envVar.replace('JIRA_FIELD_', '');
       
-      // Skip if it's a standard field we already included
-      if (standardFields.includes(fieldNameBase)) {
+      // Skip if it's a standard field we already included, or described by the mappings file
+      if (standardFields.includes(fieldNameBase) || fileFieldIds.has(fieldId.trim())) {
         continue;
       }
       
@@ -131,14 +389,9 @@ function buildDiscoveryParameters() {
         .map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
         .join('');
       
-      // Infer type from field name (common patterns)
-      let fieldType = 'string';
-      if (fieldName.toLowerCase().includes('score') || 
-          fieldName.toLowerCase().includes('points') ||
-          fieldName.toLowerCase().includes('value') ||
-          fieldName.toLowerCase().includes('count')) {
-        fieldType = 'number';
-      }
+      // Describe the type from the field's JIRA schema, falling back to string when unknown
+      const metadata = createMeta.find(field => field.id === fieldId.trim()) || getFieldMetadata(fieldId.trim());
+      const { type: fieldType, hint } = metadata ? describeFieldType(metadata) : { type: 'string', hint: undefined };
       
       // Create a friendly description
       const friendlyName = fieldNameBase
@@ -149,56 +402,548 @@ function buildDiscoveryParameters() {
       parameters.push({
         name: fieldName,
         type: fieldType,
-        description: `${friendlyName} (maps to ${fieldId})`,
+        description: `${friendlyName} (maps to ${fieldId})${hint ? `. ${hint}` : ''}`,
         required: false
       });
+      customFieldCount++;
     }
   }
 
-  return parameters;
+  return { parameters, customFieldCount };
 }
 
-// Discovery endpoint for Opal
-app.get('/discovery', (req, res) => {
-  const parameters = buildDiscoveryParameters();
+// Builds the tool definitions that discovery describes and the MCP server lists
+// An API key only sees the tools its scopes allow (project scopes are checked per call)
+async function buildDiscoveryFunctions(basePath: string, apiKey?: ApiKey): Promise<DiscoveryFunction[]> {
+  const { parameters, customFieldCount } = buildDiscoveryParameters(await loadDiscoveryMetadata());
   
   // Build description mentioning custom fields if any are configured
-  const customFieldCount = parameters.length - 7; // 7 standard fields
   const customFieldsNote = customFieldCount > 0 
-    ? ` Additionally supports ${customFieldCount} custom field(s) configured via JIRA_FIELD_* environment variables.`
+    ? ` Additionally supports ${customFieldCount} custom field(s) configured via the field mappings file or JIRA_FIELD_* environment variables.`
+    : '';
+
+  // Describe the project and any per-issue-type defaults (the default issue type's are on the parameters)
+  const projectKey = getSetting('JIRA_PROJECT_KEY');
+  const issueTypeDefaults = projectKey
+    ? getIssueTypesWithDefaults(projectKey)
+      .map(issueType => ({ issueType, description: describeCreateDefaults(getCreateDefaults(projectKey, issueType)) }))
+      .filter(({ description }) => description)
+      .map(({ issueType, description }) => `${issueType}: ${description}`)
+    : [];
+  const defaultsNote = projectKey
+    ? ` Tickets are created in the ${projectKey} project.${issueTypeDefaults.length > 0 ? ` Defaults by issue type (${issueTypeDefaults.join('. ')}).` : ''}`
     : '';
   
-  res.json({
-    functions: [
-      {
-        name: 'create_jira_ticket_with_fields',
-        description: `Create a new JIRA ticket with custom fields. Supports all standard fields (summary, description, assigneeEmail, issueType, priority, labels, components, fixVersions, dueDate, storyPoints).${customFieldsNote} Description supports markdown formatting.`,
-        parameters: parameters,
-        endpoint: '/tools/create_jira_ticket_with_fields',
-        httpMethod: 'POST'
-      },
-      {
-        name: 'update_jira_ticket_with_fields',
-        description: 'Update any field on an existing JIRA ticket. Supports updating summary, description, assignee, issue type, priority, labels, and any custom fields.',
-        parameters: [
-          {
-            name: 'ticketKey',
-            type: 'string',
-            description: 'JIRA ticket key (e.g., DTO-123)',
-            required: true
-          },
-          {
-            name: 'fields',
-            type: 'object',
-            description: 'Object containing fields to update. Supported field names: summary, description (supports markdown), assigneeEmail, issueType, priority, labels (array), components (array), fixVersions (array), dueDate (ISO date string), and any custom field IDs (e.g., customfield_10001). Example: {"summary": "New summary", "assigneeEmail": "user@optimizely.com", "priority": "High"}',
-            required: true
-          }
-        ],
-        endpoint: '/tools/update_jira_ticket_with_fields',
-        httpMethod: 'POST'
-      }
-    ]
-  });
+  const functions: DiscoveryFunction[] = [
+    {
+      name: 'create_jira_ticket_with_fields',
+      description: `Create a new JIRA ticket with custom fields. Supports all standard fields (summary, description, assigneeEmail, issueType, priority, labels, components, fixVersions, dueDate, storyPoints, reporter, watchers).${customFieldsNote}${defaultsNote} Description supports markdown formatting.`,
+      parameters: parameters,
+      endpoint: `${basePath}/tools/create_jira_ticket_with_fields`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'update_jira_ticket_with_fields',
+      description: 'Update any field on an existing JIRA ticket. Supports updating summary, description, assignee, issue type, priority, labels, and any custom fields.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DTO-123)',
+          required: true
+        },
+        {
+          name: 'fields',
+          type: 'object',
+          description: 'Object containing fields to update. Supported field names: summary, description (supports markdown), assigneeEmail, reporter, watchers (array of users to add), issueType, priority, labels (array), components (array), fixVersions (array), dueDate (ISO date string), and any custom field IDs (e.g., customfield_10001). Example: {"summary": "New summary", "assigneeEmail": "user@optimizely.com", "priority": "High"}',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/update_jira_ticket_with_fields`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'bulk_create_jira_tickets',
+      description: 'Create many JIRA tickets in one call (up to 200). Each ticket accepts the same fields as create_jira_ticket_with_fields. Give a ticket a "ref" and set "parentRef" on other tickets to create them as sub-tasks or children of it in the same batch. Returns success or failure for each ticket.',
+      parameters: [
+        {
+          name: 'tickets',
+          type: 'array',
+          description: 'Array of ticket objects, e.g. [{"ref": "story1", "summary": "Checkout story", "issueType": "Story"}, {"parentRef": "story1", "summary": "Build API", "issueType": "Sub-task"}]. Each ticket can have its own idempotencyKey',
+          required: true
+        },
+        {
+          name: 'idempotencyKey',
+          type: 'string',
+          description: 'Unique key for this batch (e.g., a UUID). Retrying the batch with the same key returns the tickets that were already created instead of creating duplicates',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/bulk_create_jira_tickets`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'search_jira_tickets',
+      description: 'Search JIRA tickets using raw JQL or structured filters (assignee, status, labels, issue type, created/updated date ranges). Returns compact ticket summaries. When jql is provided the structured filters are ignored.',
+      parameters: [
+        {
+          name: 'jql',
+          type: 'string',
+          description: 'Raw JQL query (e.g., project = DHK AND status = "In Progress" ORDER BY updated DESC)',
+          required: false
+        },
+        {
+          name: 'projectKey',
+          type: 'string',
+          description: `Project key to search in (defaults to ${getSetting('JIRA_PROJECT_KEY') || 'the configured project'})`,
+          required: false
+        },
+        {
+          name: 'assignee',
+          type: 'string',
+          description: 'Assignee email or account ID. Use "me" for the current user or "unassigned" for tickets without an assignee',
+          required: false
+        },
+        {
+          name: 'status',
+          type: 'array',
+          description: 'Status name(s) to match (e.g., ["To Do", "In Progress"])',
+          required: false
+        },
+        {
+          name: 'labels',
+          type: 'array',
+          description: 'Label(s) to match; tickets with any of the labels are returned',
+          required: false
+        },
+        {
+          name: 'issueType',
+          type: 'array',
+          description: 'Issue type name(s) to match (e.g., ["Story", "Bug"])',
+          required: false
+        },
+        {
+          name: 'createdAfter',
+          type: 'string',
+          description: 'Only tickets created on or after this date (YYYY-MM-DD or relative like -7d)',
+          required: false
+        },
+        {
+          name: 'createdBefore',
+          type: 'string',
+          description: 'Only tickets created on or before this date (YYYY-MM-DD or relative like -7d)',
+          required: false
+        },
+        {
+          name: 'updatedAfter',
+          type: 'string',
+          description: 'Only tickets updated on or after this date (YYYY-MM-DD or relative like -7d)',
+          required: false
+        },
+        {
+          name: 'updatedBefore',
+          type: 'string',
+          description: 'Only tickets updated on or before this date (YYYY-MM-DD or relative like -7d)',
+          required: false
+        },
+        {
+          name: 'orderBy',
+          type: 'string',
+          description: 'JQL ORDER BY clause for structured searches (defaults to "updated DESC")',
+          required: false
+        },
+        {
+          name: 'fields',
+          type: 'array',
+          description: 'Additional fields to include in each summary, by friendly name (e.g., ["storyPoints", "dueDate", "components"] or "storyPoints,dueDate")',
+          required: false
+        },
+        {
+          name: 'maxResults',
+          type: 'number',
+          description: 'Maximum number of tickets to return (1-500, defaults to 50; more than 100 are fetched as several JIRA pages)',
+          required: false
+        },
+        {
+          name: 'nextPageToken',
+          type: 'string',
+          description: 'Token from a previous search result to fetch the next page',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/search_jira_tickets`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'get_jira_ticket',
+      description: 'Get a JIRA ticket with its description and most recent comments rendered as markdown, plus its status, assignee, reporter, labels and parent.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'fields',
+          type: 'array',
+          description: 'Additional fields to include, by friendly name (e.g., ["storyPoints", "dueDate", "components"] or "storyPoints,dueDate")',
+          required: false
+        },
+        {
+          name: 'maxComments',
+          type: 'number',
+          description: 'Maximum number of comments to include, newest first (0-100, defaults to 20)',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/get_jira_ticket`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'transition_jira_ticket',
+      description: 'Move a JIRA ticket to a different workflow status (e.g., "In Progress", "Done"). Status names are matched case-insensitively. Omit status to list the transitions available from the ticket\'s current status.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'status',
+          type: 'string',
+          description: 'Target status or transition name (e.g., "In Progress", "Done"). Leave empty to list available transitions',
+          required: false
+        },
+        {
+          name: 'resolution',
+          type: 'string',
+          description: 'Resolution to set when closing the ticket (e.g., Done, Won\'t Do, Duplicate)',
+          required: false
+        },
+        {
+          name: 'fields',
+          type: 'object',
+          description: 'Transition screen fields to set in the same call, using the same field names as update_jira_ticket_with_fields. Example: {"fixVersions": ["1.2.0"]}',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/transition_jira_ticket`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'add_jira_comment',
+      description: 'Add a comment to a JIRA ticket. The comment body supports markdown formatting. Optionally restrict visibility to a project role or group.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'body',
+          type: 'string',
+          description: 'Comment text (supports markdown)',
+          required: true
+        },
+        {
+          name: 'visibilityRole',
+          type: 'string',
+          description: 'Restrict the comment to members of this project role (e.g., Developers)',
+          required: false
+        },
+        {
+          name: 'visibilityGroup',
+          type: 'string',
+          description: 'Restrict the comment to members of this group (e.g., jira-software-users)',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/add_jira_comment`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'list_jira_comments',
+      description: 'List the most recent comments on a JIRA ticket, newest first, with comment bodies rendered as markdown.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'maxResults',
+          type: 'number',
+          description: 'Maximum number of comments to return (1-100, defaults to 20)',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/list_jira_comments`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'update_jira_comment',
+      description: 'Replace the text of an existing comment on a JIRA ticket. The comment body supports markdown formatting.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'commentId',
+          type: 'string',
+          description: 'ID of the comment (as returned by list_jira_comments)',
+          required: true
+        },
+        {
+          name: 'body',
+          type: 'string',
+          description: 'New comment text (supports markdown)',
+          required: true
+        },
+        {
+          name: 'visibilityRole',
+          type: 'string',
+          description: 'Restrict the comment to members of this project role (e.g., Developers)',
+          required: false
+        },
+        {
+          name: 'visibilityGroup',
+          type: 'string',
+          description: 'Restrict the comment to members of this group (e.g., jira-software-users)',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/update_jira_comment`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'delete_jira_comment',
+      description: 'Delete a comment from a JIRA ticket.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'commentId',
+          type: 'string',
+          description: 'ID of the comment (as returned by list_jira_comments)',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/delete_jira_comment`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'link_jira_tickets',
+      description: 'Create a link between two JIRA tickets, e.g. "DHK-1 blocks DHK-2". The link type can be given by name (Blocks, Relates, Duplicate) or by relationship ("blocks", "is blocked by", "relates to", "duplicates").',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'linkType',
+          type: 'string',
+          description: 'Relationship from ticketKey to targetKey (e.g., "blocks", "is blocked by", "relates to", "duplicates")',
+          required: true
+        },
+        {
+          name: 'targetKey',
+          type: 'string',
+          description: 'Key of the ticket to link to (e.g., DHK-456)',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/link_jira_tickets`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'unlink_jira_tickets',
+      description: 'Remove links from a JIRA ticket, either by link ID or by the linked ticket key (optionally narrowed by link type).',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'linkId',
+          type: 'string',
+          description: 'ID of the link to remove (as returned by get_jira_ticket_links)',
+          required: false
+        },
+        {
+          name: 'targetKey',
+          type: 'string',
+          description: 'Remove links between ticketKey and this ticket',
+          required: false
+        },
+        {
+          name: 'linkType',
+          type: 'string',
+          description: 'Only remove links of this type or relationship (e.g., "blocks")',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/unlink_jira_tickets`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'set_jira_parent',
+      description: 'Set the epic or parent of a JIRA ticket by ticket key.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'parentKey',
+          type: 'string',
+          description: 'Key of the epic or parent ticket (e.g., DHK-100)',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/set_jira_parent`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'get_jira_ticket_links',
+      description: 'Get the relationships of a JIRA ticket: its parent/epic, child issues, and outward and inward links (e.g., what it blocks and what blocks it).',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/get_jira_ticket_links`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'attach_jira_file',
+      description: 'Attach a file (e.g., a CSV, screenshot or log) to a JIRA ticket, from base64 content or a public URL the server downloads. Image attachments come back with embedMarkdown, which embeds the image when used in the description or a comment.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        },
+        {
+          name: 'fileName',
+          type: 'string',
+          description: 'File name to show on the ticket (e.g., results.csv). Required with content; defaults to the file name from the URL',
+          required: false
+        },
+        {
+          name: 'content',
+          type: 'string',
+          description: 'Base64-encoded file content. Provide either content or url',
+          required: false
+        },
+        {
+          name: 'url',
+          type: 'string',
+          description: 'Public http(s) URL to download the file from. Provide either content or url',
+          required: false
+        },
+        {
+          name: 'mimeType',
+          type: 'string',
+          description: 'Content type of the file (e.g., text/csv). Detected automatically when omitted',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/attach_jira_file`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'list_jira_attachments',
+      description: 'List the files attached to a JIRA ticket with their ID, name, size, content type, author and upload date.',
+      parameters: [
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'JIRA ticket key (e.g., DHK-123)',
+          required: true
+        }
+      ],
+      endpoint: `${basePath}/tools/list_jira_attachments`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'download_jira_attachment',
+      description: 'Download a file attached to a JIRA ticket. Text files (including CSV and JSON) are returned as text, other files as base64.',
+      parameters: [
+        {
+          name: 'attachmentId',
+          type: 'string',
+          description: 'ID of the attachment, from list_jira_attachments',
+          required: true
+        },
+        {
+          name: 'ticketKey',
+          type: 'string',
+          description: 'Key of the ticket the attachment is on (e.g., "DHK-123"). Checked against the ticket\'s attachments; required when the API key is limited to some projects',
+          required: false
+        },
+        {
+          name: 'maxBytes',
+          type: 'number',
+          description: 'Refuse attachments larger than this many bytes (default and maximum: 10 MB)',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/download_jira_attachment`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'connect_jira_account',
+      description: 'Connect the user\'s own JIRA account, so tickets, comments and changes they ask for show them rather than the service account in JIRA. Returns whether they are connected and a link to open in a browser to authorize (or authorize again). After authorizing, the user is shown a confirmation code: call this again with that code to finish connecting. Without a connection, requests use the service account.',
+      parameters: [
+        {
+          name: 'confirmationCode',
+          type: 'string',
+          description: 'Code the user was shown after authorizing in JIRA (e.g. K7PM-Q2XD). Only use a code the user gives you',
+          required: false
+        }
+      ],
+      endpoint: `${basePath}/tools/connect_jira_account`,
+      httpMethod: 'POST'
+    },
+    {
+      name: 'disconnect_jira_account',
+      description: 'Disconnect the user\'s own JIRA account, so their requests use the service account again.',
+      parameters: [],
+      endpoint: `${basePath}/tools/disconnect_jira_account`,
+      httpMethod: 'POST'
+    }
+  ];
+
+  return apiKey
+    ? functions.filter(fn => (!apiKey.tools || apiKey.tools.includes(fn.name))
+      && (!apiKey.operations || apiKey.operations.includes(TOOL_OPERATIONS[fn.name])))
+    : functions;
+}
+
+// Discovery endpoint for Opal
+app.get('/discovery', selectTenantByOptionalToken, async (req, res) => {
+  res.json({ functions: await buildDiscoveryFunctions(res.locals.pathPrefix || '', res.locals.apiKey) });
 });
 
 // Tool execution endpoint (protected with Bearer token)
@@ -216,10 +961,13 @@ app.post('/tools/create_jira_ticket_with_fields', authenticateBearerToken, async
     const description = bodyParams.Description || bodyParams.description;
     const issueType = bodyParams.issueType || bodyParams.IssueType;
     const assigneeEmail = bodyParams.assigneeEmail || bodyParams.AssigneeEmail;
+    const deferUnsettableFields = bodyParams.deferUnsettableFields ?? bodyParams.DeferUnsettableFields;
+    const idempotencyKey = bodyParams.idempotencyKey || bodyParams.IdempotencyKey || req.get('Idempotency-Key');
 
     if (!summary) {
       return res.status(400).json({
         error: 'Missing required field: summary',
+        code: 'VALIDATION_FAILED',
         message: 'Please provide a summary for the JIRA ticket'
       });
     }
@@ -228,14 +976,16 @@ app.post('/tools/create_jira_ticket_with_fields', authenticateBearerToken, async
     const ticketData: CreateTicketParams = {
       summary,
       description: description || '',
-      issueType: issueType || process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Story',
-      assigneeEmail: assigneeEmail || 'alex.wald@optimizely.com'
+      issueType: issueType || getDefaultIssueType(),
+      assigneeEmail,
+      deferUnsettableFields: deferUnsettableFields === true || deferUnsettableFields === 'true',
+      ...(idempotencyKey ? { idempotencyKey: String(idempotencyKey) } : {})
     };
 
     // Include any additional fields that were passed (priority, labels, story points, etc.)
     for (const [key, value] of Object.entries(bodyParams)) {
       const normalizedKey = key.charAt(0).toLowerCase() + key.slice(1);
-      if (!['summary', 'Summary', 'description', 'Description', 'issueType', 'IssueType', 'assigneeEmail', 'AssigneeEmail'].includes(key) && 
+      if (!['summary', 'Summary', 'description', 'Description', 'issueType', 'IssueType', 'assigneeEmail', 'AssigneeEmail', 'deferUnsettableFields', 'DeferUnsettableFields', 'idempotencyKey', 'IdempotencyKey'].includes(key) && 
           !['parameters', 'arguments'].includes(key) &&
           value !== undefined && value !== null) {
         ticketData[normalizedKey] = value;
@@ -244,27 +994,69 @@ app.post('/tools/create_jira_ticket_with_fields', authenticateBearerToken, async
 
     const result = await createJiraTicket(ticketData);
 
+    let deferredNote = '';
+    if (result.deferredFields && result.deferredFieldsError) {
+      deferredNote = ` However, setting ${result.deferredFields.join(', ')} after creation failed: ${result.deferredFieldsError}`;
+    } else if (result.deferredFields) {
+      deferredNote = ` ${result.deferredFields.join(', ')} were set after creation because they are not on the create screen.`;
+    }
+
     res.json({
       success: true,
       ticket: result,
-      message: `Successfully created JIRA ticket ${result.key}. The ticket has been assigned to ${result.assignee} and can be viewed at ${result.url}`
+      message: result.replayed
+        ? `JIRA ticket ${result.key} was already created by an earlier request with the same idempotency key, so no new ticket was created. View at ${result.url}`
+        : `Successfully created JIRA ticket ${result.key}. The ticket ${result.assignee === 'unassigned' ? 'is unassigned' : `has been assigned to ${result.assignee}`} and can be viewed at ${result.url}${deferredNote}`
     });
 
   } catch (error) {
-    console.error('Error creating JIRA ticket:', error);
-    
-    if (error instanceof Error) {
-      res.status(500).json({
-        error: 'Failed to create JIRA ticket',
-        message: error.message,
-        details: 'Please check your JIRA permissions and project configuration'
-      });
-    } else {
-      res.status(500).json({
-        error: 'Unknown error occurred',
-        message: 'An unexpected error occurred while creating the JIRA ticket'
+    sendToolError(res, error, 'create JIRA ticket');
+  }
+});
+
+// Tool execution endpoint for bulk ticket creation (protected with Bearer token)
+app.post('/tools/bulk_create_jira_tickets', authenticateBearerToken, async (req, res) => {
+  try {
+    // Log the request body for debugging
+    console.log('Bulk create request body:', JSON.stringify(req.body, null, 2));
+
+    // Opal may send parameters nested in a 'parameters' object or directly in the body
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const tickets = bodyParams.tickets || bodyParams.Tickets;
+    const idempotencyKey = bodyParams.idempotencyKey || bodyParams.IdempotencyKey || req.get('Idempotency-Key');
+
+    if (!Array.isArray(tickets) || tickets.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required field: tickets',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide an array of tickets to create'
       });
     }
+
+    // Handle both lowercase and capitalized field names on each ticket
+    const items: BulkCreateTicketParams[] = tickets.map((ticket: Record<string, any>) => {
+      const item: Record<string, any> = {};
+      for (const [key, value] of Object.entries(ticket || {})) {
+        if (value !== undefined && value !== null) {
+          item[key.charAt(0).toLowerCase() + key.slice(1)] = value;
+        }
+      }
+      return item as BulkCreateTicketParams;
+    });
+
+    const result = await bulkCreateJiraTickets(items, idempotencyKey ? String(idempotencyKey) : undefined);
+    const createdKeys = result.results.filter(item => item.success).map(item => item.success ? item.ticket.key : '');
+
+    res.json({
+      success: result.failed === 0,
+      ...result,
+      message: result.failed === 0
+        ? `Successfully created ${result.succeeded} JIRA ticket(s): ${createdKeys.join(', ')}`
+        : `Created ${result.succeeded} of ${result.total} JIRA ticket(s)${createdKeys.length > 0 ? ` (${createdKeys.join(', ')})` : ''}; ${result.failed} failed. See results for per-ticket errors.`
+    });
+
+  } catch (error) {
+    sendToolError(res, error, 'bulk create JIRA tickets');
   }
 });
 
@@ -284,6 +1076,7 @@ app.post('/tools/update_jira_ticket_with_fields', authenticateBearerToken, async
     if (!ticketKey) {
       return res.status(400).json({
         error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
         message: 'Please provide a ticket key (e.g., DHK-123)'
       });
     }
@@ -291,6 +1084,7 @@ app.post('/tools/update_jira_ticket_with_fields', authenticateBearerToken, async
     if (!fields || Object.keys(fields).length === 0) {
       return res.status(400).json({
         error: 'Missing required field: fields',
+        code: 'VALIDATION_FAILED',
         message: 'Please provide at least one field to update'
       });
     }
@@ -307,58 +1101,694 @@ app.post('/tools/update_jira_ticket_with_fields', authenticateBearerToken, async
     });
 
   } catch (error) {
-    console.error('Error updating JIRA ticket:', error);
-    
-    if (error instanceof Error) {
-      // Provide specific error messages
-      if (error.message.includes('not found')) {
-        return res.status(404).json({
-          error: 'Ticket not found',
-          message: error.message
-        });
-      } else if (error.message.includes('permission') || error.message.includes('Access denied')) {
-        return res.status(403).json({
-          error: 'Permission denied',
-          message: error.message
-        });
-      } else if (error.message.includes('Invalid') || error.message.includes('format')) {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: error.message
-        });
-      } else {
-        return res.status(500).json({
-          error: 'Failed to update JIRA ticket',
-          message: error.message,
-          details: 'Please check your JIRA permissions and field values'
-        });
+    sendToolError(res, error, 'update JIRA ticket');
+  }
+});
+
+// Tool execution endpoint for searching tickets (protected with Bearer token)
+app.post('/tools/search_jira_tickets', authenticateBearerToken, async (req, res) => {
+  try {
+    // Log the request body for debugging
+    console.log('Search request body:', JSON.stringify(req.body, null, 2));
+
+    // Opal may send parameters nested in a 'parameters' object or directly in the body
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+
+    // Handle both lowercase and capitalized parameter names
+    const searchParams: SearchTicketsParams = {};
+    for (const [key, value] of Object.entries(bodyParams)) {
+      if (['parameters', 'arguments'].includes(key) || value === undefined || value === null || value === '') {
+        continue;
       }
-    } else {
-      return res.status(500).json({
-        error: 'Unknown error occurred',
-        message: 'An unexpected error occurred while updating the JIRA ticket'
+      const normalizedKey = key === 'JQL' ? 'jql' : key.charAt(0).toLowerCase() + key.slice(1);
+      (searchParams as Record<string, any>)[normalizedKey] = value;
+    }
+    if (searchParams.maxResults !== undefined) {
+      searchParams.maxResults = Number(searchParams.maxResults);
+    }
+
+    const result = await searchJiraTickets(searchParams);
+
+    res.json({
+      success: true,
+      ...result,
+      message: result.count === 0 && !result.total
+        ? 'No JIRA tickets matched the search'
+        : `${result.total !== undefined
+          ? `Found ${result.total} JIRA ticket(s)${result.count < result.total ? `, returning ${result.count}` : ''}`
+          : `Returning ${result.count} JIRA ticket(s)`}${result.isLast ? '' : ' (more results available via nextPageToken)'}`
+    });
+
+  } catch (error) {
+    sendToolError(res, error, 'search JIRA tickets');
+  }
+});
+
+// Tool execution endpoint for reading a ticket (protected with Bearer token)
+app.post('/tools/get_jira_ticket', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Get ticket request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const fields = bodyParams.fields || bodyParams.Fields;
+    const maxComments = bodyParams.maxComments ?? bodyParams.MaxComments;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
       });
     }
+
+    const ticket = await getJiraTicket({
+      ticketKey,
+      fields,
+      maxComments: maxComments !== undefined && maxComments !== '' ? Number(maxComments) : undefined
+    });
+
+    res.json({
+      success: true,
+      ticket,
+      message: `${ticket.key}: ${ticket.summary} (${ticket.status}). View at ${ticket.url}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'get JIRA ticket');
   }
 });
 
+// Tool execution endpoint for transitioning tickets (protected with Bearer token)
+app.post('/tools/transition_jira_ticket', authenticateBearerToken, async (req, res) => {
+  try {
+    // Log the request body for debugging
+    console.log('Transition request body:', JSON.stringify(req.body, null, 2));
+
+    // Opal may send parameters nested in a 'parameters' object or directly in the body
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+
+    // Handle both lowercase and capitalized parameter names
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const status = bodyParams.status || bodyParams.Status;
+    const resolution = bodyParams.resolution || bodyParams.Resolution;
+    const fields = bodyParams.fields || bodyParams.Fields;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
+      });
+    }
+
+    // Without a target status, list the available transitions
+    if (!status) {
+      const available = await listJiraTransitions(ticketKey);
+      return res.json({
+        success: true,
+        ...available,
+        message: `Ticket ${available.key} is in status "${available.currentStatus}". Available target statuses: ${available.transitions.map(t => t.toStatus).join(', ') || 'none'}`
+      });
+    }
+
+    const result = await transitionJiraTicket({
+      ticketKey,
+      status,
+      resolution,
+      fields
+    });
+
+    res.json({
+      success: true,
+      ticket: result,
+      message: `Successfully moved JIRA ticket ${result.key} from "${result.fromStatus}" to "${result.toStatus}". View at ${result.url}`
+    });
+
+  } catch (error) {
+    sendToolError(res, error, 'transition JIRA ticket');
+  }
+});
+
+// Short titles for tool error responses, by error code
+const ERROR_TITLES: Record<JiraErrorCode, string> = {
+  VALIDATION_FAILED: 'Invalid request',
+  AUTHENTICATION_FAILED: 'JIRA authentication failed',
+  PERMISSION_DENIED: 'Permission denied',
+  NOT_FOUND: 'Not found',
+  CONFLICT: 'Conflict',
+  RATE_LIMITED: 'Rate limited',
+  JIRA_UNAVAILABLE: 'JIRA unavailable',
+  JIRA_UNREACHABLE: 'JIRA unreachable',
+  INTERNAL_ERROR: 'Internal error'
+};
+
+// Sends an error response for tool failures, with the HTTP status and code of the error's type
+function sendToolError(res: express.Response, error: unknown, action: string) {
+  console.error(`Error trying to ${action}:`, error);
+
+  const jiraError = toJiraError(error, action);
+  if (jiraError.code === 'RATE_LIMITED' && jiraError.retryAfterMs) {
+    res.set('Retry-After', String(Math.ceil(jiraError.retryAfterMs / 1000)));
+  }
+  return res.status(jiraError.httpStatus).json({
+    error: jiraError.code === 'INTERNAL_ERROR' ? `Failed to ${action}` : ERROR_TITLES[jiraError.code],
+    code: jiraError.code,
+    message: jiraError.message,
+    ...(Object.keys(jiraError.fieldErrors).length > 0 ? { fieldErrors: jiraError.fieldErrors } : {}),
+    ...(jiraError.requestId ? { jiraRequestId: jiraError.requestId } : {})
+  });
+}
+
+// Tool execution endpoint for adding comments (protected with Bearer token)
+app.post('/tools/add_jira_comment', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Add comment request body:', JSON.stringify(req.body, null, 2));
+
+    // Opal may send parameters nested in a 'parameters' object or directly in the body
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const body = bodyParams.body || bodyParams.Body;
+
+    if (!ticketKey || !body) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : 'body'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123) and a comment body'
+      });
+    }
+
+    const comment = await addJiraComment({
+      ticketKey,
+      body,
+      visibilityRole: bodyParams.visibilityRole || bodyParams.VisibilityRole,
+      visibilityGroup: bodyParams.visibilityGroup || bodyParams.VisibilityGroup
+    });
+
+    res.json({
+      success: true,
+      comment,
+      message: `Successfully added comment ${comment.id} to ${ticketKey}. View at ${comment.url}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'add JIRA comment');
+  }
+});
+
+// Tool execution endpoint for listing comments (protected with Bearer token)
+app.post('/tools/list_jira_comments', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('List comments request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const maxResults = bodyParams.maxResults || bodyParams.MaxResults;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
+      });
+    }
+
+    const result = await listJiraComments(ticketKey, maxResults ? Number(maxResults) : undefined);
+
+    res.json({
+      success: true,
+      ...result,
+      message: `Showing ${result.comments.length} of ${result.total} comment(s) on ${result.key}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'list JIRA comments');
+  }
+});
+
+// Tool execution endpoint for editing comments (protected with Bearer token)
+app.post('/tools/update_jira_comment', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Update comment request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const commentId = bodyParams.commentId || bodyParams.CommentId;
+    const body = bodyParams.body || bodyParams.Body;
+
+    if (!ticketKey || !commentId || !body) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : !commentId ? 'commentId' : 'body'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key, comment ID and the new comment body'
+      });
+    }
+
+    const comment = await updateJiraComment({
+      ticketKey,
+      commentId: String(commentId),
+      body,
+      visibilityRole: bodyParams.visibilityRole || bodyParams.VisibilityRole,
+      visibilityGroup: bodyParams.visibilityGroup || bodyParams.VisibilityGroup
+    });
+
+    res.json({
+      success: true,
+      comment,
+      message: `Successfully updated comment ${comment.id} on ${ticketKey}. View at ${comment.url}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'update JIRA comment');
+  }
+});
+
+// Tool execution endpoint for deleting comments (protected with Bearer token)
+app.post('/tools/delete_jira_comment', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Delete comment request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const commentId = bodyParams.commentId || bodyParams.CommentId;
+
+    if (!ticketKey || !commentId) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : 'commentId'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key and comment ID'
+      });
+    }
+
+    const result = await deleteJiraComment(ticketKey, String(commentId));
+
+    res.json({
+      success: true,
+      ...result,
+      message: `Successfully deleted comment ${result.commentId} from ${result.key}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'delete JIRA comment');
+  }
+});
+
+// Tool execution endpoint for linking tickets (protected with Bearer token)
+app.post('/tools/link_jira_tickets', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Link request body:', JSON.stringify(req.body, null, 2));
+
+    // Opal may send parameters nested in a 'parameters' object or directly in the body
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const linkType = bodyParams.linkType || bodyParams.LinkType;
+    const targetKey = bodyParams.targetKey || bodyParams.TargetKey;
+
+    if (!ticketKey || !linkType || !targetKey) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : !linkType ? 'linkType' : 'targetKey'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key, link type (e.g., "blocks") and target ticket key'
+      });
+    }
+
+    const result = await linkJiraTickets({ ticketKey, linkType, targetKey });
+
+    res.json({
+      success: true,
+      link: result,
+      message: `Successfully linked: ${result.key} ${result.relationship} ${result.targetKey}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'link JIRA tickets');
+  }
+});
+
+// Tool execution endpoint for removing ticket links (protected with Bearer token)
+app.post('/tools/unlink_jira_tickets', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Unlink request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
+      });
+    }
+
+    const result = await unlinkJiraTickets({
+      ticketKey,
+      linkId: bodyParams.linkId || bodyParams.LinkId,
+      targetKey: bodyParams.targetKey || bodyParams.TargetKey,
+      linkType: bodyParams.linkType || bodyParams.LinkType
+    });
+
+    res.json({
+      success: true,
+      ...result,
+      message: `Removed ${result.removedLinks.length} link(s) from ${result.key}: ${result.removedLinks.map(link => `${link.relationship} ${link.key}`).join(', ')}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'unlink JIRA tickets');
+  }
+});
+
+// Tool execution endpoint for setting a ticket's epic/parent (protected with Bearer token)
+app.post('/tools/set_jira_parent', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Set parent request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const parentKey = bodyParams.parentKey || bodyParams.ParentKey;
+
+    if (!ticketKey || !parentKey) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : 'parentKey'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key and the key of its epic or parent'
+      });
+    }
+
+    const result = await setJiraParent(ticketKey, parentKey);
+
+    res.json({
+      success: true,
+      ticket: result,
+      message: `Successfully set the parent of ${result.key} to ${parentKey}. View at ${result.url}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'set JIRA ticket parent');
+  }
+});
+
+// Tool execution endpoint for reading a ticket's link graph (protected with Bearer token)
+app.post('/tools/get_jira_ticket_links', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Get links request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
+      });
+    }
+
+    const result = await getJiraTicketLinks(ticketKey);
+
+    res.json({
+      success: true,
+      links: result,
+      message: `${result.key} has ${result.outward.length} outward link(s), ${result.inward.length} inward link(s) and ${result.children.length} child issue(s)${result.parent ? `; parent is ${result.parent.key}` : ''}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'get JIRA ticket links');
+  }
+});
+
+// Tool execution endpoint for attaching files (protected with Bearer token)
+app.post('/tools/attach_jira_file', authenticateBearerToken, async (req, res) => {
+  try {
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const content = bodyParams.content || bodyParams.Content;
+    const url = bodyParams.url || bodyParams.Url || bodyParams.URL;
+
+    // Log the request without the (possibly large) file content
+    console.log('Attach file request:', JSON.stringify({ ticketKey, url, fileName: bodyParams.fileName, contentLength: content?.length }, null, 2));
+
+    if (!ticketKey || (!content && !url)) {
+      return res.status(400).json({
+        error: `Missing required field: ${!ticketKey ? 'ticketKey' : 'content or url'}`,
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123) and the file as base64 content or a URL'
+      });
+    }
+
+    const result = await attachJiraFile({
+      ticketKey,
+      fileName: bodyParams.fileName || bodyParams.FileName,
+      content,
+      url,
+      mimeType: bodyParams.mimeType || bodyParams.MimeType
+    });
+
+    res.json({
+      success: true,
+      ...result,
+      message: `Successfully attached ${result.attachments.map(attachment => attachment.filename).join(', ')} to ${result.key}`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'attach file to JIRA ticket');
+  }
+});
+
+// Tool execution endpoint for listing attachments (protected with Bearer token)
+app.post('/tools/list_jira_attachments', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('List attachments request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+
+    if (!ticketKey) {
+      return res.status(400).json({
+        error: 'Missing required field: ticketKey',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide a ticket key (e.g., DHK-123)'
+      });
+    }
+
+    const result = await listJiraAttachments(ticketKey);
+
+    res.json({
+      success: true,
+      ...result,
+      message: `${result.key} has ${result.attachments.length} attachment(s)`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'list JIRA attachments');
+  }
+});
+
+// Tool execution endpoint for downloading an attachment (protected with Bearer token)
+app.post('/tools/download_jira_attachment', authenticateBearerToken, async (req, res) => {
+  try {
+    console.log('Download attachment request body:', JSON.stringify(req.body, null, 2));
+
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const attachmentId = bodyParams.attachmentId || bodyParams.AttachmentId;
+    const ticketKey = bodyParams.ticketKey || bodyParams.TicketKey;
+    const maxBytes = bodyParams.maxBytes || bodyParams.MaxBytes;
+
+    if (!attachmentId) {
+      return res.status(400).json({
+        error: 'Missing required field: attachmentId',
+        code: 'VALIDATION_FAILED',
+        message: 'Please provide the ID of the attachment (from list_jira_attachments)'
+      });
+    }
+
+    const attachment = await downloadJiraAttachment({
+      attachmentId,
+      ticketKey,
+      maxBytes: maxBytes ? Number(maxBytes) : undefined
+    });
+
+    res.json({
+      success: true,
+      attachment,
+      message: `Downloaded ${attachment.filename} (${attachment.size} bytes, ${attachment.encoding === 'utf8' ? 'as text' : 'base64-encoded'})`
+    });
+  } catch (error) {
+    sendToolError(res, error, 'download JIRA attachment');
+  }
+});
+
+// Tool execution endpoint for connecting the caller's own JIRA account (protected with Bearer token)
+app.post('/tools/connect_jira_account', authenticateBearerToken, async (req, res) => {
+  try {
+    const bodyParams = req.body.parameters || req.body.arguments || req.body;
+    const confirmationCode = bodyParams.confirmationCode || bodyParams.ConfirmationCode;
+    const connection = await connectJiraAccount(confirmationCode);
+    const account = connection.account;
+    let message = `Not connected yet, so requests use the service account. Open this link to connect your JIRA account (valid for 10 minutes), then give me the confirmation code it shows: ${connection.authorizationUrl}`;
+    if (account && !connection.authorizationUrl) {
+      message = `Connected to JIRA as ${account.displayName || account.accountId}; requests now act as this account`;
+    } else if (account) {
+      message = `Connected to JIRA as ${account.displayName || account.accountId}. To connect another account, open ${connection.authorizationUrl} and give me the confirmation code it shows`;
+    }
+    res.json({ success: true, ...connection, message });
+  } catch (error) {
+    sendToolError(res, error, 'connect JIRA account');
+  }
+});
+
+// Tool execution endpoint for disconnecting the caller's own JIRA account (protected with Bearer token)
+app.post('/tools/disconnect_jira_account', authenticateBearerToken, async (req, res) => {
+  try {
+    const result = await disconnectJiraAccount();
+    res.json({
+      success: true,
+      ...result,
+      message: result.account
+        ? `Disconnected JIRA account ${result.account.displayName || result.account.accountId}; requests now use the service account`
+        : 'No JIRA account was connected; requests use the service account'
+    });
+  } catch (error) {
+    sendToolError(res, error, 'disconnect JIRA account');
+  }
+});
+
+// OAuth callback: JIRA redirects here after the user authorizes (see jira-oauth)
+// The state names the tenant, which is checked against the tenant's path prefix when there is one
+// The grant stays pending until the caller submits the confirmation code shown here through connect_jira_account
+app.get('/oauth/callback', async (req, res) => {
+  const code = typeof req.query.code === 'string' ? req.query.code : '';
+  const state = typeof req.query.state === 'string' ? req.query.state : '';
+  if (req.query.error || !code) {
+    return res.status(400).type('text/plain').send(
+      `JIRA authorization was not completed: ${req.query.error_description || req.query.error || 'no authorization code was given'}`
+    );
+  }
+
+  try {
+    const tenantId = getStateTenantId(state);
+    const tenant = getTenants().find(candidate => candidate.id === tenantId);
+    const complete = () => completeAuthorization(code, state);
+    const { grant, confirmationCode } = await (tenant && !getCurrentTenant() ? runWithTenant(tenant, complete) : complete());
+    res.type('text/plain').send([
+      `Authorized JIRA as ${grant.displayName || grant.accountId} (${grant.siteUrl}).`,
+      '',
+      `Confirmation code: ${confirmationCode}`,
+      '',
+      'To finish connecting, give this code to the assistant where you asked to connect your JIRA account. It is valid for 10 minutes.',
+      'Only do this if you asked for this link yourself: the code connects your JIRA account to whoever asked for it. Without the code, nothing changes.'
+    ].join('\n'));
+  } catch (error) {
+    console.error('Error trying to complete JIRA authorization:', error);
+    const jiraError = toJiraError(error, 'complete JIRA authorization');
+    res.status(jiraError.httpStatus).type('text/plain').send(`JIRA authorization failed: ${jiraError.message}`);
+  }
+});
+
+// Origin of BASE_URL (scheme, host and port), for comparing with a browser's Origin header
+function getBaseUrlOrigin(): string | undefined {
+  try {
+    return process.env.BASE_URL ? new URL(process.env.BASE_URL).origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Browsers send an Origin; only allowed origins may call /mcp, so other websites cannot reach a local server
+const checkMcpOrigin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const origin = req.headers.origin;
+  const allowedOrigins = (process.env.MCP_ALLOWED_ORIGINS || '').split(',').map(item => item.trim()).filter(item => item);
+  if (origin && !allowedOrigins.includes(origin) && origin !== getBaseUrlOrigin()) {
+    return res.status(403).json(createError(null, -32000, `Origin ${origin} is not allowed. Add it to MCP_ALLOWED_ORIGINS`));
+  }
+  next();
+};
+
+// Bearer token authentication for /mcp, which selects the caller's tenant like the tool endpoints
+// A missing or invalid token is answered on the transport with 401, which is what starts an MCP client's
+// authorization flow; API key scopes and the caller header are still checked by the tool endpoints on each call
+const authenticateMcpRequest = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!process.env.BEARER_TOKEN && getTenants().length === 0 && getApiKeys().length === 0) {
+    return res.status(500).json(createError(null, -32000, 'No credentials are configured. Set BEARER_TOKEN, API_KEYS_FILE or JIRA_TENANTS_FILE'));
+  }
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).set('WWW-Authenticate', 'Bearer').json(
+      createError(null, -32000, 'Missing or invalid Authorization header. Expected: Bearer <token>')
+    );
+  }
+  const caller = identifyCaller(authHeader.substring(7));
+  if (!caller || caller.expired) {
+    return res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json(
+      createError(null, -32000, caller ? `API key "${caller.name}" has expired` : 'Invalid bearer token')
+    );
+  }
+  res.locals.apiKey = caller.apiKey;
+  return caller.tenant && caller.tenant !== getCurrentTenant() ? runWithTenant(caller.tenant, next) : next();
+};
+
+// MCP streamable HTTP transport (see mcp-server)
+// Requests are answered with JSON; the server sends no messages of its own, so there is no event stream to open
+app.post('/mcp', checkMcpOrigin, authenticateMcpRequest, async (req, res) => {
+  if (!req.body || typeof req.body !== 'object') {
+    return res.status(400).json(createError(null, PARSE_ERROR, 'Expected a JSON-RPC message with Content-Type: application/json'));
+  }
+
+  const response = await handleMcpMessage(req.body, createMcpToolHost(req, res));
+  if (!response) {
+    return res.status(202).end();
+  }
+  res.json(response);
+});
+
+app.all('/mcp', (req, res) => {
+  res.status(405).set('Allow', 'POST').json(createError(null, -32000, 'Method not allowed. Send JSON-RPC messages with POST'));
+});
+
+// Lets the MCP server list the tools the client may use, and call them through the tool endpoints with
+// the client's bearer token and caller header
+function createMcpToolHost(req: express.Request, res: express.Response): McpToolHost {
+  const basePath: string = res.locals.pathPrefix || '';
+  const headers: Record<string, string> = {};
+  for (const name of ['authorization', getCallerHeader()]) {
+    const value = req.headers[name];
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+  return {
+    listTools: () => buildDiscoveryFunctions(basePath, res.locals.apiKey),
+    isTool: name => Object.prototype.hasOwnProperty.call(TOOL_OPERATIONS, name),
+    callTool: (name, args) => dispatchToApp(app, { method: 'POST', url: `${basePath}/tools/${name}`, headers, body: args })
+  };
+}
+
 // Root endpoint
 app.get('/', (req, res) => {
+  const basePath: string = res.locals.pathPrefix || '';
   res.json({
     name: 'Optimizely Internal Tools',
     description: 'JIRA integration tool for Optimizely teams',
     version: '1.0.0',
     endpoints: {
-      health: '/health',
-      discovery: '/discovery',
-      createTicket: '/tools/create_jira_ticket_with_fields',
-      updateTicket: '/tools/update_jira_ticket_with_fields'
+      health: `${basePath}/health`,
+      discovery: `${basePath}/discovery`,
+      mcp: `${basePath}/mcp`,
+      createTicket: `${basePath}/tools/create_jira_ticket_with_fields`,
+      updateTicket: `${basePath}/tools/update_jira_ticket_with_fields`,
+      bulkCreateTickets: `${basePath}/tools/bulk_create_jira_tickets`,
+      searchTickets: `${basePath}/tools/search_jira_tickets`,
+      getTicket: `${basePath}/tools/get_jira_ticket`,
+      transitionTicket: `${basePath}/tools/transition_jira_ticket`,
+      addComment: `${basePath}/tools/add_jira_comment`,
+      listComments: `${basePath}/tools/list_jira_comments`,
+      updateComment: `${basePath}/tools/update_jira_comment`,
+      deleteComment: `${basePath}/tools/delete_jira_comment`,
+      linkTickets: `${basePath}/tools/link_jira_tickets`,
+      unlinkTickets: `${basePath}/tools/unlink_jira_tickets`,
+      setParent: `${basePath}/tools/set_jira_parent`,
+      getTicketLinks: `${basePath}/tools/get_jira_ticket_links`,
+      attachFile: `${basePath}/tools/attach_jira_file`,
+      listAttachments: `${basePath}/tools/list_jira_attachments`,
+      downloadAttachment: `${basePath}/tools/download_jira_attachment`,
+      connectAccount: `${basePath}/tools/connect_jira_account`,
+      disconnectAccount: `${basePath}/tools/disconnect_jira_account`
     }
   });
 });
 
-// Start server (only for local development)
-if (process.env.NODE_ENV !== 'production') {
+// Start server (only for local development, and not for the MCP stdio server, which handles requests in-process)
+if (process.env.NODE_ENV !== 'production' && process.env.MCP_TRANSPORT !== 'stdio') {
   app.listen(PORT, () => {
     console.log(`Optimizely Internal Tools server running on port ${PORT}`);
   });
@@ -1,20 +1,158 @@
-import { markdownToADF, plainTextToADF } from './markdown-converter';
-import { mapFieldNameToId, formatFieldValue, requiresSpecialFormatting } from './field-mapper';
+import { markdownToADF, plainTextToADF, findMentionEmails, findAttachmentReferences } from './markdown-converter';
+import {
+  mapFieldNameToId,
+  formatFieldValue,
+  requiresSpecialFormatting,
+  registerFieldMetadata,
+  findDisallowedValues,
+  getUserFieldKind,
+  FieldMetadata
+} from './field-mapper';
+import { JiraError, JiraValidationError, JiraNotFoundError, createJiraApiError, isJiraApiError } from './jira-errors';
+import { getSetting, getTenantId } from './tenants';
+import {
+  getProjectKey,
+  getDefaultIssueType,
+  getCreateDefaults,
+  renderDescriptionTemplate,
+  describeAssigneeDefault
+} from './create-defaults';
+import { ASSIGNEE_UNASSIGNED, ASSIGNEE_COMPONENT_LEAD, ASSIGNEE_PROJECT_DEFAULT } from './create-defaults-file';
+import { getCallerCredentials } from './jira-oauth';
+
+export interface CommentVisibility {
+  type: 'role' | 'group';
+  value: string;
+}
+
+export interface CreatedIssue {
+  key: string;
+  summary: string;
+  description: string;
+  issueType: string;
+  assignee: string;
+  url: string;
+}
+
+export interface ProjectComponent {
+  id: string;
+  name: string;
+  lead?: { accountId: string; displayName?: string };
+}
+
+export interface AttachmentDownload {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  content: Buffer;
+}
+
+export type BulkCreateIssueResult =
+  | { success: true; issue: CreatedIssue }
+  | { success: false; error: Error }; // A JiraError when the cause is known
+
+export interface CreateFieldCheck {
+  projectKey: string;
+  issueType: string;
+  createScreen: FieldMetadata[]; // Fields on the create screen for the project and issue type
+  unsettableFields: string[]; // Supplied field names that are not on the create screen
+  missingRequiredFields: string[]; // Names of required create screen fields that were not supplied
+  invalidValues: Array<{ field: string; values: string[]; allowedValues: string[] }>;
+  settableData: Record<string, any>; // Issue data that can be sent when creating the issue
+  deferredData: Record<string, any>; // Issue data that can only be set by updating the issue afterwards
+}
+
+// Fields JIRA always accepts on create, whether or not createmeta lists them
+const ALWAYS_SETTABLE_FIELD_IDS = ['project', 'issuetype'];
+
+// JIRA accepts at most 50 issues per bulk create request
+const BULK_CREATE_CHUNK_SIZE = 50;
+
+// How long field metadata and createmeta are cached before being reloaded
+const FIELD_METADATA_TTL_MS = 10 * 60 * 1000;
+
+// How long resolved user account IDs are cached
+const USER_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// JIRA Cloud account IDs: legacy 24 character hex IDs, or "<prefix>:<uuid>"
+const ACCOUNT_ID_PATTERN = /^([0-9a-f]{24}|\d+:[0-9a-f-]{36})$/i;
+
+// Request timeout and retries for rate-limited, unavailable and failed requests
+// (JIRA_REQUEST_TIMEOUT_MS and JIRA_MAX_RETRIES override the defaults)
+const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+
+// Exponential backoff: the first retry waits about RETRY_BASE_DELAY_MS, doubling each time
+const RETRY_BASE_DELAY_MS = 500;
+
+// Longest wait before a retry; a longer Retry-After is returned to the caller instead
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+// Statuses worth retrying for reads and updates; creates are only retried on 429 and 503, since a
+// create that failed with another 5xx may still have gone through
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const UNPROCESSED_STATUSES = [429, 503];
+
+// Media file ID in the media API URL an attachment's content redirects to
+const MEDIA_FILE_URL_PATTERN = /\/file\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\//i;
+
+/**
+ * Finds the name a field was given under in issue data (e.g., "assigneeEmail" for assignee)
+ */
+function findFieldName(data: Record<string, any>, fieldId: string): string | undefined {
+  return Object.keys(data).find(fieldName => {
+    try {
+      return mapFieldNameToId(fieldName) === fieldId;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Reads a list of names given as an array or a comma separated string
+ */
+function toNameList(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => typeof item === 'string' ? item : item?.name ?? String(item));
+  }
+  return typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(item => item) : [];
+}
 
 class JiraClient {
   private config: {
     baseUrl: string;
     email: string;
     apiToken: string;
+    timeoutMs: number;
+    maxRetries: number;
   };
+  private rateLimitedUntil = 0;
+  private fieldMetadataLoadedAt = 0;
+  private createMetaCache = new Map<string, { loadedAt: number; fields: FieldMetadata[] }>();
+  private userCache = new Map<string, { loadedAt: number; accountId: string }>();
+  private componentCache = new Map<string, { loadedAt: number; components: ProjectComponent[] }>();
+  private attachmentMediaIds = new Map<string, string>();
 
   constructor() {
+    const maxRetries = getSetting('JIRA_MAX_RETRIES');
     this.config = {
-      baseUrl: process.env.JIRA_BASE_URL || 'https://optimizely-ext.atlassian.net',
-      email: process.env.JIRA_USER_EMAIL || 'alex.wald@optimizely.com',
-      apiToken: process.env.JIRA_API_TOKEN || ''
+      baseUrl: getSetting('JIRA_BASE_URL') || '',
+      email: getSetting('JIRA_USER_EMAIL') || '',
+      apiToken: getSetting('JIRA_API_TOKEN') || '',
+      timeoutMs: Number(getSetting('JIRA_REQUEST_TIMEOUT_MS')) || DEFAULT_REQUEST_TIMEOUT_MS,
+      maxRetries: maxRetries !== undefined && maxRetries !== ''
+        ? Math.max(0, Math.floor(Number(maxRetries)) || 0)
+        : DEFAULT_MAX_RETRIES
     };
 
+    if (!this.config.baseUrl) {
+      throw new Error('JIRA_BASE_URL environment variable is required');
+    }
+    if (!this.config.email) {
+      throw new Error('JIRA_USER_EMAIL environment variable is required');
+    }
     if (!this.config.apiToken) {
       throw new Error('JIRA_API_TOKEN environment variable is required');
     }
@@ -25,26 +163,474 @@ class JiraClient {
     return `Basic ${credentials}`;
   }
 
-  private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
-    const url = `${this.config.baseUrl}/rest/api/3${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': this.getAuthHeader(),
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options.headers
+  /**
+   * Gets the API base URL and Authorization header for a request: the calling user's OAuth grant
+   * when they have one (see jira-oauth), otherwise the service account
+   */
+  private async getCredentials(): Promise<{ apiUrl: string; authorization: string }> {
+    const oauth = await getCallerCredentials();
+    if (oauth) {
+      return oauth;
+    }
+    return { apiUrl: `${this.config.baseUrl}/rest/api/3`, authorization: this.getAuthHeader() };
+  }
+
+  /**
+   * Sends a request to the JIRA REST API, returning the response whatever its status
+   * Rate-limited (429), unavailable (5xx) and failed requests are retried with exponential backoff
+   * and jitter, honouring Retry-After and JIRA's X-RateLimit-* headers. Each attempt times out
+   * after JIRA_REQUEST_TIMEOUT_MS. Multipart (FormData) bodies are sent with the header JIRA
+   * requires for uploads. Requests are sent as the calling user when they have authorized OAuth
+   * @throws JiraUnavailableError (code JIRA_UNREACHABLE) if no response was received after the last attempt
+   */
+  private async sendRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    const credentials = await this.getCredentials();
+    const url = `${credentials.apiUrl}${endpoint}`;
+    const method = (options.method || 'GET').toUpperCase();
+    const multipart = options.body instanceof FormData;
+    // Searches are POSTs that change nothing, so they are retried like reads
+    const repeatable = method !== 'POST' || endpoint.startsWith('/search');
+    const retryableStatuses = repeatable ? RETRYABLE_STATUSES : UNPROCESSED_STATUSES;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit();
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          signal: controller.signal,
+          headers: {
+            'Authorization': credentials.authorization,
+            // fetch sets the multipart Content-Type (with its boundary) itself
+            ...(multipart ? { 'X-Atlassian-Token': 'no-check' } : { 'Content-Type': 'application/json' }),
+            'Accept': 'application/json',
+            ...options.headers
+          }
+        });
+      } catch (error) {
+        const failure = controller.signal.aborted
+          ? `request timed out after ${this.config.timeoutMs}ms`
+          : `request failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+        // Without a response, only requests that are safe to repeat are retried
+        if (repeatable && attempt < this.config.maxRetries) {
+          const delay = this.getRetryDelay(attempt);
+          console.warn(`JIRA ${method} ${endpoint} ${failure}, retrying in ${delay}ms (retry ${attempt + 1} of ${this.config.maxRetries})`);
+          await sleep(delay);
+          continue;
+        }
+        throw createJiraApiError(0, failure, { method, endpoint });
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      this.trackRateLimit(response);
+      if (!retryableStatuses.includes(response.status) || attempt >= this.config.maxRetries) {
+        return response;
+      }
+      const delay = this.getRetryDelay(attempt, response);
+      if (delay > RETRY_MAX_DELAY_MS) {
+        return response;
+      }
+
+      console.warn(`JIRA ${method} ${endpoint} responded with ${response.status}, retrying in ${delay}ms (retry ${attempt + 1} of ${this.config.maxRetries})`);
+      await response.arrayBuffer().catch(() => undefined);
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Works out how long to wait before retrying: JIRA's Retry-After or X-RateLimit-Reset when given,
+   * otherwise exponential backoff with jitter
+   */
+  private getRetryDelay(attempt: number, response?: Response): number {
+    const requested = response ? getRequestedWaitMs(response) : undefined;
+    if (requested !== undefined) {
+      // A little jitter so parallel requests do not all retry at the same moment
+      return Math.ceil(requested + Math.random() * RETRY_BASE_DELAY_MS);
+    }
+    const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return Math.ceil(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  /**
+   * Records when JIRA's rate limit resets, so further requests wait instead of being rejected
+   */
+  private trackRateLimit(response: Response): void {
+    if (response.headers.get('x-ratelimit-nearlimit') === 'true') {
+      console.warn(`JIRA rate limit nearly reached (${response.headers.get('x-ratelimit-remaining') ?? '?'} requests remaining)`);
+    }
+    if (response.status === 429 || response.headers.get('x-ratelimit-remaining') === '0') {
+      const wait = getRequestedWaitMs(response);
+      if (wait !== undefined) {
+        this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + wait);
       }
+    }
+  }
+
+  /**
+   * Waits until a known rate limit has reset (at most RETRY_MAX_DELAY_MS)
+   */
+  private async waitForRateLimit(): Promise<void> {
+    const wait = this.rateLimitedUntil - Date.now();
+    if (wait > 0) {
+      await sleep(Math.min(wait, RETRY_MAX_DELAY_MS));
+    }
+  }
+
+  /**
+   * Builds the error for an unsuccessful response
+   */
+  private async toApiError(response: Response, endpoint: string, options: RequestInit = {}): Promise<JiraError> {
+    return createJiraApiError(response.status, await response.text(), {
+      method: (options.method || 'GET').toUpperCase(),
+      endpoint,
+      requestId: response.headers.get('x-arequestid') || undefined,
+      retryAfterMs: response.status === 429 ? getRequestedWaitMs(response) : undefined
     });
+  }
+
+  private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
+    const response = await this.sendRequest(endpoint, options);
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`JIRA API Error (${response.status}): ${errorText}`);
+      throw await this.toApiError(response, endpoint, options);
+    }
+
+    // Transitions, updates and deletes respond with 204 No Content
+    if (response.status === 204) {
+      return null;
     }
 
     return response.json();
   }
 
+  /**
+   * Load the instance's field list and register it with the field mapper
+   * Cached for FIELD_METADATA_TTL_MS unless force is set
+   */
+  async loadFieldMetadata(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.fieldMetadataLoadedAt < FIELD_METADATA_TTL_MS) {
+      return;
+    }
+
+    const fields = await this.makeRequest('/field');
+    registerFieldMetadata((fields || []).map((field: any) => ({
+      id: field.id,
+      name: field.name,
+      schema: field.schema
+    })));
+    this.fieldMetadataLoadedAt = Date.now();
+  }
+
+  /**
+   * Load field metadata if possible; values are passed through untyped when it cannot be loaded
+   */
+  async ensureFieldMetadata(): Promise<void> {
+    try {
+      await this.loadFieldMetadata();
+    } catch (error) {
+      console.warn('Could not load JIRA field metadata, field values will not be coerced by type:', error);
+    }
+  }
+
+  /**
+   * Get the fields on the create screen for a project and issue type
+   * @param projectKey - JIRA project key (e.g., "DHK")
+   * @param issueTypeName - Issue type name (e.g., "Story"), matched case-insensitively
+   * @returns Fields with their schema, required flag and allowed values
+   */
+  async getCreateMeta(projectKey: string, issueTypeName: string): Promise<FieldMetadata[]> {
+    const cacheKey = `${projectKey}/${issueTypeName.toLowerCase()}`;
+    const cached = this.createMetaCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < FIELD_METADATA_TTL_MS) {
+      return cached.fields;
+    }
+
+    const issueTypesPage = await this.makeRequest(`/issue/createmeta/${projectKey}/issuetypes?maxResults=200`);
+    const issueTypes: Array<{ id: string; name: string }> = issueTypesPage.issueTypes || issueTypesPage.values || [];
+    const issueType = issueTypes.find(type => type.name.toLowerCase() === issueTypeName.toLowerCase());
+    if (!issueType) {
+      throw new JiraNotFoundError(`Issue type "${issueTypeName}" is not available in project ${projectKey}. Available issue types: ${issueTypes.map(type => type.name).join(', ')}`);
+    }
+
+    const fieldsPage = await this.makeRequest(`/issue/createmeta/${projectKey}/issuetypes/${issueType.id}?maxResults=200`);
+    const fields: FieldMetadata[] = (fieldsPage.fields || fieldsPage.values || fieldsPage.results || []).map((field: any) => ({
+      id: field.fieldId || field.key,
+      name: field.name,
+      schema: field.schema,
+      allowedValues: field.allowedValues,
+      required: field.required && !field.hasDefaultValue
+    }));
+
+    this.createMetaCache.set(cacheKey, { loadedAt: Date.now(), fields });
+    return fields;
+  }
+
+  /**
+   * Resolve a user given by email address, display name or account ID to an account ID
+   * "me" resolves to the user requests act as: the calling user when they have authorized OAuth, otherwise
+   * the user the API token belongs to. Results are cached for USER_CACHE_TTL_MS
+   * @param query - Email address, display name, account ID or "me"
+   * @throws If no active user matches, or if several do
+   */
+  async resolveUser(query: string): Promise<string> {
+    const trimmed = query.trim();
+    if (ACCOUNT_ID_PATTERN.test(trimmed)) {
+      return trimmed;
+    }
+
+    const cacheKey = trimmed.toLowerCase();
+    if (cacheKey === 'me' || cacheKey === 'currentuser()') {
+      // The calling user's account is known from their grant; only the service account's is cached
+      const oauth = await getCallerCredentials();
+      if (oauth) {
+        return oauth.accountId;
+      }
+    }
+    const cachedAccountId = this.getCachedAccountId(cacheKey);
+    if (cachedAccountId) {
+      return cachedAccountId;
+    }
+
+    let accountId: string;
+    if (cacheKey === 'me' || cacheKey === 'currentuser()') {
+      const myself = await this.makeRequest('/myself');
+      accountId = myself.accountId;
+    } else {
+      const users: any[] = await this.makeRequest(`/user/search?query=${encodeURIComponent(trimmed)}&maxResults=20`) || [];
+      accountId = this.pickUser(trimmed, users.filter(user => user.active !== false && user.accountType !== 'app'));
+    }
+
+    this.userCache.set(cacheKey, { loadedAt: Date.now(), accountId });
+    return accountId;
+  }
+
+  /**
+   * Gets a cached account ID for a user query, without looking the user up
+   */
+  private getCachedAccountId(query: string): string | undefined {
+    const cached = this.userCache.get(query.trim().toLowerCase());
+    return cached && Date.now() - cached.loadedAt < USER_CACHE_TTL_MS ? cached.accountId : undefined;
+  }
+
+  /**
+   * Looks up the users in @email mentions so convertMarkdown can turn them into mention nodes
+   * Mentions that cannot be resolved are left as text
+   */
+  private async resolveMentions(markdown: string): Promise<void> {
+    for (const email of findMentionEmails(markdown)) {
+      try {
+        await this.resolveUser(email);
+      } catch (error) {
+        console.warn(`Could not resolve mention @${email}, leaving it as text:`, error);
+      }
+    }
+  }
+
+  /**
+   * Picks the user a query refers to from user search results
+   * An exact email or display name match wins; otherwise the search must return a single user
+   * (JIRA hides most email addresses, but still matches them when searching)
+   */
+  private pickUser(query: string, users: any[]): string {
+    const lowerQuery = query.toLowerCase();
+    const exactMatches = users.filter(user =>
+      (user.emailAddress && user.emailAddress.toLowerCase() === lowerQuery) ||
+      (user.displayName && user.displayName.toLowerCase() === lowerQuery)
+    );
+    const candidates = exactMatches.length > 0 ? exactMatches : users;
+
+    if (candidates.length === 1) {
+      return candidates[0].accountId;
+    }
+    if (candidates.length === 0) {
+      throw new JiraValidationError(`Invalid user: no active JIRA user matches "${query}"`);
+    }
+    const listed = candidates
+      .slice(0, 10)
+      .map(user => `${user.displayName}${user.emailAddress ? ` <${user.emailAddress}>` : ''} (${user.accountId})`)
+      .join(', ');
+    throw new JiraValidationError(`Invalid user: "${query}" matches ${candidates.length} JIRA users: ${listed}. Use an email address or account ID to choose one`);
+  }
+
+  /**
+   * Resolves a single user field value to { accountId }
+   * Account ID objects and empty values (which clear the field) are returned unchanged
+   */
+  private async resolveUserValue(value: any): Promise<any> {
+    if (typeof value === 'string' && value.trim()) {
+      return { accountId: await this.resolveUser(value) };
+    }
+    if (value && typeof value === 'object' && !value.accountId && (value.emailAddress || value.displayName)) {
+      return { accountId: await this.resolveUser(value.emailAddress || value.displayName) };
+    }
+    return value;
+  }
+
+  /**
+   * Resolves the users in assignee, reporter and user picker fields to account IDs,
+   * and takes out watchers, which are added through the watchers API instead
+   * Also looks up @email mentions in rich text fields
+   * @param fields - Object with field names/IDs and values
+   * @returns Fields ready for buildFieldsPayload, and the account IDs of any watchers
+   */
+  private async resolveUserFields(fields: Record<string, any>): Promise<{
+    fields: Record<string, any>;
+    watchers: string[];
+  }> {
+    const resolved: Record<string, any> = {};
+    const watchers: string[] = [];
+
+    for (const [fieldName, value] of Object.entries(fields)) {
+      const userFieldKind = value === null || value === undefined ? undefined : getUserFieldKind(mapFieldNameToId(fieldName));
+      if (!userFieldKind) {
+        if (typeof value === 'string' && requiresSpecialFormatting(mapFieldNameToId(fieldName))) {
+          await this.resolveMentions(value);
+        }
+        resolved[fieldName] = value;
+        continue;
+      }
+
+      try {
+        if (userFieldKind === 'single') {
+          resolved[fieldName] = await this.resolveUserValue(value);
+          continue;
+        }
+
+        const items = Array.isArray(value)
+          ? value
+          : typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(item => item) : [value];
+        const users = await Promise.all(items.map(item => this.resolveUserValue(item)));
+        if (mapFieldNameToId(fieldName) === 'watches') {
+          watchers.push(...users.filter(user => user && user.accountId).map(user => user.accountId));
+        } else {
+          resolved[fieldName] = users;
+        }
+      } catch (error) {
+        // Report which field the unknown or ambiguous user was given in
+        if (error instanceof JiraValidationError) {
+          error.fieldErrors[fieldName] = error.message;
+        }
+        throw error;
+      }
+    }
+
+    return { fields: resolved, watchers };
+  }
+
+  /**
+   * Add watchers to an issue
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param accountIds - Account IDs of the users to add
+   */
+  async addWatchers(issueKey: string, accountIds: string[]): Promise<void> {
+    for (const accountId of accountIds) {
+      await this.makeRequest(`/issue/${issueKey}/watchers`, {
+        method: 'POST',
+        body: JSON.stringify(accountId)
+      });
+    }
+  }
+
+  /**
+   * Replaces attachment image references given by attachment ID or file name with the
+   * attachment's media file ID, so the image can be embedded (see findAttachmentReferences)
+   * File names can only be resolved on an existing issue; references that cannot be resolved are left as text
+   * @param markdown - Markdown text
+   * @param issueKey - Issue the attachments belong to, if it exists yet
+   */
+  private async resolveAttachmentImages(markdown: string, issueKey?: string): Promise<string> {
+    const references = findAttachmentReferences(markdown);
+    if (references.length === 0) {
+      return markdown;
+    }
+
+    const attachments = issueKey ? await this.getAttachments(issueKey) : [];
+    let resolved = markdown;
+    for (const reference of references) {
+      const attachment = attachments.find(item => String(item.id) === reference) ||
+        attachments.find(item => item.filename === reference);
+      const attachmentId = attachment ? String(attachment.id) : /^\d+$/.test(reference) ? reference : null;
+      if (!attachmentId) {
+        console.warn(`Could not find attachment "${reference}"${issueKey ? ` on ${issueKey}` : ''}, leaving the image reference as text`);
+        continue;
+      }
+      try {
+        const mediaId = await this.getAttachmentMediaId(attachmentId);
+        resolved = resolved.split(`attachment:${reference}`).join(`attachment:${mediaId}`);
+      } catch (error) {
+        console.warn(`Could not embed attachment "${reference}", leaving the image reference as text:`, error);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolves attachment image references in rich text fields (see resolveAttachmentImages)
+   */
+  private async resolveImageFields(fields: Record<string, any>, issueKey?: string): Promise<Record<string, any>> {
+    const resolved: Record<string, any> = { ...fields };
+    for (const [fieldName, value] of Object.entries(fields)) {
+      if (typeof value === 'string' && requiresSpecialFormatting(mapFieldNameToId(fieldName))) {
+        resolved[fieldName] = await this.resolveAttachmentImages(value, issueKey);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Converts markdown to ADF, falling back to a plain text document if conversion fails
+   */
+  private convertMarkdown(markdown: string): any {
+    try {
+      return markdownToADF(markdown, { mentionAccountId: email => this.getCachedAccountId(email) });
+    } catch (error) {
+      console.warn('Markdown conversion failed, using plain text:', error);
+      return plainTextToADF(markdown);
+    }
+  }
+
+  /**
+   * Maps friendly field names to JIRA field IDs and formats their values
+   * @param fields - Object with field names/IDs and values
+   * @returns JIRA fields payload and the names of the fields that were included
+   */
+  private buildFieldsPayload(fields: Record<string, any>): {
+    fields: Record<string, any>;
+    fieldNames: string[];
+  } {
+    const payload: Record<string, any> = {};
+    const fieldNames: string[] = [];
+
+    for (const [fieldName, value] of Object.entries(fields)) {
+      // Skip null/undefined values
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      // Map field name to JIRA field ID
+      const fieldId = mapFieldNameToId(fieldName);
+      if (fieldId === 'watches') {
+        // Watchers are not an issue field (see resolveUserFields and addWatchers)
+        continue;
+      }
+      fieldNames.push(fieldName);
+
+      // Handle description specially (convert markdown to ADF)
+      if (requiresSpecialFormatting(fieldId) && typeof value === 'string') {
+        payload[fieldId] = this.convertMarkdown(value);
+      } else {
+        // Format the field value appropriately
+        payload[fieldId] = formatFieldValue(fieldId, value);
+      }
+    }
+
+    return { fields: payload, fieldNames };
+  }
+
   async healthCheck(): Promise<{
     status: string;
     project?: string;
@@ -55,7 +641,7 @@ class JiraClient {
       await this.makeRequest('/myself');
       
       // Test project access
-      const project = await this.makeRequest(`/project/${process.env.JIRA_PROJECT_KEY || 'DHK'}`);
+      const project = await this.makeRequest(`/project/${getProjectKey()}`);
       
       return {
         status: 'connected',
@@ -69,88 +655,684 @@ class JiraClient {
     }
   }
 
-  async createIssue(issueData: Record<string, any>): Promise<{
-    key: string;
-    summary: string;
-    description: string;
-    issueType: string;
-    assignee: string;
-    url: string;
-  }> {
-    const projectKey = process.env.JIRA_PROJECT_KEY || 'DHK';
-    
-    // Build fields object using field mapper
-    const fields: Record<string, any> = {
-      project: {
-        key: projectKey
+  /**
+   * Pre-flight check of issue data against the create screen for its project and issue type
+   * Reports supplied fields that are not on the screen, required fields that are missing and
+   * option values that are not allowed, and splits the data into settable and deferred parts
+   * @param issueData - Issue fields, as accepted by createIssue
+   * @returns The check, or null if createmeta could not be loaded (the create is then not pre-checked)
+   */
+  async checkCreateFields(issueData: Record<string, any>): Promise<CreateFieldCheck | null> {
+    await this.ensureFieldMetadata();
+
+    const projectKey = getProjectKey();
+    const issueType = issueData.issueType || getDefaultIssueType();
+    let createScreen: FieldMetadata[];
+    try {
+      createScreen = await this.getCreateMeta(projectKey, issueType);
+    } catch (error) {
+      // An unknown project or issue type is worth reporting; anything else should not block the create
+      if (error instanceof JiraNotFoundError) {
+        throw error;
       }
+      console.warn('Could not load JIRA createmeta, creating without pre-flight validation:', error);
+      return null;
+    }
+    if (createScreen.length === 0) {
+      return null;
+    }
+
+    const screenFields = new Map(createScreen.map(field => [field.id, field]));
+    const payload = this.buildCreateFields(await this.applyCreateDefaults(issueData, createScreen));
+    const check: CreateFieldCheck = {
+      projectKey,
+      issueType,
+      createScreen,
+      unsettableFields: [],
+      missingRequiredFields: [],
+      invalidValues: [],
+      settableData: {},
+      deferredData: {}
     };
 
-    // Process all fields using the field mapper
     for (const [fieldName, value] of Object.entries(issueData)) {
-      // Skip null/undefined values
       if (value === null || value === undefined) {
         continue;
       }
 
-      // Map field name to JIRA field ID
       const fieldId = mapFieldNameToId(fieldName);
+      const screenField = screenFields.get(fieldId);
+      if (!screenField && !ALWAYS_SETTABLE_FIELD_IDS.includes(fieldId) && fieldId !== 'watches') {
+        check.unsettableFields.push(fieldName);
+        check.deferredData[fieldName] = value;
+        continue;
+      }
 
-      // Handle description specially (convert markdown to ADF)
-      if (requiresSpecialFormatting(fieldId) && typeof value === 'string') {
+      check.settableData[fieldName] = value;
+      const disallowed = screenField ? findDisallowedValues(screenField, payload[fieldId]) : [];
+      if (disallowed.length > 0) {
+        check.invalidValues.push({
+          field: fieldName,
+          values: disallowed,
+          allowedValues: screenField!.allowedValues!.map(allowed => String(allowed.value ?? allowed.name ?? allowed.id))
+        });
+      }
+    }
+
+    for (const field of createScreen) {
+      if (field.required && !ALWAYS_SETTABLE_FIELD_IDS.includes(field.id) && payload[field.id] === undefined) {
+        check.missingRequiredFields.push(field.name || field.id);
+      }
+    }
+
+    return check;
+  }
+
+  /**
+   * Create an issue
+   * @param issueData - Issue fields keyed by friendly name or field ID
+   * @param createScreen - Create screen fields from checkCreateFields; default fields not on it are left out
+   */
+  async createIssue(issueData: Record<string, any>, createScreen?: FieldMetadata[]): Promise<CreatedIssue> {
+    await this.ensureFieldMetadata();
+    const dataWithDefaults = await this.applyCreateDefaults(issueData, createScreen);
+    const { fields: resolvedData, watchers } = await this.resolveUserFields(await this.resolveImageFields(dataWithDefaults));
+
+    // Create the issue with all fields
+    const issuePayload = {
+      fields: this.buildCreateFields(resolvedData, createScreen)
+    };
+
+    const createdIssue = await this.makeRequest('/issue', {
+      method: 'POST',
+      body: JSON.stringify(issuePayload)
+    });
+
+    await this.addWatchersAfterCreate(createdIssue.key, watchers);
+    return this.toCreatedIssue(createdIssue.key, dataWithDefaults);
+  }
+
+  /**
+   * Create several issues using JIRA's bulk create API, in chunks of up to 50 issues
+   * Issues that fail are reported individually instead of failing the whole batch
+   * @param issueDataList - Issue fields for each issue, as accepted by createIssue
+   * @returns One result per issue, in the same order as issueDataList
+   */
+  async createIssues(issueDataList: Array<Record<string, any>>): Promise<BulkCreateIssueResult[]> {
+    const results: BulkCreateIssueResult[] = [];
+    await this.ensureFieldMetadata();
+
+    for (let chunkStart = 0; chunkStart < issueDataList.length; chunkStart += BULK_CREATE_CHUNK_SIZE) {
+      const chunk = issueDataList.slice(chunkStart, chunkStart + BULK_CREATE_CHUNK_SIZE);
+      const chunkResults: BulkCreateIssueResult[] = new Array(chunk.length);
+
+      // Items that cannot be built (e.g., missing summary or unknown user) never reach JIRA
+      const issueUpdates: Array<{ fields: Record<string, any> }> = [];
+      const submittedIndexes: number[] = [];
+      const watchersByIndex = new Map<number, string[]>();
+      const dataWithDefaults: Array<Record<string, any>> = [];
+      for (const [index, issueData] of chunk.entries()) {
         try {
-          fields[fieldId] = markdownToADF(value);
+          dataWithDefaults[index] = await this.applyCreateDefaults(issueData);
+          const { fields: resolvedData, watchers } = await this.resolveUserFields(dataWithDefaults[index]);
+          issueUpdates.push({ fields: this.buildCreateFields(resolvedData) });
+          submittedIndexes.push(index);
+          watchersByIndex.set(index, watchers);
         } catch (error) {
-          console.warn('Markdown conversion failed for description, using plain text:', error);
-          fields[fieldId] = plainTextToADF(value);
+          chunkResults[index] = { success: false, error: error instanceof Error ? error : new Error('Unknown error') };
         }
-      } else {
-        // Format the field value appropriately
-        fields[fieldId] = formatFieldValue(fieldId, value);
       }
+
+      if (issueUpdates.length > 0) {
+        let response: { issues?: Array<{ key: string }>; errors?: any[] };
+        try {
+          response = await this.makeRequest('/issue/bulk', {
+            method: 'POST',
+            body: JSON.stringify({ issueUpdates })
+          });
+        } catch (error) {
+          // JIRA responds with 400 and the per-issue errors when every issue in the request fails
+          const failure = error instanceof Error ? error : new Error('Unknown error');
+          try {
+            response = { issues: [], ...(isJiraApiError(error, 400) ? JSON.parse(error.body) : {}) };
+          } catch {
+            response = {};
+          }
+          if (!Array.isArray(response.errors) || response.errors.length === 0) {
+            submittedIndexes.forEach(index => {
+              chunkResults[index] = { success: false, error: failure };
+            });
+            results.push(...chunkResults);
+            continue;
+          }
+        }
+
+        // failedElementNumber refers to the position within issueUpdates
+        const failures = new Map<number, JiraError>();
+        for (const failure of response.errors || []) {
+          failures.set(failure.failedElementNumber, createJiraApiError(failure.status, JSON.stringify(failure.elementErrors || {}), {
+            method: 'POST',
+            endpoint: '/issue/bulk'
+          }));
+        }
+
+        const createdIssues = [...(response.issues || [])];
+        submittedIndexes.forEach((index, position) => {
+          const failure = failures.get(position);
+          if (failure) {
+            chunkResults[index] = { success: false, error: failure };
+          } else {
+            const created = createdIssues.shift();
+            chunkResults[index] = created
+              ? { success: true, issue: this.toCreatedIssue(created.key, dataWithDefaults[index]) }
+              : { success: false, error: new Error('JIRA did not report a result for this issue') };
+          }
+        });
+
+        for (const [index, result] of chunkResults.entries()) {
+          if (result && result.success) {
+            await this.addWatchersAfterCreate(result.issue.key, watchersByIndex.get(index) || []);
+          }
+        }
+      }
+
+      results.push(...chunkResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Adds watchers to a newly created issue
+   * Failures are logged rather than thrown, since the issue already exists
+   */
+  private async addWatchersAfterCreate(issueKey: string, accountIds: string[]): Promise<void> {
+    try {
+      await this.addWatchers(issueKey, accountIds);
+    } catch (error) {
+      console.warn(`Created ${issueKey} but could not add watchers:`, error);
+    }
+  }
+
+  /**
+   * Fills in the ticket defaults for the issue's project and issue type (see create-defaults)
+   * Given fields are kept, except labels, which default labels are added to
+   * When the create screen is known, defaults for fields that are not on it are left out
+   * @returns A copy of issueData with the defaults added
+   */
+  private async applyCreateDefaults(issueData: Record<string, any>, createScreen?: FieldMetadata[]): Promise<Record<string, any>> {
+    const projectKey = getProjectKey();
+    const data = { ...issueData };
+    const issueTypeField = findFieldName(data, 'issuetype');
+    const issueType = issueTypeField && typeof data[issueTypeField] === 'string' ? data[issueTypeField] : getDefaultIssueType();
+    const defaults = getCreateDefaults(projectKey, issueType);
+    const onCreateScreen = (fieldId: string) => !createScreen || createScreen.some(field => field.id === fieldId);
+    const isGiven = (fieldId: string) => {
+      const fieldName = findFieldName(data, fieldId);
+      return fieldName !== undefined && data[fieldName] !== null && data[fieldName] !== '';
+    };
+
+    if (defaults.priority && !isGiven('priority') && onCreateScreen('priority')) {
+      data.priority = defaults.priority;
+    }
+    if (defaults.components && defaults.components.length > 0 && !isGiven('components') && onCreateScreen('components')) {
+      data.components = defaults.components;
+    }
+    if (defaults.labels && defaults.labels.length > 0 && onCreateScreen('labels')) {
+      const labelsField = findFieldName(data, 'labels') || 'labels';
+      const labels = toNameList(data[labelsField]);
+      data[labelsField] = [...labels, ...defaults.labels.filter(label => !labels.includes(label))];
+    }
+    // A template without {{description}} is only used for tickets created without a description
+    const descriptionField = findFieldName(data, 'description') || 'description';
+    const description = data[descriptionField] ?? '';
+    const template = defaults.descriptionTemplate;
+    if (template && onCreateScreen('description') && typeof description === 'string'
+        && (!description || /\{\{\s*description\s*\}\}/.test(template))) {
+      const summaryField = findFieldName(data, 'summary');
+      data[descriptionField] = renderDescriptionTemplate(template, {
+        description,
+        summary: summaryField ? String(data[summaryField]) : '',
+        issueType,
+        projectKey
+      });
+    }
+
+    const assignee = defaults.assignee;
+    if (assignee && !isGiven('assignee') && onCreateScreen('assignee')) {
+      if (assignee.toLowerCase() === ASSIGNEE_COMPONENT_LEAD) {
+        const componentsField = findFieldName(data, 'components');
+        const lead = await this.findComponentLead(projectKey, componentsField ? toNameList(data[componentsField]) : []);
+        if (lead) {
+          data.assignee = lead;
+        }
+      } else if (assignee.toLowerCase() !== ASSIGNEE_UNASSIGNED && assignee.toLowerCase() !== ASSIGNEE_PROJECT_DEFAULT) {
+        data.assignee = assignee;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Gets a project's components with their leads, cached for FIELD_METADATA_TTL_MS
+   * @param projectKey - JIRA project key (e.g., "DHK")
+   */
+  async getProjectComponents(projectKey: string): Promise<ProjectComponent[]> {
+    const cached = this.componentCache.get(projectKey);
+    if (cached && Date.now() - cached.loadedAt < FIELD_METADATA_TTL_MS) {
+      return cached.components;
+    }
+
+    const response = await this.makeRequest(`/project/${projectKey}/components`);
+    const components: ProjectComponent[] = (Array.isArray(response) ? response : []).map((component: any) => ({
+      id: component.id,
+      name: component.name,
+      lead: component.lead && component.lead.accountId
+        ? { accountId: component.lead.accountId, displayName: component.lead.displayName }
+        : undefined
+    }));
+    this.componentCache.set(projectKey, { loadedAt: Date.now(), components });
+    return components;
+  }
+
+  /**
+   * Finds the lead of the first of an issue's components that has one
+   * @returns The lead, or undefined if no component has a lead (JIRA's default assignee then applies)
+   */
+  private async findComponentLead(projectKey: string, componentNames: string[]): Promise<{ accountId: string; displayName?: string } | undefined> {
+    if (componentNames.length === 0) {
+      return undefined;
+    }
+    const components = await this.getProjectComponents(projectKey);
+    for (const name of componentNames) {
+      const component = components.find(candidate => candidate.name.toLowerCase() === name.toLowerCase() || candidate.id === name);
+      if (component && component.lead) {
+        return component.lead;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Builds the create payload fields for an issue, filling in the project and default issue type
+   * When the default assignee is "unassigned", the issue is explicitly created without one
+   */
+  private buildCreateFields(issueData: Record<string, any>, createScreen?: FieldMetadata[]): Record<string, any> {
+    const projectKey = getProjectKey();
+    
+    // Build fields object using field mapper
+    const fields: Record<string, any> = {
+      project: {
+        key: projectKey
+      }
+    };
+
+    // Process all fields using the field mapper
+    const payload = this.buildFieldsPayload(issueData).fields;
+    if (payload.project !== undefined) {
+      const message = `Tickets are created in the ${projectKey} project, so project cannot be set`;
+      throw new JiraValidationError(`Invalid field: ${message}`, { project: message });
     }
+    Object.assign(fields, payload);
 
     // Ensure required fields have defaults
     if (!fields.summary) {
-      throw new Error('Summary is required');
+      throw new JiraValidationError('Summary is required', { summary: 'Summary is required' });
     }
     if (!fields.issuetype) {
-      const defaultIssueType = process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Story';
-      fields.issuetype = { name: defaultIssueType };
+      fields.issuetype = { name: getDefaultIssueType() };
     }
-    if (!fields.assignee) {
-      fields.assignee = { emailAddress: 'alex.wald@optimizely.com' };
+    const onCreateScreen = (fieldId: string) => !createScreen || createScreen.some(field => field.id === fieldId);
+    const defaultAssignee = getCreateDefaults(projectKey, fields.issuetype.name || getDefaultIssueType()).assignee;
+    if (fields.assignee === undefined && onCreateScreen('assignee') && defaultAssignee?.toLowerCase() === ASSIGNEE_UNASSIGNED) {
+      fields.assignee = null;
     }
-    if (!fields.description) {
-      fields.description = plainTextToADF('Created via Optimizely Internal Tools');
+
+    return fields;
+  }
+
+  /**
+   * Describes a newly created issue from the data it was created with
+   */
+  private toCreatedIssue(issueKey: string, issueData: Record<string, any>): CreatedIssue {
+    const issueType = issueData.issueType || getDefaultIssueType();
+    const assigneeField = findFieldName(issueData, 'assignee');
+    const assignee = assigneeField ? issueData[assigneeField] : undefined;
+    return {
+      key: issueKey,
+      summary: issueData.summary || '',
+      description: issueData.description || '',
+      issueType,
+      assignee: typeof assignee === 'string' && assignee
+        ? assignee
+        : assignee?.displayName || assignee?.emailAddress || assignee?.accountId
+          || describeAssigneeDefault(getCreateDefaults(getProjectKey(), issueType).assignee || ASSIGNEE_PROJECT_DEFAULT),
+      url: this.getIssueUrl(issueKey)
+    };
+  }
+
+  /**
+   * Get issue details by key
+   * @param fields - Field IDs to return (all fields when omitted)
+   */
+  async getIssue(issueKey: string, fields?: string[]): Promise<any> {
+    const query = fields && fields.length > 0 ? `?fields=${encodeURIComponent(fields.join(','))}` : '';
+    return this.makeRequest(`/issue/${issueKey}${query}`);
+  }
+
+  /**
+   * Get the workflow transitions available for an issue from its current status
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @returns Transitions including their target status and transition screen fields
+   */
+  async getTransitions(issueKey: string): Promise<Array<{
+    id: string;
+    name: string;
+    to: { id: string; name: string; statusCategory?: { name: string } };
+    fields?: Record<string, { required: boolean; hasDefaultValue?: boolean; name: string; allowedValues?: any[] }>;
+  }>> {
+    const result = await this.makeRequest(`/issue/${issueKey}/transitions?expand=transitions.fields`);
+    return result.transitions || [];
+  }
+
+  /**
+   * Move an issue through a workflow transition
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param transitionId - ID of the transition to perform
+   * @param fields - Transition screen fields (friendly names or IDs), including resolution
+   */
+  async transitionIssue(issueKey: string, transitionId: string, fields: Record<string, any> = {}): Promise<{
+    key: string;
+    url: string;
+    updatedFields: string[];
+  }> {
+    await this.ensureFieldMetadata();
+    const { fields: resolvedFields, watchers } = await this.resolveUserFields(fields);
+    const { fields: transitionFields, fieldNames } = this.buildFieldsPayload(resolvedFields);
+
+    await this.makeRequest(`/issue/${issueKey}/transitions`, {
+      method: 'POST',
+      body: JSON.stringify({
+        transition: { id: transitionId },
+        ...(fieldNames.length > 0 ? { fields: transitionFields } : {})
+      })
+    });
+
+    if (watchers.length > 0) {
+      await this.addWatchers(issueKey, watchers);
+      fieldNames.push('watchers');
     }
-    
-    // Create the issue with all fields
-    const issuePayload = {
-      fields
+
+    return {
+      key: issueKey,
+      url: this.getIssueUrl(issueKey),
+      updatedFields: fieldNames
     };
+  }
 
-    const createdIssue = await this.makeRequest('/issue', {
+  /**
+   * Add a comment to an issue
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param markdown - Comment body in markdown (converted to ADF)
+   * @param visibility - Optional restriction to a project role or group
+   */
+  async addComment(issueKey: string, markdown: string, visibility?: CommentVisibility): Promise<any> {
+    await this.resolveMentions(markdown);
+    const body = this.convertMarkdown(await this.resolveAttachmentImages(markdown, issueKey));
+    return this.makeRequest(`/issue/${issueKey}/comment`, {
       method: 'POST',
-      body: JSON.stringify(issuePayload)
+      body: JSON.stringify({
+        body,
+        ...(visibility ? { visibility } : {})
+      })
+    });
+  }
+
+  /**
+   * Get comments on an issue, newest first
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param maxResults - Maximum number of comments to return
+   */
+  async getComments(issueKey: string, maxResults: number = 20): Promise<{
+    comments: any[];
+    total: number;
+  }> {
+    const result = await this.makeRequest(`/issue/${issueKey}/comment?orderBy=-created&maxResults=${maxResults}`);
+    return {
+      comments: result.comments || [],
+      total: result.total ?? (result.comments || []).length
+    };
+  }
+
+  /**
+   * Replace the body (and optionally visibility) of an existing comment
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param commentId - ID of the comment to edit
+   * @param markdown - New comment body in markdown (converted to ADF)
+   * @param visibility - Optional restriction to a project role or group
+   */
+  async updateComment(issueKey: string, commentId: string, markdown: string, visibility?: CommentVisibility): Promise<any> {
+    await this.resolveMentions(markdown);
+    const body = this.convertMarkdown(await this.resolveAttachmentImages(markdown, issueKey));
+    return this.makeRequest(`/issue/${issueKey}/comment/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        body,
+        ...(visibility ? { visibility } : {})
+      })
+    });
+  }
+
+  /**
+   * Delete a comment from an issue
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param commentId - ID of the comment to delete
+   */
+  async deleteComment(issueKey: string, commentId: string): Promise<void> {
+    await this.makeRequest(`/issue/${issueKey}/comment/${commentId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Attach a file to an issue
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   * @param filename - File name shown on the issue
+   * @param content - File content
+   * @param mimeType - Content type, if known (JIRA detects it otherwise)
+   * @returns The created attachments' metadata
+   */
+  async addAttachment(issueKey: string, filename: string, content: Buffer, mimeType?: string): Promise<any[]> {
+    const form = new FormData();
+    form.append('file', new Blob([content], mimeType ? { type: mimeType } : {}), filename);
+    const result = await this.makeRequest(`/issue/${issueKey}/attachments`, {
+      method: 'POST',
+      body: form
+    });
+    return result || [];
+  }
+
+  /**
+   * Get the attachments on an issue
+   * @param issueKey - JIRA issue key (e.g., "DHK-123")
+   */
+  async getAttachments(issueKey: string): Promise<any[]> {
+    const issue = await this.getIssue(issueKey, ['attachment']);
+    return issue.fields?.attachment || [];
+  }
+
+  /**
+   * Get an attachment's metadata (file name, size, content type, author)
+   * @param attachmentId - ID of the attachment
+   */
+  async getAttachment(attachmentId: string): Promise<any> {
+    return this.makeRequest(`/attachment/${attachmentId}`);
+  }
+
+  /**
+   * Download an attachment's content
+   * @param attachmentId - ID of the attachment
+   * @param maxBytes - Largest attachment to download
+   * @throws If the attachment is larger than maxBytes
+   */
+  async downloadAttachment(attachmentId: string, maxBytes: number): Promise<AttachmentDownload> {
+    const metadata = await this.getAttachment(attachmentId);
+    if (metadata.size > maxBytes) {
+      throw new JiraValidationError(`Invalid attachment: ${metadata.filename} is ${metadata.size} bytes, more than the ${maxBytes} byte download limit`);
+    }
+
+    const response = await this.sendRequest(`/attachment/content/${attachmentId}`, {
+      headers: { 'Accept': '*/*' }
     });
+    if (!response.ok) {
+      throw await this.toApiError(response, `/attachment/content/${attachmentId}`);
+    }
 
-    const defaultIssueType = process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Story';
+    const content = Buffer.from(await response.arrayBuffer());
     return {
-      key: createdIssue.key,
-      summary: issueData.summary || '',
-      description: issueData.description || '',
-      issueType: issueData.issueType || defaultIssueType,
-      assignee: issueData.assigneeEmail || 'alex.wald@optimizely.com',
-      url: `${this.config.baseUrl}/browse/${createdIssue.key}`
+      id: String(metadata.id),
+      filename: metadata.filename,
+      mimeType: metadata.mimeType || response.headers.get('content-type') || 'application/octet-stream',
+      size: content.length,
+      content
     };
   }
 
   /**
-   * Get issue details by key
+   * Get the media file ID of an attachment, used to embed it in rich text as a media node
+   * JIRA's REST API does not return it, but the attachment content URL redirects to the media file
+   * @param attachmentId - ID of the attachment
+   */
+  async getAttachmentMediaId(attachmentId: string): Promise<string> {
+    const cached = this.attachmentMediaIds.get(attachmentId);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.sendRequest(`/attachment/content/${attachmentId}`, {
+      redirect: 'manual',
+      headers: { 'Accept': '*/*' }
+    });
+    if (response.status < 300 || response.status >= 400) {
+      throw response.ok
+        ? createJiraApiError(response.status, 'attachment content did not redirect to a media file')
+        : await this.toApiError(response, `/attachment/content/${attachmentId}`);
+    }
+
+    const mediaMatch = (response.headers.get('location') || '').match(MEDIA_FILE_URL_PATTERN);
+    if (!mediaMatch) {
+      throw new JiraNotFoundError(`Could not find the media file for attachment ${attachmentId}`);
+    }
+    this.attachmentMediaIds.set(attachmentId, mediaMatch[1]);
+    return mediaMatch[1];
+  }
+
+  /**
+   * Get the issue link types configured on the instance (e.g., Blocks, Relates, Duplicate)
+   */
+  async getIssueLinkTypes(): Promise<Array<{
+    id: string;
+    name: string;
+    inward: string;
+    outward: string;
+  }>> {
+    const result = await this.makeRequest('/issueLinkType');
+    return result.issueLinkTypes || [];
+  }
+
+  /**
+   * Link two issues so that "sourceKey <outward description> targetKey" (e.g., "DHK-1 blocks DHK-2")
+   * @param linkTypeName - Name of the link type (e.g., "Blocks")
+   * @param sourceKey - Issue performing the outward relationship
+   * @param targetKey - Issue receiving the outward relationship
+   */
+  async createIssueLink(linkTypeName: string, sourceKey: string, targetKey: string): Promise<void> {
+    // JIRA describes the inwardIssue with the link type's outward description
+    await this.makeRequest('/issueLink', {
+      method: 'POST',
+      body: JSON.stringify({
+        type: { name: linkTypeName },
+        inwardIssue: { key: sourceKey },
+        outwardIssue: { key: targetKey }
+      })
+    });
+  }
+
+  /**
+   * Remove an issue link
+   * @param linkId - ID of the issue link
+   */
+  async deleteIssueLink(linkId: string): Promise<void> {
+    await this.makeRequest(`/issueLink/${linkId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Get the browser URL for an issue
+   */
+  getIssueUrl(issueKey: string): string {
+    return `${this.config.baseUrl}/browse/${issueKey}`;
+  }
+
+  /**
+   * Approximate number of issues matching a JQL query (search pages do not include a total)
+   */
+  async countIssues(jql: string): Promise<number> {
+    const result = await this.makeRequest('/search/approximate-count', {
+      method: 'POST',
+      // Ordering does not change the count
+      body: JSON.stringify({ jql: jql.replace(/\s+ORDER\s+BY\s+[^"']*$/i, '') })
+    });
+    return result.count;
+  }
+
+  /**
+   * Search issues with JQL, following pagination until maxResults issues are collected
+   * @param jql - JQL query string
+   * @param options - Field IDs to return, maximum number of issues and a page token to resume from
    */
-  async getIssue(issueKey: string): Promise<any> {
-    return this.makeRequest(`/issue/${issueKey}`);
+  async searchIssues(jql: string, options: {
+    fields?: string[];
+    maxResults?: number;
+    nextPageToken?: string;
+  } = {}): Promise<{
+    issues: any[];
+    nextPageToken?: string;
+    isLast: boolean;
+  }> {
+    const maxResults = options.maxResults ?? 50;
+    const issues: any[] = [];
+    let nextPageToken = options.nextPageToken;
+    let isLast = false;
+
+    while (issues.length < maxResults) {
+      // JIRA caps a single page at 100 issues
+      const page = await this.makeRequest('/search/jql', {
+        method: 'POST',
+        body: JSON.stringify({
+          jql,
+          fields: options.fields || ['*navigable'],
+          maxResults: Math.min(100, maxResults - issues.length),
+          ...(nextPageToken ? { nextPageToken } : {})
+        })
+      });
+
+      issues.push(...(page.issues || []));
+      nextPageToken = page.nextPageToken;
+      isLast = page.isLast !== false || !nextPageToken;
+
+      if (isLast) {
+        nextPageToken = undefined;
+        break;
+      }
+    }
+
+    return {
+      issues,
+      nextPageToken,
+      isLast
+    };
   }
 
   /**
@@ -167,54 +1349,38 @@ class JiraClient {
     try {
       await this.getIssue(issueKey);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('404')) {
-        throw new Error(`Ticket ${issueKey} not found or you don't have access to it`);
+      if (isJiraApiError(error, 404)) {
+        throw error.reword(`Ticket ${issueKey} not found or you don't have access to it`);
       }
       throw error;
     }
 
     // Build the update payload
-    const updateFields: Record<string, any> = {};
-    const updatedFieldNames: string[] = [];
+    await this.ensureFieldMetadata();
+    const { fields: resolvedFields, watchers } = await this.resolveUserFields(await this.resolveImageFields(fields, issueKey));
+    const { fields: updateFields, fieldNames: updatedFieldNames } = this.buildFieldsPayload(resolvedFields);
 
-    for (const [fieldName, value] of Object.entries(fields)) {
-      // Skip null/undefined values
-      if (value === null || value === undefined) {
-        continue;
-      }
+    if (Object.keys(updateFields).length === 0 && watchers.length === 0) {
+      throw new JiraValidationError('No valid fields to update');
+    }
 
-      // Map field name to JIRA field ID
-      const fieldId = mapFieldNameToId(fieldName);
-      updatedFieldNames.push(fieldName);
+    // Update the issue
+    if (Object.keys(updateFields).length > 0) {
+      const updatePayload = {
+        fields: updateFields
+      };
 
-      // Handle description specially (convert markdown to ADF)
-      if (requiresSpecialFormatting(fieldId) && typeof value === 'string') {
-        try {
-          updateFields[fieldId] = markdownToADF(value);
-        } catch (error) {
-          console.warn('Markdown conversion failed for description, using plain text:', error);
-          updateFields[fieldId] = plainTextToADF(value);
-        }
-      } else {
-        // Format the field value appropriately
-        updateFields[fieldId] = formatFieldValue(fieldId, value);
-      }
+      await this.makeRequest(`/issue/${issueKey}`, {
+        method: 'PUT',
+        body: JSON.stringify(updatePayload)
+      });
     }
 
-    if (Object.keys(updateFields).length === 0) {
-      throw new Error('No valid fields to update');
+    if (watchers.length > 0) {
+      await this.addWatchers(issueKey, watchers);
+      updatedFieldNames.push('watchers');
     }
 
-    // Update the issue
-    const updatePayload = {
-      fields: updateFields
-    };
-
-    await this.makeRequest(`/issue/${issueKey}`, {
-      method: 'PUT',
-      body: JSON.stringify(updatePayload)
-    });
-
     return {
       key: issueKey,
       url: `${this.config.baseUrl}/browse/${issueKey}`,
@@ -223,15 +1389,46 @@ class JiraClient {
   }
 }
 
+/**
+ * Reads how long JIRA asked to wait, from Retry-After (seconds or a date) or X-RateLimit-Reset
+ * @returns Milliseconds, or undefined if the response does not say
+ */
+function getRequestedWaitMs(response: Response): number | undefined {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const wait = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(wait)) {
+      return Math.max(0, wait);
+    }
+  }
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (reset) {
+    const wait = Date.parse(reset) - Date.now();
+    if (Number.isFinite(wait)) {
+      return Math.max(0, wait);
+    }
+  }
+  return undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // Lazy initialization to avoid crashing if env vars are missing
-let _jiraClient: JiraClient | null = null;
+// One client per tenant, so credentials and caches are never shared between tenants
+const _jiraClients = new Map<string, JiraClient>();
 
 export const jiraClient = {
   get instance(): JiraClient {
-    if (!_jiraClient) {
-      _jiraClient = new JiraClient();
+    const tenantId = getTenantId();
+    let client = _jiraClients.get(tenantId);
+    if (!client) {
+      client = new JiraClient();
+      _jiraClients.set(tenantId, client);
     }
-    return _jiraClient;
+    return client;
   }
 };
 
@@ -0,0 +1,193 @@
+/**
+ * Typed errors for the JIRA tools
+ * JiraClient turns failed JIRA API requests into the subclass for the response status, and the tools
+ * raise the same types for problems they detect themselves, so handlers can choose the HTTP status
+ * and error code from the type instead of searching message text
+ */
+
+/**
+ * Stable, machine-readable error codes returned in tool responses
+ */
+export type JiraErrorCode =
+  | 'VALIDATION_FAILED'     // The request or one of its fields is invalid
+  | 'AUTHENTICATION_FAILED' // JIRA rejected the server's API credentials
+  | 'PERMISSION_DENIED'     // The JIRA account may not perform the action
+  | 'NOT_FOUND'             // The ticket, project, issue type or other resource does not exist
+  | 'CONFLICT'              // The request conflicts with the resource's current state
+  | 'RATE_LIMITED'          // JIRA is rate limiting requests
+  | 'JIRA_UNAVAILABLE'      // JIRA returned a server error
+  | 'JIRA_UNREACHABLE'      // No response was received from JIRA (network error or timeout)
+  | 'INTERNAL_ERROR';       // Anything else
+
+export interface JiraApiErrorDetails {
+  method?: string;
+  endpoint?: string;
+  requestId?: string; // X-ARequestId header, for matching the request in JIRA support cases
+  retryAfterMs?: number; // How long JIRA asked to wait before retrying (rate limits)
+}
+
+/**
+ * Base class for JIRA tool errors
+ * Errors from the JIRA API also carry the response status and body; errors raised locally do not
+ */
+export class JiraError extends Error {
+  readonly code: JiraErrorCode;
+  readonly httpStatus: number; // Status the tool endpoints respond with
+  readonly fieldErrors: Record<string, string>; // Per-field messages, keyed by field name or ID
+  readonly errorMessages: string[]; // JIRA's general error messages
+  readonly status?: number; // JIRA's HTTP status, or 0 if no response was received (network error or timeout)
+  readonly body?: string; // Raw JIRA response body
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(code: JiraErrorCode, httpStatus: number, message: string, fieldErrors: Record<string, string> = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.httpStatus = httpStatus;
+    this.fieldErrors = fieldErrors;
+    this.errorMessages = [];
+  }
+
+  /**
+   * Whether the error came from a JIRA API response rather than a local check
+   */
+  get fromJira(): boolean {
+    return this.status !== undefined;
+  }
+
+  /**
+   * Replaces the message with a user-facing one, keeping the type, code and details
+   * @returns This error, for throwing
+   */
+  reword(message: string): this {
+    this.message = message;
+    return this;
+  }
+}
+
+export class JiraValidationError extends JiraError {
+  constructor(message: string, fieldErrors: Record<string, string> = {}) {
+    super('VALIDATION_FAILED', 400, message, fieldErrors);
+  }
+}
+
+export class JiraAuthenticationError extends JiraError {
+  // 502: the caller's request was fine, but this server's JIRA credentials were refused
+  constructor(message: string) {
+    super('AUTHENTICATION_FAILED', 502, message);
+  }
+}
+
+export class JiraPermissionError extends JiraError {
+  constructor(message: string) {
+    super('PERMISSION_DENIED', 403, message);
+  }
+}
+
+export class JiraNotFoundError extends JiraError {
+  constructor(message: string) {
+    super('NOT_FOUND', 404, message);
+  }
+}
+
+export class JiraConflictError extends JiraError {
+  constructor(message: string, fieldErrors: Record<string, string> = {}) {
+    super('CONFLICT', 409, message, fieldErrors);
+  }
+}
+
+export class JiraRateLimitError extends JiraError {
+  constructor(message: string) {
+    super('RATE_LIMITED', 429, message);
+  }
+}
+
+export class JiraUnavailableError extends JiraError {
+  /**
+   * @param unreachable - True if no response was received at all
+   */
+  constructor(message: string, unreachable = false) {
+    super(unreachable ? 'JIRA_UNREACHABLE' : 'JIRA_UNAVAILABLE', unreachable ? 504 : 503, message);
+  }
+}
+
+/**
+ * Creates the error for a failed JIRA API request, typed by the response status
+ * @param status - HTTP status, or 0 if no response was received
+ * @param body - Response body (JIRA's JSON error document, or a description of the failure)
+ * @param details - Request and response details
+ */
+export function createJiraApiError(status: number, body: string, details: JiraApiErrorDetails = {}): JiraError {
+  // Keeps the "JIRA API Error (404): ..." format existing messages and logs rely on
+  const message = `JIRA API Error (${status || 'network'}): ${body}`;
+  let error: JiraError;
+  if (status === 400 || status === 413 || status === 422) {
+    error = new JiraValidationError(message);
+  } else if (status === 401) {
+    error = new JiraAuthenticationError(message);
+  } else if (status === 403) {
+    error = new JiraPermissionError(message);
+  } else if (status === 404) {
+    error = new JiraNotFoundError(message);
+  } else if (status === 409) {
+    error = new JiraConflictError(message);
+  } else if (status === 429) {
+    error = new JiraRateLimitError(message);
+  } else if (status === 0 || status >= 500) {
+    error = new JiraUnavailableError(message, status === 0);
+  } else {
+    error = new JiraError('INTERNAL_ERROR', 500, message);
+  }
+  const parsed = parseErrorBody(body);
+  Object.assign(error, {
+    status,
+    body,
+    errorMessages: parsed.errorMessages,
+    method: details.method,
+    endpoint: details.endpoint,
+    requestId: details.requestId,
+    retryAfterMs: details.retryAfterMs
+  });
+  Object.assign(error.fieldErrors, parsed.errors);
+  return error;
+}
+
+/**
+ * Checks whether an error came from a JIRA API response, optionally with one of the given statuses
+ */
+export function isJiraApiError(error: unknown, ...statuses: number[]): error is JiraError & { status: number; body: string } {
+  return error instanceof JiraError && error.status !== undefined
+    && (statuses.length === 0 || statuses.includes(error.status));
+}
+
+/**
+ * Wraps any thrown value as a JiraError, so callers can rely on a code and HTTP status
+ * @param action - What was being attempted, e.g. "create the JIRA ticket"
+ */
+export function toJiraError(error: unknown, action: string): JiraError {
+  if (error instanceof JiraError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new JiraError('INTERNAL_ERROR', 500, `Failed to ${action}: ${message}`);
+}
+
+/**
+ * Reads errorMessages and the errors map from a JIRA error response body
+ * Bodies that are not JIRA error documents give empty results
+ */
+function parseErrorBody(body: string): { errorMessages: string[]; errors: Record<string, string> } {
+  try {
+    const parsed = JSON.parse(body);
+    const errors = parsed && typeof parsed.errors === 'object' && !Array.isArray(parsed.errors) ? parsed.errors : {};
+    return {
+      errorMessages: Array.isArray(parsed?.errorMessages) ? parsed.errorMessages.map(String) : [],
+      errors: Object.fromEntries(Object.entries(errors).map(([field, message]) => [field, String(message)]))
+    };
+  } catch {
+    return { errorMessages: [], errors: {} };
+  }
+}
@@ -0,0 +1,443 @@
+/**
+ * Acting as the calling user through Atlassian OAuth 2.0 (3LO), so JIRA shows the person who asked
+ * rather than the service account
+ * A caller (identified by the JIRA_OAUTH_CALLER_HEADER header of an authenticated request) authorizes
+ * once through connect_jira_account; their grant is stored by tenant and caller (see oauth-grant-store)
+ * and refreshed as needed. Callers without a grant keep using the service account
+ * Each authorization link works once, and the grant it produces only becomes active when the same caller
+ * submits the confirmation code the callback page shows, so a link completed by someone else is never used
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { getCurrentTenant, getSetting, getTenantId } from './tenants';
+import { oauthGrantStore, OAuthGrant, PendingAuthorization } from './oauth-grant-store';
+import { JiraPermissionError, JiraValidationError, createJiraApiError } from './jira-errors';
+
+const DEFAULT_AUTH_URL = 'https://auth.atlassian.com';
+const DEFAULT_API_URL = 'https://api.atlassian.com';
+const DEFAULT_SCOPES = 'read:jira-work write:jira-work read:jira-user offline_access';
+
+// Header carrying the calling user's identity, set by the platform calling the tools (not by the model)
+const DEFAULT_CALLER_HEADER = 'x-caller-id';
+
+// How long an authorization link, and then its confirmation code, stays valid
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Wrong confirmation codes allowed before the pending grant is dropped
+const MAX_FAILED_CONFIRMATIONS = 5;
+
+// Confirmation codes are read and typed by people, so they leave out look-alike characters (0/O, 1/I)
+const CONFIRMATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Access tokens are refreshed when they expire within this long, so they do not expire mid-request
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface OAuthCredentials {
+  apiUrl: string; // REST API base URL for the grant's site, ending in /rest/api/3
+  authorization: string;
+  accountId: string;
+}
+
+interface AuthorizationState {
+  tenantId: string;
+  callerId: string;
+  expiresAt: number;
+  nonce: string; // Must match the caller's pending authorization, so only their newest link works, and only once
+}
+
+export interface CompletedAuthorization {
+  grant: OAuthGrant;
+  confirmationCode: string; // For the caller to submit through connect_jira_account
+}
+
+const callerStorage = new AsyncLocalStorage<string>();
+
+// Refreshes in progress by grant key, so parallel requests do not each use (and rotate) the refresh token
+const refreshes = new Map<string, Promise<OAuthGrant | undefined>>();
+
+/**
+ * Whether OAuth is configured for the current tenant (JIRA_OAUTH_CLIENT_ID and JIRA_OAUTH_CLIENT_SECRET)
+ */
+export function isOAuthConfigured(): boolean {
+  return !!getSetting('JIRA_OAUTH_CLIENT_ID') && !!getSetting('JIRA_OAUTH_CLIENT_SECRET');
+}
+
+/**
+ * Gets the name of the header that identifies the calling user (JIRA_OAUTH_CALLER_HEADER, lower case)
+ */
+export function getCallerHeader(): string {
+  return (process.env.JIRA_OAUTH_CALLER_HEADER || DEFAULT_CALLER_HEADER).trim().toLowerCase();
+}
+
+/**
+ * Runs a function as a calling user, so JIRA requests inside it use their grant
+ */
+export function runWithCaller<T>(callerId: string, fn: () => T): T {
+  return callerStorage.run(callerId, fn);
+}
+
+/**
+ * Gets the calling user, if the request identified one
+ */
+export function getCallerId(): string | undefined {
+  return callerStorage.getStore();
+}
+
+/**
+ * Gets the OAuth callback URL (JIRA_OAUTH_REDIRECT_URI, or /oauth/callback under BASE_URL and the tenant's path prefix)
+ * This must match a callback URL of the OAuth app exactly
+ */
+export function getRedirectUri(): string {
+  const configured = getSetting('JIRA_OAUTH_REDIRECT_URI');
+  if (configured && configured.trim()) {
+    return configured.trim();
+  }
+  const baseUrl = (process.env.BASE_URL || '').replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error('JIRA_OAUTH_REDIRECT_URI or BASE_URL is required for OAuth');
+  }
+  return `${baseUrl}${getCurrentTenant()?.pathPrefix || ''}/oauth/callback`;
+}
+
+/**
+ * Builds the link a caller opens to authorize acting as them in JIRA
+ * The state parameter names the tenant and caller, signed with the client secret and valid for STATE_TTL_MS.
+ * Its nonce is recorded as the caller's pending authorization, replacing any earlier link or unconfirmed grant
+ */
+export async function createAuthorizationUrl(callerId: string): Promise<string> {
+  const { clientId } = getClientConfig();
+  const expiresAt = Date.now() + STATE_TTL_MS;
+  const nonce = randomBytes(16).toString('hex');
+  await oauthGrantStore.instance.set<PendingAuthorization>(getPendingKey(callerId), { nonce, expiresAt });
+  const state = signState({ tenantId: getTenantId(), callerId, expiresAt, nonce });
+  const query = new URLSearchParams({
+    audience: 'api.atlassian.com',
+    client_id: clientId,
+    scope: getSetting('JIRA_OAUTH_SCOPES') || DEFAULT_SCOPES,
+    redirect_uri: getRedirectUri(),
+    state,
+    response_type: 'code',
+    prompt: 'consent'
+  });
+  return `${getAuthUrl()}/authorize?${query.toString()}`;
+}
+
+/**
+ * Reads the tenant a callback's state belongs to, before its signature can be checked with that tenant's secret
+ * @throws JiraValidationError if the state is malformed
+ */
+export function getStateTenantId(state: string): string {
+  return decodeState(state).tenantId;
+}
+
+/**
+ * Completes an authorization from the OAuth callback: checks the state and uses up its link, exchanges the code
+ * for tokens, finds the tenant's JIRA site among the sites the user granted and keeps the grant pending until
+ * the caller confirms it (see confirmCallerAuthorization)
+ * Must run in the tenant named by the state
+ * @returns The pending grant and the code that confirms it
+ * @throws JiraValidationError if the state is invalid, expired, already used or replaced by a newer link,
+ * JiraPermissionError if the user did not grant the tenant's site
+ */
+export async function completeAuthorization(code: string, state: string): Promise<CompletedAuthorization> {
+  const { clientSecret } = getClientConfig();
+  const parsed = decodeState(state, clientSecret);
+  if (parsed.tenantId !== getTenantId()) {
+    throw new JiraValidationError('This authorization link belongs to another tenant');
+  }
+  // The link's nonce is used up before the code is exchanged; taking it makes concurrent callbacks with the
+  // same state fail, and checking it first keeps an old link from using up the caller's newest one
+  const pendingKey = getPendingKey(parsed.callerId);
+  const isCurrentLink = (pending?: PendingAuthorization) =>
+    !!pending && !!pending.nonce && safeEqual(pending.nonce, parsed.nonce) && pending.expiresAt > Date.now();
+  if (!isCurrentLink(await oauthGrantStore.instance.get<PendingAuthorization>(pendingKey)) ||
+      !isCurrentLink(await oauthGrantStore.instance.take<PendingAuthorization>(pendingKey))) {
+    throw new JiraValidationError('This authorization link has already been used or was replaced by a newer one. Request a new link with connect_jira_account');
+  }
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri()
+  });
+  const siteUrl = normalizeSiteUrl(getSetting('JIRA_BASE_URL') || '');
+  const resources: any[] = await callApi('/oauth/token/accessible-resources', tokens.access_token);
+  const site = (Array.isArray(resources) ? resources : []).find(resource => normalizeSiteUrl(resource.url || '') === siteUrl);
+  if (!site) {
+    throw new JiraPermissionError(`The Atlassian account was not granted access to ${siteUrl}. Authorize again and choose that site`);
+  }
+  const user = await callApi(`/ex/jira/${site.id}/rest/api/3/myself`, tokens.access_token);
+
+  const now = Date.now();
+  const grant: OAuthGrant = {
+    accountId: user.accountId,
+    displayName: user.displayName,
+    email: user.emailAddress,
+    cloudId: site.id,
+    siteUrl,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: now + (Number(tokens.expires_in) || 3600) * 1000,
+    scope: tokens.scope,
+    createdAt: now,
+    updatedAt: now
+  };
+  const confirmationCode = createConfirmationCode();
+  await oauthGrantStore.instance.set<PendingAuthorization>(pendingKey, {
+    grant,
+    confirmationCodeHash: hashConfirmationCode(confirmationCode),
+    failedConfirmations: 0,
+    expiresAt: now + STATE_TTL_MS
+  });
+  console.log(`JIRA OAuth grant for caller ${parsed.callerId} (tenant ${getTenantId()}) as ${grant.displayName || grant.accountId} awaits confirmation`);
+  return { grant, confirmationCode };
+}
+
+/**
+ * Activates the calling user's pending grant when they submit the confirmation code its callback page showed
+ * After MAX_FAILED_CONFIRMATIONS wrong codes the pending grant is dropped and the caller has to authorize again
+ * @returns The activated grant
+ * @throws JiraValidationError if the caller has no pending grant or the code is wrong
+ */
+export async function confirmCallerAuthorization(confirmationCode: string): Promise<OAuthGrant> {
+  const callerId = getCallerId();
+  if (!callerId) {
+    throw new JiraValidationError('No calling user was identified');
+  }
+  const pendingKey = getPendingKey(callerId);
+  // Taken out while the code is checked, so concurrent guesses do not each get a try
+  const pending = await oauthGrantStore.instance.take<PendingAuthorization>(pendingKey);
+  if (!pending || !pending.grant || !pending.confirmationCodeHash || pending.expiresAt <= Date.now()) {
+    throw new JiraValidationError('There is no JIRA authorization waiting for confirmation. Request a new link with connect_jira_account');
+  }
+  if (!safeEqual(hashConfirmationCode(confirmationCode), pending.confirmationCodeHash)) {
+    const failedConfirmations = (pending.failedConfirmations || 0) + 1;
+    if (failedConfirmations >= MAX_FAILED_CONFIRMATIONS) {
+      console.warn(`Dropped the pending JIRA OAuth grant for caller ${callerId} (tenant ${getTenantId()}) after ${failedConfirmations} wrong confirmation codes`);
+      throw new JiraValidationError('Too many wrong confirmation codes. Request a new link with connect_jira_account and authorize again');
+    }
+    await oauthGrantStore.instance.set<PendingAuthorization>(pendingKey, { ...pending, failedConfirmations });
+    throw new JiraValidationError('The confirmation code is not correct. Use the code shown after authorizing in JIRA');
+  }
+  await oauthGrantStore.instance.set(getGrantKey(callerId), pending.grant);
+  console.log(`Stored JIRA OAuth grant for caller ${callerId} (tenant ${getTenantId()}) as ${pending.grant.displayName || pending.grant.accountId}`);
+  return pending.grant;
+}
+
+/**
+ * Gets the calling user's grant, if they have authorized
+ */
+export async function getCallerGrant(): Promise<OAuthGrant | undefined> {
+  const callerId = getCallerId();
+  return callerId ? oauthGrantStore.instance.get(getGrantKey(callerId)) : undefined;
+}
+
+/**
+ * Removes the calling user's grant, so their requests use the service account again
+ * @returns The removed grant, if there was one
+ */
+export async function removeCallerGrant(): Promise<OAuthGrant | undefined> {
+  const callerId = getCallerId();
+  const grant = await getCallerGrant();
+  if (callerId && grant) {
+    await oauthGrantStore.instance.delete(getGrantKey(callerId));
+  }
+  return grant;
+}
+
+/**
+ * Gets credentials for the calling user's JIRA requests, refreshing the access token when it is about to expire
+ * @returns Undefined when OAuth is not configured, no caller was identified or the caller has no grant
+ * (a grant whose refresh token was revoked or expired is removed)
+ */
+export async function getCallerCredentials(): Promise<OAuthCredentials | undefined> {
+  const callerId = getCallerId();
+  if (!callerId || !isOAuthConfigured()) {
+    return undefined;
+  }
+  const key = getGrantKey(callerId);
+  let grant = await oauthGrantStore.instance.get(key);
+  if (grant && grant.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+    let refresh = refreshes.get(key);
+    if (!refresh) {
+      refresh = refreshGrant(key, grant).finally(() => refreshes.delete(key));
+      refreshes.set(key, refresh);
+    }
+    grant = await refresh;
+  }
+  if (!grant) {
+    return undefined;
+  }
+  return {
+    apiUrl: `${getApiUrl()}/ex/jira/${grant.cloudId}/rest/api/3`,
+    authorization: `Bearer ${grant.accessToken}`,
+    accountId: grant.accountId
+  };
+}
+
+/**
+ * Exchanges a grant's refresh token for new tokens and stores them
+ * @returns The refreshed grant, or undefined if the grant can no longer be refreshed (and was removed)
+ */
+async function refreshGrant(key: string, grant: OAuthGrant): Promise<OAuthGrant | undefined> {
+  if (!grant.refreshToken) {
+    await oauthGrantStore.instance.delete(key);
+    console.warn(`JIRA OAuth grant ${key} expired without a refresh token (add the offline_access scope); using the service account`);
+    return undefined;
+  }
+  let tokens: any;
+  try {
+    tokens = await requestTokens({ grant_type: 'refresh_token', refresh_token: grant.refreshToken });
+  } catch (error: any) {
+    // invalid_grant: the user revoked access, or the refresh token expired from disuse
+    if (error && /invalid_grant|unauthorized_client/.test(String(error.body || ''))) {
+      await oauthGrantStore.instance.delete(key);
+      console.warn(`JIRA OAuth grant ${key} can no longer be refreshed and was removed; using the service account`);
+      return undefined;
+    }
+    throw error;
+  }
+  const refreshed: OAuthGrant = {
+    ...grant,
+    accessToken: tokens.access_token,
+    // Atlassian rotates refresh tokens, so the new one replaces the old
+    refreshToken: tokens.refresh_token || grant.refreshToken,
+    expiresAt: Date.now() + (Number(tokens.expires_in) || 3600) * 1000,
+    scope: tokens.scope || grant.scope,
+    updatedAt: Date.now()
+  };
+  await oauthGrantStore.instance.set(key, refreshed);
+  return refreshed;
+}
+
+/**
+ * Requests tokens from the authorization server's token endpoint
+ * @throws A JiraError typed by the response status if the request fails
+ */
+async function requestTokens(params: Record<string, string>): Promise<any> {
+  const { clientId, clientSecret } = getClientConfig();
+  const endpoint = '/oauth/token';
+  let response: Response;
+  try {
+    response = await fetch(`${getAuthUrl()}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({ ...params, client_id: clientId, client_secret: clientSecret })
+    });
+  } catch (error) {
+    throw createJiraApiError(0, `request failed: ${error instanceof Error ? error.message : 'unknown error'}`, { method: 'POST', endpoint });
+  }
+  const body = await response.text();
+  if (!response.ok) {
+    throw createJiraApiError(response.status, body, { method: 'POST', endpoint });
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * Calls the Atlassian API with an access token
+ */
+async function callApi(endpoint: string, accessToken: string): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(`${getApiUrl()}${endpoint}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' }
+    });
+  } catch (error) {
+    throw createJiraApiError(0, `request failed: ${error instanceof Error ? error.message : 'unknown error'}`, { method: 'GET', endpoint });
+  }
+  if (!response.ok) {
+    throw createJiraApiError(response.status, await response.text(), { method: 'GET', endpoint });
+  }
+  return response.json();
+}
+
+function getClientConfig(): { clientId: string; clientSecret: string } {
+  const clientId = getSetting('JIRA_OAUTH_CLIENT_ID');
+  const clientSecret = getSetting('JIRA_OAUTH_CLIENT_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new Error('JIRA_OAUTH_CLIENT_ID and JIRA_OAUTH_CLIENT_SECRET are required for OAuth');
+  }
+  return { clientId, clientSecret };
+}
+
+// Authorization server (JIRA_OAUTH_AUTH_URL) and API gateway (JIRA_OAUTH_API_URL), overridable for a local fake server
+function getAuthUrl(): string {
+  return (getSetting('JIRA_OAUTH_AUTH_URL') || DEFAULT_AUTH_URL).replace(/\/+$/, '');
+}
+
+function getApiUrl(): string {
+  return (getSetting('JIRA_OAUTH_API_URL') || DEFAULT_API_URL).replace(/\/+$/, '');
+}
+
+function getGrantKey(callerId: string): string {
+  return `${getTenantId()}:${callerId}`;
+}
+
+// Pending authorizations are kept apart from grants; the encoded parts contain no ":", so the keys never collide
+function getPendingKey(callerId: string): string {
+  return `pending/${encodeURIComponent(getTenantId())}/${encodeURIComponent(callerId)}`;
+}
+
+/**
+ * Creates a confirmation code such as "K7PM-Q2XD"
+ */
+function createConfirmationCode(): string {
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    code += CONFIRMATION_CODE_ALPHABET[randomInt(CONFIRMATION_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Hashes a confirmation code as typed, ignoring case, spaces and dashes
+ */
+function hashConfirmationCode(code: string): string {
+  return createHash('sha256').update(String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function normalizeSiteUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+function signState(state: AuthorizationState): string {
+  const { clientSecret } = getClientConfig();
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${createHmac('sha256', clientSecret).update(payload).digest('base64url')}`;
+}
+
+/**
+ * Decodes a state parameter, checking its signature and expiry when given the secret it was signed with
+ */
+function decodeState(state: string, secret?: string): AuthorizationState {
+  const [payload, signature] = String(state || '').split('.');
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(payload || '', 'base64url').toString('utf8'));
+  } catch {
+    decoded = undefined;
+  }
+  if (!decoded || typeof decoded.tenantId !== 'string' || typeof decoded.callerId !== 'string' ||
+      typeof decoded.nonce !== 'string' || !signature) {
+    throw new JiraValidationError('Invalid authorization state. Request a new link with connect_jira_account');
+  }
+  if (secret !== undefined) {
+    const expected = createHmac('sha256', secret).update(payload).digest();
+    const given = Buffer.from(signature, 'base64url');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new JiraValidationError('Invalid authorization state. Request a new link with connect_jira_account');
+    }
+    if (!(decoded.expiresAt > Date.now())) {
+      throw new JiraValidationError('This authorization link has expired. Request a new one with connect_jira_account');
+    }
+  }
+  return { tenantId: decoded.tenantId, callerId: decoded.callerId, expiresAt: decoded.expiresAt, nonce: decoded.nonce };
+}
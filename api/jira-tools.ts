@@ -1,10 +1,46 @@
-import { jiraClient } from './jira-client';
+import { jiraClient, CommentVisibility, CreateFieldCheck } from './jira-client';
+import {
+  mapFieldNameToId,
+  normalizeFieldName,
+  applyFieldDefaults,
+  findMissingRequiredFields,
+  getFieldMetadata
+} from './field-mapper';
+import {
+  JiraError,
+  JiraErrorCode,
+  JiraValidationError,
+  JiraNotFoundError,
+  JiraConflictError,
+  toJiraError
+} from './jira-errors';
+import { adfToMarkdown } from './markdown-converter';
+import { idempotencyStore } from './idempotency-store';
+import { getSetting, getCurrentTenant } from './tenants';
+import { getProjectKey, getDefaultIssueType } from './create-defaults';
+import {
+  isOAuthConfigured,
+  getCallerId,
+  getCallerHeader,
+  getCallerGrant,
+  removeCallerGrant,
+  createAuthorizationUrl,
+  confirmCallerAuthorization
+} from './jira-oauth';
+import { OAuthGrant } from './oauth-grant-store';
+import { createHash } from 'crypto';
+import { lookup, LookupOptions } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { isIP, BlockList } from 'net';
 
 export interface CreateTicketParams {
   summary: string;
   description?: string;
   issueType?: string;
   assigneeEmail?: string;
+  deferUnsettableFields?: boolean; // Create with the fields on the create screen, then set the rest with an update
+  idempotencyKey?: string; // Repeated requests with the same key return the ticket created by the first
   [key: string]: any; // Allow additional fields
 }
 
@@ -15,8 +51,37 @@ interface JiraIssue {
   issueType: string;
   assignee: string;
   url: string;
+  deferredFields?: string[]; // Fields set by an update after creation because they are not on the create screen
+  deferredFieldsError?: string; // Why the deferred update failed, if it did
+  replayed?: boolean; // Created by an earlier request with the same idempotency key
 }
 
+export interface BulkCreateTicketParams extends CreateTicketParams {
+  ref?: string; // Batch-local identifier other items can use as parentRef
+  parentRef?: string; // ref of the batch item to create this ticket under
+}
+
+type BulkCreateItemResult =
+  | { index: number; ref?: string; success: true; ticket: JiraIssue }
+  | { index: number; ref?: string; success: false; error: string; code: JiraErrorCode; fieldErrors?: Record<string, string> };
+
+interface BulkCreateResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkCreateItemResult[];
+}
+
+// Upper bound on a single bulk create call (JIRA itself is called in chunks of 50)
+const MAX_BULK_CREATE_ITEMS = 200;
+
+// How long idempotency keys are remembered, and how long a request that is still running holds its key
+const IDEMPOTENCY_TTL_MS = (Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+const IDEMPOTENCY_PENDING_TTL_MS = 10 * 60 * 1000;
+
+// Prefix of the label that marks tickets with their idempotency key for the JQL duplicate check
+const IDEMPOTENCY_LABEL_PREFIX = 'idempotency-';
+
 interface UpdateTicketParams {
   ticketKey: string;
   fields: Record<string, any>;
@@ -28,101 +93,1738 @@ interface UpdatedJiraIssue {
   updatedFields: string[];
 }
 
-export async function createJiraTicket(params: CreateTicketParams): Promise<JiraIssue> {
-  try {
-    // Validate required fields
-    if (!params.summary || params.summary.trim().length === 0) {
-      throw new Error('Summary is required and cannot be empty');
+export interface TransitionTicketParams {
+  ticketKey: string;
+  status?: string;
+  resolution?: string;
+  fields?: Record<string, any>;
+}
+
+interface JiraTransitionOption {
+  id: string;
+  name: string;
+  toStatus: string;
+  requiredFields: string[];
+}
+
+interface AvailableTransitions {
+  key: string;
+  currentStatus: string;
+  transitions: JiraTransitionOption[];
+}
+
+interface TransitionedJiraIssue {
+  key: string;
+  url: string;
+  fromStatus: string;
+  toStatus: string;
+  transition: string;
+  updatedFields: string[];
+}
+
+export interface CommentParams {
+  ticketKey: string;
+  body: string;
+  commentId?: string;
+  visibilityRole?: string;
+  visibilityGroup?: string;
+}
+
+interface JiraComment {
+  id: string;
+  author: string;
+  created: string;
+  updated: string;
+  body: string; // Rendered as markdown
+  visibility: string | null;
+  url: string;
+}
+
+interface JiraCommentList {
+  key: string;
+  total: number;
+  comments: JiraComment[];
+}
+
+export interface LinkTicketsParams {
+  ticketKey: string;
+  linkType: string;
+  targetKey: string;
+}
+
+export interface UnlinkTicketsParams {
+  ticketKey: string;
+  linkId?: string;
+  targetKey?: string;
+  linkType?: string;
+}
+
+interface JiraLinkedTicket {
+  linkId: string;
+  linkType: string;
+  direction: 'outward' | 'inward';
+  relationship: string; // e.g., "blocks", "is blocked by"
+  key: string;
+  summary: string;
+  status: string;
+  url: string;
+}
+
+interface JiraTicketLinks {
+  key: string;
+  summary: string;
+  parent: { key: string; summary: string; issueType: string } | null;
+  children: Array<{ key: string; summary: string; status: string; issueType: string }>;
+  outward: JiraLinkedTicket[];
+  inward: JiraLinkedTicket[];
+}
+
+export interface SearchTicketsParams {
+  jql?: string;
+  projectKey?: string;
+  assignee?: string;
+  status?: string | string[];
+  labels?: string | string[];
+  issueType?: string | string[];
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  orderBy?: string;
+  fields?: string | string[]; // Additional fields to include, as a list or a comma separated string
+  maxResults?: number;
+  nextPageToken?: string;
+}
+
+interface JiraTicketSummary {
+  key: string;
+  summary: string;
+  status: string;
+  issueType: string;
+  priority: string | null;
+  assignee: string | null;
+  labels: string[];
+  created: string;
+  updated: string;
+  url: string;
+  [key: string]: any; // Additional fields requested by friendly name
+}
+
+interface SearchTicketsResult {
+  jql: string;
+  count: number; // Tickets returned
+  total?: number; // Tickets matching the query (approximate beyond this page), if JIRA could count them
+  tickets: JiraTicketSummary[];
+  nextPageToken?: string;
+  isLast: boolean;
+}
+
+export interface GetTicketParams {
+  ticketKey: string;
+  fields?: string | string[]; // Additional fields to include, by friendly name or field ID
+  maxComments?: number; // Newest comments to include (0 to skip comments)
+}
+
+interface JiraTicketDetails {
+  key: string;
+  summary: string;
+  status: string;
+  issueType: string;
+  priority: string | null;
+  assignee: string | null;
+  reporter: string | null;
+  labels: string[];
+  parent: string | null;
+  created: string;
+  updated: string;
+  url: string;
+  description: string; // Rendered as markdown
+  totalComments: number;
+  comments: JiraComment[];
+  [key: string]: any; // Additional fields requested by friendly name
+}
+
+export interface AttachFileParams {
+  ticketKey: string;
+  fileName?: string; // Required with content; defaults to the URL's file name
+  content?: string; // Base64-encoded file content
+  url?: string; // http(s) URL to fetch the file from
+  mimeType?: string;
+}
+
+export interface DownloadAttachmentParams {
+  attachmentId: string;
+  ticketKey?: string; // Ticket the attachment must be on (required by API keys limited to some projects)
+  maxBytes?: number;
+}
+
+interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number; // Bytes
+  created: string;
+  author: string;
+  contentUrl: string;
+  embedMarkdown?: string; // For images: markdown that embeds the image in a description or comment
+}
+
+interface JiraAttachmentContent {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  encoding: 'utf8' | 'base64';
+  content: string;
+}
+
+// Largest file that can be attached or downloaded (JIRA_ATTACHMENT_MAX_BYTES, default 10 MB)
+const MAX_ATTACHMENT_BYTES = Number(process.env.JIRA_ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+
+// How long to wait for a file URL to respond, and how many redirects to follow
+const ATTACHMENT_FETCH_TIMEOUT_MS = 30 * 1000;
+const ATTACHMENT_FETCH_MAX_REDIRECTS = 5;
+
+// Content types downloaded as text rather than base64
+const TEXT_MIME_TYPE_PATTERN = /^(text\/|application\/(json|xml|yaml|x-yaml|csv|javascript|x-ndjson))/i;
+
+/**
+ * Validates ticket key format (e.g., "DHK-123")
+ */
+function validateTicketKey(ticketKey: string): void {
+  const ticketKeyPattern = /^[A-Z]+-\d+$/;
+  if (!ticketKeyPattern.test(ticketKey.trim())) {
+    const message = `Invalid ticket key format: ${ticketKey}. Expected format: PROJECT-123`;
+    throw new JiraValidationError(message, { ticketKey: message });
+  }
+}
+
+/**
+ * Validates create parameters and fills in the default issue type, plus any defaults from the field mappings file
+ * Project and issue type defaults (assignee, labels, ...) are added by JiraClient when the ticket is created
+ * @returns All fields to send to JIRA, including any additional fields that were passed
+ */
+function buildTicketFields(params: CreateTicketParams): Record<string, any> {
+  // Validate required fields
+  if (!params.summary || typeof params.summary !== 'string' || params.summary.trim().length === 0) {
+    throw new JiraValidationError('Summary is required and cannot be empty', { summary: 'Required' });
+  }
+
+  // Extract all fields, not just the basic ones
+  const allFields: Record<string, any> = {
+    summary: params.summary.trim(),
+    issueType: params.issueType || getDefaultIssueType()
+  };
+  if (params.description) {
+    allFields.description = params.description;
+  }
+  if (params.assigneeEmail) {
+    allFields.assigneeEmail = params.assigneeEmail;
+  }
+
+  // Add any additional fields that were passed
+  for (const [key, value] of Object.entries(params)) {
+    if (!['summary', 'description', 'issueType', 'assigneeEmail', 'deferUnsettableFields'].includes(key) && value !== undefined && value !== null) {
+      allFields[key] = value;
     }
+  }
 
-    // Extract all fields, not just the basic ones
-    const defaultIssueType = process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Story';
-    const allFields: Record<string, any> = {
-      summary: params.summary.trim(),
-      description: params.description || 'Created via Optimizely Internal Tools',
-      issueType: params.issueType || defaultIssueType,
-      assigneeEmail: params.assigneeEmail || 'alex.wald@optimizely.com'
-    };
+  // Enforce required fields and fill in defaults from the field mappings file
+  const missingFields = findMissingRequiredFields(params);
+  if (missingFields.length > 0) {
+    throw new JiraValidationError(
+      `Invalid field: missing required field(s): ${missingFields.join(', ')}`,
+      Object.fromEntries(missingFields.map(field => [field, 'Required']))
+    );
+  }
+  return applyFieldDefaults(allFields);
+}
+
+/**
+ * User-facing messages for errors from the JIRA API, by error code
+ */
+type ErrorMessages = Partial<Record<JiraErrorCode, string | ((error: JiraError) => string)>>;
+
+/**
+ * Rewords an error from the JIRA API for the user, keeping its type, code and field errors
+ * Errors raised by the tools themselves are already worded for the user and are returned unchanged
+ * @param action - What was being attempted, e.g. "update ticket DHK-123"
+ * @param messages - Messages for particular error codes, in place of the defaults
+ */
+function translateJiraError(error: unknown, action: string, messages: ErrorMessages = {}): JiraError {
+  const jiraError = toJiraError(error, action);
+  if (!jiraError.fromJira) {
+    return jiraError;
+  }
+
+  const message = messages[jiraError.code];
+  if (message !== undefined) {
+    return jiraError.reword(typeof message === 'function' ? message(jiraError) : message);
+  }
+  switch (jiraError.code) {
+    case 'AUTHENTICATION_FAILED':
+      return jiraError.reword('Authentication failed. Please check your JIRA API token and email address.');
+    case 'PERMISSION_DENIED':
+      return jiraError.reword(`Access denied. You don't have permission to ${action}.`);
+    case 'RATE_LIMITED':
+      return jiraError.reword(jiraError.retryAfterMs
+        ? `Rate limit exceeded. Please wait ${Math.ceil(jiraError.retryAfterMs / 1000)} seconds before trying again.`
+        : 'Rate limit exceeded. Please wait a moment before trying again.');
+    case 'JIRA_UNAVAILABLE':
+      return jiraError.reword(`JIRA is currently unavailable (HTTP ${jiraError.status}). Please try again later.`);
+    case 'JIRA_UNREACHABLE':
+      return jiraError.reword(`Could not reach JIRA: ${jiraError.body}. Please try again later.`);
+    default:
+      return jiraError.reword(`Failed to ${action}: ${describeJiraProblems(jiraError)}`);
+  }
+}
 
-    // Add any additional fields that were passed
-    for (const [key, value] of Object.entries(params)) {
-      if (!['summary', 'description', 'issueType', 'assigneeEmail'].includes(key) && value !== undefined && value !== null) {
-        allFields[key] = value;
+/**
+ * Describes JIRA's error messages and per-field errors, naming fields by their display name when known
+ * e.g. "Story Points (customfield_10016): Number value expected"
+ */
+function describeJiraProblems(error: JiraError): string {
+  const problems = [
+    ...error.errorMessages,
+    ...Object.entries(error.fieldErrors).map(([fieldId, message]) => {
+      const field = getFieldMetadata(fieldId);
+      return `${field && field.name !== fieldId ? `${field.name} (${fieldId})` : fieldId}: ${message}`;
+    })
+  ];
+  return problems.length > 0 ? problems.join('; ') : error.body || error.message;
+}
+
+/**
+ * Translates JIRA API errors from ticket creation into user-facing guidance
+ */
+function translateCreateError(error: unknown): JiraError {
+  const jiraError = toJiraError(error, 'create the JIRA ticket');
+  const notOnScreen = Object.values(jiraError.fieldErrors).some(message =>
+    message.includes('cannot be set') || message.includes('not on the appropriate screen')
+  );
+  if (jiraError.fromJira && jiraError.code === 'VALIDATION_FAILED' && notOnScreen) {
+    return jiraError.reword(`Some fields cannot be set because they are not on the create screen for this issue type, so the ticket was not created. Retry with deferUnsettableFields to set them with an update after creation, or add them to the create screen in JIRA. Original error: ${describeJiraProblems(jiraError)}`);
+  }
+  const project = `the ${getSetting('JIRA_PROJECT_KEY') || 'configured'} project`;
+  return translateJiraError(jiraError, 'create the JIRA ticket', {
+    PERMISSION_DENIED: `Access denied. Please ensure you have permission to create tickets in ${project}.`,
+    NOT_FOUND: `Project or issue type not found. Please verify ${project} exists and the issue type is valid.`,
+    VALIDATION_FAILED: error => `Invalid ticket data: ${describeJiraProblems(error)}. Please check your ticket summary, description, project key, and issue type.`
+  });
+}
+
+/**
+ * Describes the problems found by a create screen pre-flight check
+ * @param deferUnsettable - Whether fields missing from the create screen will be set after creation
+ * @returns One message per kind of problem (empty if the ticket can be created)
+ */
+function describeCreateFieldProblems(check: CreateFieldCheck, deferUnsettable: boolean): string[] {
+  const problems: string[] = [];
+  if (check.unsettableFields.length > 0 && !deferUnsettable) {
+    problems.push(`not on the create screen: ${check.unsettableFields.join(', ')} (set deferUnsettableFields to create the ticket and then set these fields with an update)`);
+  }
+  if (check.missingRequiredFields.length > 0) {
+    problems.push(`missing required field(s): ${check.missingRequiredFields.join(', ')}`);
+  }
+  for (const invalid of check.invalidValues) {
+    problems.push(`${invalid.field} does not allow ${invalid.values.map(value => `"${value}"`).join(', ')} (allowed values: ${invalid.allowedValues.join(', ')})`);
+  }
+  return problems;
+}
+
+/**
+ * Lists the problems found by a create screen pre-flight check by field, for the error's fieldErrors
+ */
+function describeCreateFieldErrors(check: CreateFieldCheck, deferUnsettable: boolean): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  if (!deferUnsettable) {
+    check.unsettableFields.forEach(field => { fieldErrors[field] = 'Not on the create screen'; });
+  }
+  check.missingRequiredFields.forEach(field => { fieldErrors[field] = 'Required'; });
+  for (const invalid of check.invalidValues) {
+    fieldErrors[invalid.field] = `Does not allow ${invalid.values.map(value => `"${value}"`).join(', ')} (allowed values: ${invalid.allowedValues.join(', ')})`;
+  }
+  return fieldErrors;
+}
+
+/**
+ * Hashes a create request, so a reused idempotency key can be told apart from a repeated request
+ */
+function fingerprintRequest(params: Record<string, any>): string {
+  const canonical = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]));
+    }
+    return value;
+  };
+  return createHash('sha256').update(JSON.stringify(canonical(params))).digest('hex');
+}
+
+/**
+ * Whether tickets are labelled with their idempotency key and searched for by summary and label
+ * when the key is not in the store (IDEMPOTENCY_JQL_FALLBACK)
+ */
+function useIdempotencyJqlFallback(): boolean {
+  return process.env.IDEMPOTENCY_JQL_FALLBACK === 'true';
+}
+
+/**
+ * Gets the label that marks a ticket with its idempotency key (keys are hashed, since labels cannot contain spaces)
+ */
+function getIdempotencyLabel(idempotencyKey: string): string {
+  return IDEMPOTENCY_LABEL_PREFIX + createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Adds the idempotency label to the ticket's labels, when the JQL duplicate check is enabled
+ */
+function addIdempotencyLabel(fields: Record<string, any>, idempotencyKey: string): void {
+  if (!useIdempotencyJqlFallback()) {
+    return;
+  }
+  const labelsField = Object.keys(fields).find(name => {
+    try {
+      return mapFieldNameToId(name) === 'labels';
+    } catch {
+      return false;
+    }
+  }) || 'labels';
+  const labels = fields[labelsField];
+  const existing = Array.isArray(labels)
+    ? labels
+    : typeof labels === 'string' ? labels.split(',').map(label => label.trim()).filter(label => label) : [];
+  fields[labelsField] = [...existing, getIdempotencyLabel(idempotencyKey)];
+}
+
+/**
+ * Finds a ticket created for an idempotency key by its label and summary (see IDEMPOTENCY_JQL_FALLBACK)
+ */
+async function findIdempotentDuplicate(idempotencyKey: string, summary: string): Promise<JiraIssue | null> {
+  const projectKey = getProjectKey();
+  const jql = `project = ${quoteJqlValue(projectKey)} AND labels = ${quoteJqlValue(getIdempotencyLabel(idempotencyKey))} ORDER BY created ASC`;
+  const { issues } = await jiraClient.instance.searchIssues(jql, {
+    fields: ['summary', 'description', 'issuetype', 'assignee'],
+    maxResults: 10
+  });
+  const duplicate = issues.find(issue => (issue.fields?.summary || '').trim() === summary.trim());
+  if (!duplicate) {
+    return null;
+  }
+  return {
+    key: duplicate.key,
+    summary: duplicate.fields.summary,
+    description: duplicate.fields.description ? adfToMarkdown(duplicate.fields.description) : '',
+    issueType: duplicate.fields.issuetype?.name || '',
+    assignee: duplicate.fields.assignee?.emailAddress || duplicate.fields.assignee?.displayName || 'Unassigned',
+    url: jiraClient.instance.getIssueUrl(duplicate.key)
+  };
+}
+
+/**
+ * Gets the store key for an idempotency key, scoped to the current tenant so tenants cannot replay each other's tickets
+ */
+function getIdempotencyStoreKey(idempotencyKey: string): string {
+  const tenant = getCurrentTenant();
+  return tenant ? `tenant:${tenant.id}:${idempotencyKey}` : idempotencyKey;
+}
+
+/**
+ * Claims an idempotency key before creating a ticket
+ * @param fingerprint - Hash of the request (see fingerprintRequest)
+ * @returns The ticket created by an earlier request with the same key, or null if this request should create it
+ * @throws JiraConflictError if the key was used for a different request, or the request that claimed it is still running
+ */
+async function claimIdempotencyKey(idempotencyKey: string, fingerprint: string, summary: string): Promise<JiraIssue | null> {
+  const store = idempotencyStore.instance;
+  const storeKey = getIdempotencyStoreKey(idempotencyKey);
+  const claim = { fingerprint, status: 'pending' as const, createdAt: Date.now() };
+  if (!(await store.add(storeKey, claim, IDEMPOTENCY_PENDING_TTL_MS))) {
+    const existing = await store.get(storeKey);
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new JiraConflictError(
+        `Idempotency key "${idempotencyKey}" was already used for a different request. Use a new key for a new ticket.`,
+        { idempotencyKey: 'Already used for a different request' }
+      );
+    }
+    if (existing && existing.status === 'completed') {
+      return { ...(existing.ticket as JiraIssue), replayed: true };
+    }
+    throw new JiraConflictError(`A request with idempotency key "${idempotencyKey}" is still in progress. Retry shortly to get its ticket.`);
+  }
+
+  if (useIdempotencyJqlFallback()) {
+    try {
+      const duplicate = await findIdempotentDuplicate(idempotencyKey, summary);
+      if (duplicate) {
+        await completeIdempotencyKey(idempotencyKey, fingerprint, duplicate);
+        return { ...duplicate, replayed: true };
       }
+    } catch (error) {
+      await store.delete(storeKey);
+      throw error;
     }
+  }
+  return null;
+}
+
+/**
+ * Records the ticket created for an idempotency key, for requests that repeat it
+ * The ticket exists at this point, so a failure to record it is logged rather than thrown
+ */
+async function completeIdempotencyKey(idempotencyKey: string, fingerprint: string, ticket: JiraIssue): Promise<void> {
+  try {
+    await idempotencyStore.instance.set(getIdempotencyStoreKey(idempotencyKey), {
+      fingerprint,
+      status: 'completed',
+      issueKey: ticket.key,
+      ticket,
+      createdAt: Date.now()
+    }, IDEMPOTENCY_TTL_MS);
+  } catch (error) {
+    console.warn(`Created ${ticket.key} but could not record idempotency key "${idempotencyKey}":`, error);
+  }
+}
 
-    // Create the ticket with all fields
-    const result = await jiraClient.instance.createIssue(allFields);
+/**
+ * Releases an idempotency key after a failed create, so the request can be retried
+ * When no response was received from JIRA the ticket may have been created, so the key stays
+ * claimed until it expires rather than allowing a duplicate
+ */
+async function releaseIdempotencyKey(idempotencyKey: string, error: unknown): Promise<void> {
+  if (error instanceof JiraError && error.code === 'JIRA_UNREACHABLE') {
+    return;
+  }
+  try {
+    await idempotencyStore.instance.delete(getIdempotencyStoreKey(idempotencyKey));
+  } catch (storeError) {
+    console.warn(`Could not release idempotency key "${idempotencyKey}":`, storeError);
+  }
+}
+
+/**
+ * Creates a ticket after checking its fields against the create screen for its issue type
+ * Fields that are not on the create screen are rejected, or with deferUnsettableFields set,
+ * left out of the create and applied with an update once the ticket exists
+ * With an idempotency key, a repeated request returns the ticket created the first time
+ */
+export async function createJiraTicket(params: CreateTicketParams): Promise<JiraIssue> {
+  const { idempotencyKey, ...ticketParams } = params;
+  const fingerprint = fingerprintRequest(ticketParams);
+  let claimed = false;
+  try {
+    const fields = buildTicketFields(ticketParams);
+    if (idempotencyKey) {
+      const existing = await claimIdempotencyKey(idempotencyKey, fingerprint, fields.summary);
+      if (existing) {
+        return existing;
+      }
+      claimed = true;
+      addIdempotencyLabel(fields, idempotencyKey);
+    }
+
+    const result = await createCheckedTicket(fields, params.deferUnsettableFields === true);
+    if (idempotencyKey) {
+      await completeIdempotencyKey(idempotencyKey, fingerprint, result);
+    }
     return result;
   } catch (error) {
-    // Enhanced error handling with specific guidance
-    if (error instanceof Error) {
-      if (error.message.includes('401')) {
-        throw new Error('Authentication failed. Please check your JIRA API token and email address.');
-      } else if (error.message.includes('403')) {
-        throw new Error('Access denied. Please ensure you have permission to create tickets in the DHK project.');
-      } else if (error.message.includes('404')) {
-        throw new Error('Project or issue type not found. Please verify the DHK project exists and the issue type is valid.');
-      } else if (error.message.includes('400')) {
-        // Parse JIRA error to check for field screen issues
-        const errorMessage = error.message;
-        if (errorMessage.includes('cannot be set') || errorMessage.includes('not on the appropriate screen')) {
-          throw new Error(`Some fields cannot be set because they are not on the create screen for this issue type. The ticket may have been created with standard fields only. Please check JIRA screen configuration or try updating the ticket after creation. Original error: ${errorMessage}`);
-        }
-        // Include the actual JIRA error message for debugging
-        const jiraError = error.message.includes('JIRA API Error') ? error.message : 'Invalid request data';
-        throw new Error(`${jiraError}. Please check your ticket summary, description, project key, and issue type.`);
-      } else if (error.message.includes('429')) {
-        throw new Error('Rate limit exceeded. Please wait a moment before creating another ticket.');
+    if (claimed) {
+      await releaseIdempotencyKey(idempotencyKey!, error);
+    }
+    throw translateCreateError(error);
+  }
+}
+
+/**
+ * Creates a ticket from built fields, checking them against the create screen first (see createJiraTicket)
+ */
+async function createCheckedTicket(fields: Record<string, any>, deferUnsettable: boolean): Promise<JiraIssue> {
+  // Pre-flight against createmeta so problems are reported before anything is created
+  const check = await jiraClient.instance.checkCreateFields(fields);
+  if (!check) {
+    return await jiraClient.instance.createIssue(fields);
+  }
+
+  const problems = describeCreateFieldProblems(check, deferUnsettable);
+  if (problems.length > 0) {
+    throw new JiraValidationError(
+      `Invalid fields for a ${check.issueType} in ${check.projectKey}: ${problems.join('; ')}`,
+      describeCreateFieldErrors(check, deferUnsettable)
+    );
+  }
+
+  const result: JiraIssue = await jiraClient.instance.createIssue(check.settableData, check.createScreen);
+  if (check.unsettableFields.length === 0) {
+    return result;
+  }
+
+  // The ticket exists at this point, so a failed update is reported rather than thrown
+  result.deferredFields = check.unsettableFields;
+  try {
+    await jiraClient.instance.updateIssue(result.key, check.deferredData);
+  } catch (error) {
+    result.deferredFieldsError = error instanceof Error ? error.message : 'Unknown error';
+  }
+  return result;
+}
+
+/**
+ * Builds the bulk create result for a ticket that was not created, with the error's code and field errors
+ */
+function failedBulkItem(index: number, ref: string | undefined, error: unknown): BulkCreateItemResult {
+  const failure = translateCreateError(error);
+  return {
+    index,
+    ref,
+    success: false,
+    error: failure.message,
+    code: failure.code,
+    ...(Object.keys(failure.fieldErrors).length > 0 ? { fieldErrors: failure.fieldErrors } : {})
+  };
+}
+
+/**
+ * Creates many tickets at once using JIRA's bulk create API
+ * Tickets with a parentRef are created after the batch item whose ref matches, with that
+ * ticket as their parent, so sub-tasks can be created alongside their parent story
+ * Tickets with an idempotency key are only created once; repeating the batch returns them as they were created
+ * @param items - Tickets to create
+ * @param idempotencyKey - Key for the whole batch; tickets without their own key use it with their index appended
+ * @returns Per-item success or failure, in the same order as items
+ */
+export async function bulkCreateJiraTickets(items: BulkCreateTicketParams[], idempotencyKey?: string): Promise<BulkCreateResult> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new JiraValidationError('At least one ticket must be provided for bulk creation');
+  }
+  if (items.length > MAX_BULK_CREATE_ITEMS) {
+    throw new JiraValidationError(`Invalid bulk request: at most ${MAX_BULK_CREATE_ITEMS} tickets can be created at once (received ${items.length})`);
+  }
+
+  const results: BulkCreateItemResult[] = new Array(items.length);
+
+  // Validate batch references before creating anything
+  const refIndexes = new Map<string, number>();
+  items.forEach((item, index) => {
+    if (item && item.ref) {
+      if (refIndexes.has(item.ref)) {
+        results[index] = failedBulkItem(index, item.ref, new JiraValidationError(`Duplicate ref "${item.ref}" in batch`, { ref: 'Duplicate' }));
       } else {
-        throw new Error(`Failed to create JIRA ticket: ${error.message}`);
+        refIndexes.set(item.ref, index);
+      }
+    }
+  });
+  items.forEach((item, index) => {
+    if (!results[index] && item && item.parentRef && !refIndexes.has(item.parentRef)) {
+      const message = `parentRef "${item.parentRef}" does not match the ref of any ticket in this batch`;
+      results[index] = failedBulkItem(index, item.ref, new JiraValidationError(message, { parentRef: message }));
+    }
+  });
+
+  // Create tickets in waves: those without a batch parent first, then their children
+  let pending = items.map((_, index) => index).filter(index => !results[index]);
+  while (pending.length > 0) {
+    const ready = pending.filter(index => {
+      const parentRef = items[index].parentRef;
+      return !parentRef || results[refIndexes.get(parentRef)!];
+    });
+    if (ready.length === 0) {
+      // Remaining items reference each other in a cycle
+      for (const index of pending) {
+        const message = 'parentRef forms a cycle within the batch';
+        results[index] = failedBulkItem(index, items[index].ref, new JiraValidationError(message, { parentRef: message }));
       }
+      break;
     }
-    throw new Error('An unexpected error occurred while creating the JIRA ticket');
+
+    const wave: Array<{ index: number; fields: Record<string, any>; idempotencyKey?: string; fingerprint: string }> = [];
+    for (const index of ready) {
+      const { ref, parentRef, idempotencyKey: itemKey, ...params } = items[index];
+      const key = itemKey || (idempotencyKey ? `${idempotencyKey}:${index}` : undefined);
+      const fingerprint = fingerprintRequest({ ...params, parentRef });
+      let claimed = false;
+      try {
+        const fields = buildTicketFields(params as CreateTicketParams);
+        if (parentRef) {
+          const parentResult = results[refIndexes.get(parentRef)!];
+          if (!parentResult.success) {
+            throw new JiraValidationError(`Parent ticket "${parentRef}" was not created`, { parentRef: 'Parent was not created' });
+          }
+          fields.parent = parentResult.ticket.key;
+        }
+        if (key) {
+          const existing = await claimIdempotencyKey(key, fingerprint, fields.summary);
+          if (existing) {
+            results[index] = { index, ref, success: true, ticket: existing };
+            continue;
+          }
+          claimed = true;
+          addIdempotencyLabel(fields, key);
+        }
+        wave.push({ index, fields, idempotencyKey: key, fingerprint });
+      } catch (error) {
+        if (claimed) {
+          await releaseIdempotencyKey(key!, error);
+        }
+        results[index] = failedBulkItem(index, ref, error);
+      }
+    }
+
+    if (wave.length > 0) {
+      let waveResults;
+      try {
+        waveResults = await jiraClient.instance.createIssues(wave.map(item => item.fields));
+      } catch (error) {
+        const failure = translateCreateError(error);
+        waveResults = wave.map(() => ({ success: false as const, error: failure }));
+      }
+      for (const [position, item] of wave.entries()) {
+        const result = waveResults[position];
+        if (item.idempotencyKey) {
+          await (result.success
+            ? completeIdempotencyKey(item.idempotencyKey, item.fingerprint, result.issue)
+            : releaseIdempotencyKey(item.idempotencyKey, result.error));
+        }
+        results[item.index] = result.success
+          ? { index: item.index, ref: items[item.index].ref, success: true, ticket: result.issue }
+          : failedBulkItem(item.index, items[item.index].ref, result.error);
+      }
+    }
+
+    pending = pending.filter(index => !results[index]);
   }
+
+  const succeeded = results.filter(result => result.success).length;
+  return {
+    total: items.length,
+    succeeded,
+    failed: items.length - succeeded,
+    results
+  };
 }
 
 export async function updateJiraTicket(params: UpdateTicketParams): Promise<UpdatedJiraIssue> {
   try {
     // Validate required fields
     if (!params.ticketKey || params.ticketKey.trim().length === 0) {
-      throw new Error('Ticket key is required and cannot be empty');
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
     }
 
     if (!params.fields || Object.keys(params.fields).length === 0) {
-      throw new Error('At least one field must be provided for update');
+      throw new JiraValidationError('At least one field must be provided for update');
     }
 
     // Validate ticket key format (e.g., "DHK-123")
-    const ticketKeyPattern = /^[A-Z]+-\d+$/;
-    if (!ticketKeyPattern.test(params.ticketKey.trim())) {
-      throw new Error(`Invalid ticket key format: ${params.ticketKey}. Expected format: PROJECT-123`);
-    }
+    validateTicketKey(params.ticketKey);
 
     // Update the ticket
     const result = await jiraClient.instance.updateIssue(params.ticketKey.trim(), params.fields);
     return result;
   } catch (error) {
-    // Enhanced error handling with specific guidance
-    if (error instanceof Error) {
-      if (error.message.includes('not found')) {
-        throw new Error(`Ticket ${params.ticketKey} not found or you don't have access to it. Please verify the ticket key is correct.`);
-      } else if (error.message.includes('401')) {
-        throw new Error('Authentication failed. Please check your JIRA API token and email address.');
-      } else if (error.message.includes('403')) {
-        throw new Error(`Access denied. You don't have permission to update ticket ${params.ticketKey}. Please contact the project administrator.`);
-      } else if (error.message.includes('400')) {
-        const jiraError = error.message.includes('JIRA API Error') ? error.message : 'Invalid field data';
-        throw new Error(`${jiraError}. Please check the field names and values you're trying to update.`);
-      } else if (error.message.includes('404')) {
-        throw new Error(`Ticket ${params.ticketKey} not found. Please verify the ticket key is correct.`);
-      } else if (error.message.includes('429')) {
-        throw new Error('Rate limit exceeded. Please wait a moment before updating another ticket.');
-      } else {
-        throw new Error(`Failed to update JIRA ticket: ${error.message}`);
+    throw translateJiraError(error, `update ticket ${params.ticketKey}`, {
+      PERMISSION_DENIED: `Access denied. You don't have permission to update ticket ${params.ticketKey}. Please contact the project administrator.`,
+      NOT_FOUND: `Ticket ${params.ticketKey} not found or you don't have access to it. Please verify the ticket key is correct.`,
+      VALIDATION_FAILED: error => `Invalid field data: ${describeJiraProblems(error)}. Please check the field names and values you're trying to update.`
+    });
+  }
+}
+
+
+// Fields always included in search summaries
+const SUMMARY_FIELD_IDS = ['summary', 'status', 'issuetype', 'priority', 'assignee', 'labels', 'created', 'updated'];
+
+// Relative dates like "-7d" or "-2w", or absolute dates like "2026-10-01" / "2026-10-01 09:30"
+const JQL_DATE_PATTERN = /^(-?\d+[wdhm]|\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?)$/;
+
+/**
+ * Quotes a value for use in a JQL clause
+ */
+function quoteJqlValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Builds an "in (...)" or "=" clause for a single or multi-valued filter
+ */
+function buildJqlListClause(field: string, value: string | string[]): string {
+  const values = (Array.isArray(value) ? value : value.split(','))
+    .map(v => v.trim())
+    .filter(v => v.length > 0);
+  if (values.length === 1) {
+    return `${field} = ${quoteJqlValue(values[0])}`;
+  }
+  return `${field} in (${values.map(quoteJqlValue).join(', ')})`;
+}
+
+/**
+ * Builds a date range clause, validating the JQL date format
+ */
+function buildJqlDateClause(field: string, operator: '>=' | '<=', value: string): string {
+  const trimmed = value.trim();
+  if (!JQL_DATE_PATTERN.test(trimmed)) {
+    throw new JiraValidationError(`Invalid date for ${field}: ${value}. Expected format: YYYY-MM-DD, "YYYY-MM-DD HH:mm" or a relative date like -7d`);
+  }
+  return `${field} ${operator} ${quoteJqlValue(trimmed)}`;
+}
+
+/**
+ * Builds a JQL query from structured search filters
+ * @param params - Structured filters (assignee, status, labels, issue type, date ranges)
+ * @returns JQL query string
+ */
+export function buildSearchJql(params: SearchTicketsParams): string {
+  const clauses: string[] = [];
+  const projectKey = params.projectKey || getProjectKey();
+  clauses.push(`project = ${quoteJqlValue(projectKey)}`);
+
+  if (params.assignee) {
+    const assignee = params.assignee.trim();
+    if (['me', 'currentuser', 'currentuser()'].includes(assignee.toLowerCase())) {
+      clauses.push('assignee = currentUser()');
+    } else if (['unassigned', 'none', 'empty'].includes(assignee.toLowerCase())) {
+      clauses.push('assignee is EMPTY');
+    } else {
+      clauses.push(`assignee = ${quoteJqlValue(assignee)}`);
+    }
+  }
+  if (params.status) {
+    clauses.push(buildJqlListClause('status', params.status));
+  }
+  if (params.issueType) {
+    clauses.push(buildJqlListClause('issuetype', params.issueType));
+  }
+  if (params.labels) {
+    clauses.push(buildJqlListClause('labels', params.labels));
+  }
+  if (params.createdAfter) {
+    clauses.push(buildJqlDateClause('created', '>=', params.createdAfter));
+  }
+  if (params.createdBefore) {
+    clauses.push(buildJqlDateClause('created', '<=', params.createdBefore));
+  }
+  if (params.updatedAfter) {
+    clauses.push(buildJqlDateClause('updated', '>=', params.updatedAfter));
+  }
+  if (params.updatedBefore) {
+    clauses.push(buildJqlDateClause('updated', '<=', params.updatedBefore));
+  }
+
+  const orderBy = params.orderBy && params.orderBy.trim() ? params.orderBy.trim() : 'updated DESC';
+  return `${clauses.join(' AND ')} ORDER BY ${orderBy}`;
+}
+
+/**
+ * Reduces a JIRA field value to something compact and readable
+ * (user objects become display names, option objects become their value, etc.)
+ */
+function simplifyFieldValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(simplifyFieldValue);
+  }
+  if (typeof value === 'object') {
+    if (value.type === 'doc') {
+      return adfToMarkdown(value); // Rich text fields are rendered as markdown
+    }
+    return value.displayName ?? value.name ?? value.value ?? value.key ?? value;
+  }
+  return value;
+}
+
+/**
+ * Maps the additional fields a caller asked for (a list or a comma separated string) to JIRA field IDs
+ * Field metadata must be loaded first (ensureFieldMetadata)
+ */
+function resolveRequestedFields(fields: string | string[] | undefined): Array<{ name: string; id: string }> {
+  if (fields === undefined || fields === null) {
+    return [];
+  }
+  const names = typeof fields === 'string' ? fields.split(',') : fields;
+  if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) {
+    const message = `Invalid fields: ${JSON.stringify(fields)}. Expected a list of field names (e.g., ["storyPoints", "dueDate"]) or a comma separated string`;
+    throw new JiraValidationError(message, { fields: message });
+  }
+  const unique = new Set(names.map(name => name.trim()).filter(name => name.length > 0));
+  return Array.from(unique, name => ({ name, id: mapFieldNameToId(name) }));
+}
+
+export async function searchJiraTickets(params: SearchTicketsParams): Promise<SearchTicketsResult> {
+  try {
+    const jql = params.jql && params.jql.trim() ? params.jql.trim() : buildSearchJql(params);
+
+    const maxResults = params.maxResults ?? 50;
+    if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > 500) {
+      throw new JiraValidationError(`Invalid maxResults: ${params.maxResults}. Expected a whole number between 1 and 500`);
+    }
+
+    // Map requested friendly field names to JIRA field IDs
+    await jiraClient.instance.ensureFieldMetadata();
+    const extraFields = resolveRequestedFields(params.fields);
+    const fieldIds = Array.from(new Set([...SUMMARY_FIELD_IDS, ...extraFields.map(f => f.id)]));
+
+    // Search pages do not say how many tickets match, so they are counted alongside (best effort)
+    const [result, matching] = await Promise.all([
+      jiraClient.instance.searchIssues(jql, {
+        fields: fieldIds,
+        maxResults,
+        nextPageToken: params.nextPageToken
+      }),
+      jiraClient.instance.countIssues(jql).catch(error => {
+        console.warn('Could not count the JIRA tickets matching the search:', error);
+        return undefined;
+      })
+    ]);
+
+    const tickets: JiraTicketSummary[] = result.issues.map(issue => {
+      const fields = issue.fields || {};
+      const ticket: JiraTicketSummary = {
+        key: issue.key,
+        summary: fields.summary || '',
+        status: fields.status?.name || '',
+        issueType: fields.issuetype?.name || '',
+        priority: fields.priority?.name || null,
+        assignee: fields.assignee ? (fields.assignee.emailAddress || fields.assignee.displayName) : null,
+        labels: fields.labels || [],
+        created: fields.created,
+        updated: fields.updated,
+        url: jiraClient.instance.getIssueUrl(issue.key)
+      };
+      for (const field of extraFields) {
+        if (!(field.name in ticket)) {
+          ticket[field.name] = simplifyFieldValue(fields[field.id]);
+        }
       }
+      return ticket;
+    });
+
+    // A single, complete page is an exact count
+    const complete = !params.nextPageToken && result.isLast;
+    return {
+      jql,
+      count: tickets.length,
+      total: complete ? tickets.length : matching,
+      tickets,
+      nextPageToken: result.nextPageToken,
+      isLast: result.isLast
+    };
+  } catch (error) {
+    throw translateJiraError(error, 'search JIRA tickets', {
+      PERMISSION_DENIED: 'Access denied. Please ensure you have permission to browse the requested project.',
+      VALIDATION_FAILED: error => `Invalid search query: ${describeJiraProblems(error)}. Please check the JQL syntax, field names and filter values.`
+    });
+  }
+}
+
+/**
+ * Gets a ticket with its description and newest comments rendered as markdown
+ * @param params - Ticket key, additional fields and how many comments to include
+ */
+export async function getJiraTicket(params: GetTicketParams): Promise<JiraTicketDetails> {
+  try {
+    if (!params.ticketKey || params.ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    validateTicketKey(params.ticketKey);
+
+    const maxComments = params.maxComments ?? 20;
+    if (!Number.isInteger(maxComments) || maxComments < 0 || maxComments > 100) {
+      throw new JiraValidationError(`Invalid maxComments: ${params.maxComments}. Expected a whole number between 0 and 100`);
+    }
+
+    // Map requested friendly field names to JIRA field IDs
+    await jiraClient.instance.ensureFieldMetadata();
+    const extraFields = resolveRequestedFields(params.fields);
+    const fieldIds = Array.from(new Set([
+      ...SUMMARY_FIELD_IDS,
+      'description',
+      'reporter',
+      'parent',
+      ...extraFields.map(f => f.id)
+    ]));
+
+    const key = params.ticketKey.trim();
+    const issue = await jiraClient.instance.getIssue(key, fieldIds);
+    const comments = maxComments > 0
+      ? await jiraClient.instance.getComments(key, maxComments)
+      : { comments: [], total: 0 };
+
+    const fields = issue.fields || {};
+    const ticket: JiraTicketDetails = {
+      key: issue.key,
+      summary: fields.summary || '',
+      status: fields.status?.name || '',
+      issueType: fields.issuetype?.name || '',
+      priority: fields.priority?.name || null,
+      assignee: fields.assignee ? (fields.assignee.emailAddress || fields.assignee.displayName) : null,
+      reporter: fields.reporter ? (fields.reporter.emailAddress || fields.reporter.displayName) : null,
+      labels: fields.labels || [],
+      parent: fields.parent?.key || null,
+      created: fields.created,
+      updated: fields.updated,
+      url: jiraClient.instance.getIssueUrl(issue.key),
+      description: adfToMarkdown(fields.description),
+      totalComments: comments.total,
+      comments: comments.comments.map(comment => toJiraComment(issue.key, comment))
+    };
+    for (const field of extraFields) {
+      if (!(field.name in ticket)) {
+        ticket[field.name] = simplifyFieldValue(fields[field.id]);
+      }
+    }
+    return ticket;
+  } catch (error) {
+    throw translateJiraError(error, `get ticket ${params.ticketKey}`, {
+      NOT_FOUND: `Ticket ${params.ticketKey} not found or you don't have access to it. Please verify the ticket key is correct.`
+    });
+  }
+}
+
+/**
+ * Finds the transition matching a requested status name
+ * Matches the target status or the transition name, case-insensitively and ignoring
+ * spaces/underscores/hyphens, then falls back to a unique partial match
+ */
+function findTransition<T extends { name: string; to: { name: string } }>(transitions: T[], requested: string): T[] {
+  const wanted = normalizeFieldName(requested);
+
+  const exact = transitions.filter(t => normalizeFieldName(t.to.name) === wanted);
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const byTransitionName = transitions.filter(t => normalizeFieldName(t.name) === wanted);
+  if (byTransitionName.length > 0) {
+    return byTransitionName;
+  }
+
+  return transitions.filter(t =>
+    normalizeFieldName(t.to.name).includes(wanted) || wanted.includes(normalizeFieldName(t.to.name))
+  );
+}
+
+export async function listJiraTransitions(ticketKey: string): Promise<AvailableTransitions> {
+  try {
+    if (!ticketKey || ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    validateTicketKey(ticketKey);
+
+    const key = ticketKey.trim();
+    const issue = await jiraClient.instance.getIssue(key);
+    const transitions = await jiraClient.instance.getTransitions(key);
+
+    return {
+      key,
+      currentStatus: issue.fields?.status?.name || '',
+      transitions: transitions.map(t => ({
+        id: t.id,
+        name: t.name,
+        toStatus: t.to.name,
+        requiredFields: Object.entries(t.fields || {})
+          .filter(([, field]) => field.required)
+          .map(([fieldId, field]) => field.name || fieldId)
+      }))
+    };
+  } catch (error) {
+    throw translateJiraError(error, `list transitions for ticket ${ticketKey}`, {
+      NOT_FOUND: `Ticket ${ticketKey} not found or you don't have access to it. Please verify the ticket key is correct.`
+    });
+  }
+}
+
+export async function transitionJiraTicket(params: TransitionTicketParams): Promise<TransitionedJiraIssue> {
+  try {
+    // Validate required fields
+    if (!params.ticketKey || params.ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    if (!params.status || params.status.trim().length === 0) {
+      throw new JiraValidationError('Target status is required and cannot be empty');
+    }
+    validateTicketKey(params.ticketKey);
+
+    const key = params.ticketKey.trim();
+    const issue = await jiraClient.instance.getIssue(key);
+    const currentStatus = issue.fields?.status?.name || '';
+    const transitions = await jiraClient.instance.getTransitions(key);
+
+    const matches = findTransition(transitions, params.status);
+    const available = transitions.map(t => `"${t.to.name}" (via ${t.name})`).join(', ') || 'none';
+
+    if (matches.length === 0) {
+      if (normalizeFieldName(currentStatus) === normalizeFieldName(params.status)) {
+        throw new JiraConflictError(`Ticket ${key} is already in status "${currentStatus}".`);
+      }
+      const message = `Status "${params.status}" is not reachable from "${currentStatus}" for ticket ${key}. Available transitions: ${available}`;
+      throw new JiraConflictError(message, { status: message });
+    }
+    if (matches.length > 1 && new Set(matches.map(t => t.to.name)).size > 1) {
+      const message = `Status "${params.status}" is ambiguous for ticket ${key}. Matching statuses: ${matches.map(t => `"${t.to.name}"`).join(', ')}`;
+      throw new JiraConflictError(message, { status: message });
+    }
+    const transition = matches[0];
+
+    // Collect transition screen fields, including resolution
+    const fields: Record<string, any> = { ...(params.fields || {}) };
+    if (params.resolution) {
+      fields.resolution = params.resolution;
     }
-    throw new Error('An unexpected error occurred while updating the JIRA ticket');
+
+    // Report required screen fields that were not supplied and have no default
+    await jiraClient.instance.ensureFieldMetadata();
+    const suppliedFieldIds = Object.keys(fields).map(name => mapFieldNameToId(name));
+    const missingFields = Object.entries(transition.fields || {})
+      .filter(([fieldId, field]) => field.required && !field.hasDefaultValue && !suppliedFieldIds.includes(fieldId))
+      .map(([fieldId, field]) => field.name || fieldId);
+    if (missingFields.length > 0) {
+      throw new JiraValidationError(
+        `Invalid transition request: moving ${key} to "${transition.to.name}" requires these fields: ${missingFields.join(', ')}`,
+        Object.fromEntries(missingFields.map(field => [field, 'Required']))
+      );
+    }
+
+    const result = await jiraClient.instance.transitionIssue(key, transition.id, fields);
+
+    return {
+      key: result.key,
+      url: result.url,
+      fromStatus: currentStatus,
+      toStatus: transition.to.name,
+      transition: transition.name,
+      updatedFields: result.updatedFields
+    };
+  } catch (error) {
+    throw translateJiraError(error, `transition ticket ${params.ticketKey}`, {
+      PERMISSION_DENIED: `Access denied. You don't have permission to transition ticket ${params.ticketKey}. Please contact the project administrator.`,
+      NOT_FOUND: `Ticket ${params.ticketKey} not found or you don't have access to it. Please verify the ticket key is correct.`,
+      VALIDATION_FAILED: error => `Invalid transition data: ${describeJiraProblems(error)}. Please check the resolution and transition screen field values.`
+    });
+  }
+}
+
+/**
+ * Builds comment visibility from role/group restrictions
+ */
+function buildCommentVisibility(params: { visibilityRole?: string; visibilityGroup?: string }): CommentVisibility | undefined {
+  if (params.visibilityRole && params.visibilityGroup) {
+    throw new JiraValidationError('Invalid comment visibility: restrict to either a role or a group, not both');
+  }
+  if (params.visibilityRole && params.visibilityRole.trim()) {
+    return { type: 'role', value: params.visibilityRole.trim() };
+  }
+  if (params.visibilityGroup && params.visibilityGroup.trim()) {
+    return { type: 'group', value: params.visibilityGroup.trim() };
   }
+  return undefined;
 }
 
+/**
+ * Converts a JIRA comment into a compact summary with a markdown body
+ */
+function toJiraComment(ticketKey: string, comment: any): JiraComment {
+  return {
+    id: comment.id,
+    author: comment.author?.displayName || comment.author?.emailAddress || 'Unknown',
+    created: comment.created,
+    updated: comment.updated,
+    body: adfToMarkdown(comment.body),
+    visibility: comment.visibility ? `${comment.visibility.type}: ${comment.visibility.value}` : null,
+    url: `${jiraClient.instance.getIssueUrl(ticketKey)}?focusedCommentId=${comment.id}`
+  };
+}
+
+/**
+ * Validates the ticket key and, where needed, the comment ID and body for comment tools
+ */
+function validateCommentParams(ticketKey: string, options: { commentId?: string; body?: string; requireId?: boolean; requireBody?: boolean }): void {
+  if (!ticketKey || ticketKey.trim().length === 0) {
+    throw new JiraValidationError('Ticket key is required and cannot be empty');
+  }
+  validateTicketKey(ticketKey);
+  if (options.requireId && (!options.commentId || !/^\d+$/.test(String(options.commentId).trim()))) {
+    throw new JiraValidationError(`Invalid comment ID: ${options.commentId}. Expected a numeric comment ID`);
+  }
+  if (options.requireBody && (!options.body || options.body.trim().length === 0)) {
+    throw new JiraValidationError('Comment body is required and cannot be empty');
+  }
+}
+
+/**
+ * Translates JIRA API errors from comment operations into user-facing guidance
+ */
+function translateCommentError(error: unknown, ticketKey: string, action: string): JiraError {
+  return translateJiraError(error, action, {
+    PERMISSION_DENIED: `Access denied. You don't have permission to ${action} on ticket ${ticketKey}.`,
+    NOT_FOUND: `Ticket ${ticketKey} or the requested comment was not found, or you don't have access to it.`,
+    VALIDATION_FAILED: error => `Invalid comment data: ${describeJiraProblems(error)}. Please check the comment body and visibility role or group.`
+  });
+}
+
+export async function addJiraComment(params: CommentParams): Promise<JiraComment> {
+  try {
+    validateCommentParams(params.ticketKey, { body: params.body, requireBody: true });
+    const key = params.ticketKey.trim();
+    const comment = await jiraClient.instance.addComment(key, params.body, buildCommentVisibility(params));
+    return toJiraComment(key, comment);
+  } catch (error) {
+    throw translateCommentError(error, params.ticketKey, 'add a comment');
+  }
+}
+
+export async function listJiraComments(ticketKey: string, maxResults: number = 20): Promise<JiraCommentList> {
+  try {
+    validateCommentParams(ticketKey, {});
+    if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > 100) {
+      throw new JiraValidationError(`Invalid maxResults: ${maxResults}. Expected a whole number between 1 and 100`);
+    }
+    const key = ticketKey.trim();
+    const result = await jiraClient.instance.getComments(key, maxResults);
+    return {
+      key,
+      total: result.total,
+      comments: result.comments.map(comment => toJiraComment(key, comment))
+    };
+  } catch (error) {
+    throw translateCommentError(error, ticketKey, 'list comments');
+  }
+}
+
+export async function updateJiraComment(params: CommentParams): Promise<JiraComment> {
+  try {
+    validateCommentParams(params.ticketKey, { commentId: params.commentId, body: params.body, requireId: true, requireBody: true });
+    const key = params.ticketKey.trim();
+    const comment = await jiraClient.instance.updateComment(key, String(params.commentId).trim(), params.body, buildCommentVisibility(params));
+    return toJiraComment(key, comment);
+  } catch (error) {
+    throw translateCommentError(error, params.ticketKey, 'edit the comment');
+  }
+}
+
+export async function deleteJiraComment(ticketKey: string, commentId: string): Promise<{ key: string; commentId: string }> {
+  try {
+    validateCommentParams(ticketKey, { commentId, requireId: true });
+    const key = ticketKey.trim();
+    await jiraClient.instance.deleteComment(key, String(commentId).trim());
+    return { key, commentId: String(commentId).trim() };
+  } catch (error) {
+    throw translateCommentError(error, ticketKey, 'delete the comment');
+  }
+}
+
+/**
+ * Resolves a link type by name or by its inward/outward description
+ * e.g., "Blocks", "blocks" and "is blocked by" all resolve to the Blocks link type
+ * @returns The link type and whether the ticket is on the inward side of the relationship
+ */
+async function resolveLinkType(requested: string): Promise<{ name: string; relationship: string; reversed: boolean }> {
+  const linkTypes = await jiraClient.instance.getIssueLinkTypes();
+  const wanted = normalizeFieldName(requested);
+
+  for (const linkType of linkTypes) {
+    if (normalizeFieldName(linkType.name) === wanted || normalizeFieldName(linkType.outward) === wanted) {
+      return { name: linkType.name, relationship: linkType.outward, reversed: false };
+    }
+  }
+  for (const linkType of linkTypes) {
+    if (normalizeFieldName(linkType.inward) === wanted) {
+      return { name: linkType.name, relationship: linkType.inward, reversed: true };
+    }
+  }
+
+  const available = linkTypes.map(t => `"${t.outward}" / "${t.inward}"`).join(', ');
+  throw new JiraValidationError(`Invalid link type: ${requested}. Available link types: ${available}`);
+}
+
+/**
+ * Translates JIRA API errors from link operations into user-facing guidance
+ */
+function translateLinkError(error: unknown, ticketKey: string, action: string): JiraError {
+  return translateJiraError(error, action, {
+    PERMISSION_DENIED: `Access denied. You don't have permission to ${action} for ticket ${ticketKey}. Linking requires the Link Issues permission.`,
+    NOT_FOUND: `Ticket ${ticketKey} or a related ticket was not found, or you don't have access to it.`,
+    VALIDATION_FAILED: error => `Invalid link request: ${describeJiraProblems(error)}. Please check the ticket keys and link type.`
+  });
+}
+
+/**
+ * Converts an issue link from an issue's "issuelinks" field into a compact summary
+ */
+function toLinkedTicket(link: any): JiraLinkedTicket {
+  const outward = Boolean(link.outwardIssue);
+  const linked = outward ? link.outwardIssue : link.inwardIssue;
+  return {
+    linkId: link.id,
+    linkType: link.type?.name || '',
+    direction: outward ? 'outward' : 'inward',
+    relationship: outward ? link.type?.outward : link.type?.inward,
+    key: linked.key,
+    summary: linked.fields?.summary || '',
+    status: linked.fields?.status?.name || '',
+    url: jiraClient.instance.getIssueUrl(linked.key)
+  };
+}
+
+export async function linkJiraTickets(params: LinkTicketsParams): Promise<{ key: string; linkType: string; relationship: string; targetKey: string }> {
+  try {
+    if (!params.ticketKey || !params.targetKey || !params.linkType) {
+      throw new JiraValidationError('Ticket key, link type and target key are required and cannot be empty');
+    }
+    validateTicketKey(params.ticketKey);
+    validateTicketKey(params.targetKey);
+
+    const key = params.ticketKey.trim();
+    const targetKey = params.targetKey.trim();
+    if (key === targetKey) {
+      throw new JiraValidationError(`Invalid link request: a ticket cannot be linked to itself (${key})`);
+    }
+
+    const linkType = await resolveLinkType(params.linkType);
+    if (linkType.reversed) {
+      await jiraClient.instance.createIssueLink(linkType.name, targetKey, key);
+    } else {
+      await jiraClient.instance.createIssueLink(linkType.name, key, targetKey);
+    }
+
+    return {
+      key,
+      linkType: linkType.name,
+      relationship: linkType.relationship,
+      targetKey
+    };
+  } catch (error) {
+    throw translateLinkError(error, params.ticketKey, 'link tickets');
+  }
+}
+
+export async function unlinkJiraTickets(params: UnlinkTicketsParams): Promise<{ key: string; removedLinks: JiraLinkedTicket[] }> {
+  try {
+    if (!params.ticketKey || params.ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    if (!params.linkId && !params.targetKey) {
+      throw new JiraValidationError('Invalid unlink request: provide either a linkId or the targetKey of the linked ticket');
+    }
+    validateTicketKey(params.ticketKey);
+
+    const key = params.ticketKey.trim();
+    const issue = await jiraClient.instance.getIssue(key);
+    const links: JiraLinkedTicket[] = (issue.fields?.issuelinks || []).map(toLinkedTicket);
+
+    let matches = links;
+    if (params.linkId) {
+      matches = matches.filter(link => link.linkId === String(params.linkId).trim());
+    }
+    if (params.targetKey) {
+      matches = matches.filter(link => link.key === params.targetKey!.trim().toUpperCase());
+    }
+    if (params.linkType) {
+      const wanted = normalizeFieldName(params.linkType);
+      matches = matches.filter(link =>
+        normalizeFieldName(link.linkType) === wanted || normalizeFieldName(link.relationship) === wanted
+      );
+    }
+
+    if (matches.length === 0) {
+      throw new JiraNotFoundError(`Link not found on ${key} for the given link ID, target key or link type. Use get_jira_ticket_links to see the existing links.`);
+    }
+
+    for (const link of matches) {
+      await jiraClient.instance.deleteIssueLink(link.linkId);
+    }
+
+    return { key, removedLinks: matches };
+  } catch (error) {
+    throw translateLinkError(error, params.ticketKey, 'remove the link');
+  }
+}
+
+export async function setJiraParent(ticketKey: string, parentKey: string): Promise<UpdatedJiraIssue> {
+  try {
+    if (!ticketKey || !parentKey || ticketKey.trim().length === 0 || parentKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key and parent key are required and cannot be empty');
+    }
+    validateTicketKey(ticketKey);
+    validateTicketKey(parentKey);
+    if (ticketKey.trim() === parentKey.trim()) {
+      throw new JiraValidationError(`Invalid parent: a ticket cannot be its own parent (${ticketKey})`);
+    }
+
+    return await jiraClient.instance.updateIssue(ticketKey.trim(), { parent: parentKey.trim() });
+  } catch (error) {
+    throw translateLinkError(error, ticketKey, 'set the parent');
+  }
+}
+
+export async function getJiraTicketLinks(ticketKey: string): Promise<JiraTicketLinks> {
+  try {
+    if (!ticketKey || ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    validateTicketKey(ticketKey);
+
+    const key = ticketKey.trim();
+    const issue = await jiraClient.instance.getIssue(key);
+    const fields = issue.fields || {};
+    const links: JiraLinkedTicket[] = (fields.issuelinks || []).map(toLinkedTicket);
+
+    // Children include sub-tasks and, for epics, the issues in the epic
+    const children = await jiraClient.instance.searchIssues(`parent = ${key} ORDER BY key ASC`, {
+      fields: ['summary', 'status', 'issuetype'],
+      maxResults: 100
+    });
+
+    return {
+      key,
+      summary: fields.summary || '',
+      parent: fields.parent ? {
+        key: fields.parent.key,
+        summary: fields.parent.fields?.summary || '',
+        issueType: fields.parent.fields?.issuetype?.name || ''
+      } : null,
+      children: children.issues.map(child => ({
+        key: child.key,
+        summary: child.fields?.summary || '',
+        status: child.fields?.status?.name || '',
+        issueType: child.fields?.issuetype?.name || ''
+      })),
+      outward: links.filter(link => link.direction === 'outward'),
+      inward: links.filter(link => link.direction === 'inward')
+    };
+  } catch (error) {
+    throw translateLinkError(error, ticketKey, 'read ticket links');
+  }
+}
+
+/**
+ * Translates JIRA API errors from attachment operations into user-facing guidance
+ */
+function translateAttachmentError(error: unknown, target: string, action: string): JiraError {
+  return translateJiraError(error, action, {
+    PERMISSION_DENIED: `Access denied. You don't have permission to ${action} for ${target}. Attaching files requires the Create Attachments permission, and attachments must be enabled on the instance.`,
+    NOT_FOUND: `${target} was not found, or you don't have access to it.`,
+    VALIDATION_FAILED: error => error.status === 413
+      ? `Invalid attachment: the file is larger than JIRA's attachment size limit.`
+      : `Invalid attachment request: ${describeJiraProblems(error)}`
+  });
+}
+
+/**
+ * Converts JIRA attachment metadata into a compact summary
+ */
+function toJiraAttachment(attachment: any): JiraAttachment {
+  const mimeType = attachment.mimeType || 'application/octet-stream';
+  return {
+    id: String(attachment.id),
+    filename: attachment.filename,
+    mimeType,
+    size: attachment.size,
+    created: attachment.created,
+    author: attachment.author?.displayName || attachment.author?.emailAddress || 'Unknown',
+    contentUrl: attachment.content,
+    ...(mimeType.startsWith('image/') ? { embedMarkdown: `![${attachment.filename}](attachment:${attachment.id})` } : {})
+  };
+}
+
+// Addresses attachment URLs may not reach: loopback, private, link-local, shared, reserved and multicast ranges,
+// and the IPv6 forms that embed an IPv4 address (mapped, compatible, NAT64 and 6to4)
+const BLOCKED_ADDRESSES = new BlockList();
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+];
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d, also written ::ffff:xxxx:xxxx) reaches the same address
+  BLOCKED_ADDRESSES.addSubnet(`::ffff:${network}`, 96 + prefix, 'ipv6');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible addresses
+  ['64:ff9b::', 96], ['64:ff9b:1::', 48], // NAT64
+  ['100::', 64], ['2001::', 23], ['2001:db8::', 32], ['2002::', 16], // Discard, IETF (Teredo), documentation, 6to4
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8] // Unique local, link-local, site-local, multicast
+] as Array<[string, number]>) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for attachment downloads that fails when the host resolves to a private address, so the
+ * connection is made to the address that was checked (a second lookup could be answered differently)
+ */
+function lookupPublicAddress(hostname: string, options: LookupOptions, callback: (...args: any[]) => void): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new JiraValidationError(`Invalid attachment URL: ${hostname} is not a public address`));
+    }
+    return options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Sends a GET request to a public http(s) URL without following redirects
+ * IP address hosts are checked here; host names are checked as they are resolved (see lookupPublicAddress)
+ */
+function getPublicUrl(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    return Promise.reject(new JiraValidationError(`Invalid attachment URL: ${url.host} is not a public address`));
+  }
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    client.get(url, { signal, lookup: lookupPublicAddress }, resolve).on('error', reject);
+  });
+}
+
+/**
+ * Fetches a file from a public http(s) URL for attaching, following redirects
+ * Hosts that resolve to private addresses are refused (on every redirect), and the download stops at maxBytes
+ */
+async function fetchAttachmentSource(url: string, maxBytes: number): Promise<{ content: Buffer; fileName: string; mimeType?: string }> {
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new JiraValidationError(`Invalid attachment URL: ${url}`);
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ATTACHMENT_FETCH_TIMEOUT_MS);
+  try {
+    for (let redirects = 0; ; redirects++) {
+      if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+        throw new JiraValidationError(`Invalid attachment URL: ${current.href}. Only http and https URLs can be fetched`);
+      }
+
+      const response = await getPublicUrl(current, controller.signal);
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirects >= ATTACHMENT_FETCH_MAX_REDIRECTS) {
+          throw new JiraValidationError(`Invalid attachment URL: ${url} redirected more than ${ATTACHMENT_FETCH_MAX_REDIRECTS} times`);
+        }
+        current = new URL(location, current);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new JiraValidationError(`Invalid attachment URL: ${current.href} responded with HTTP ${status}`);
+      }
+
+      const declaredSize = Number(response.headers['content-length']);
+      if (declaredSize > maxBytes) {
+        response.destroy();
+        throw new JiraValidationError(`Invalid attachment: ${current.href} is ${declaredSize} bytes, more than the ${maxBytes} byte limit`);
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of response) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          throw new JiraValidationError(`Invalid attachment: ${current.href} is more than the ${maxBytes} byte limit`);
+        }
+        chunks.push(chunk);
+      }
+
+      const disposition = response.headers['content-disposition'] || '';
+      const dispositionName = disposition.match(/filename\*=UTF-8''([^;]+)|filename="?([^";]+)"?/i);
+      const pathName = decodeURIComponent(current.pathname.split('/').pop() || '');
+      return {
+        content: Buffer.concat(chunks),
+        fileName: dispositionName ? decodeURIComponent(dispositionName[1] || dispositionName[2]) : pathName || 'attachment',
+        mimeType: response.headers['content-type']?.split(';')[0].trim() || undefined
+      };
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new JiraValidationError(`Invalid attachment URL: ${url} did not respond within ${ATTACHMENT_FETCH_TIMEOUT_MS / 1000} seconds`);
+    }
+    if (error instanceof Error && !(error instanceof JiraError)) {
+      throw new JiraValidationError(`Invalid attachment URL: ${url} could not be fetched (${error.message})`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Attaches a file to a ticket, from base64 content or a URL fetched by the server
+ * @returns The created attachments, with markdown to embed images in the description or a comment
+ */
+export async function attachJiraFile(params: AttachFileParams): Promise<{ key: string; attachments: JiraAttachment[] }> {
+  try {
+    if (!params.ticketKey || params.ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    validateTicketKey(params.ticketKey);
+    if (Boolean(params.content) === Boolean(params.url)) {
+      throw new JiraValidationError('Invalid attachment: provide either base64 content or a url (exactly one of them)');
+    }
+
+    let file: { content: Buffer; fileName: string; mimeType?: string };
+    if (params.url) {
+      file = await fetchAttachmentSource(params.url.trim(), MAX_ATTACHMENT_BYTES);
+    } else {
+      if (!params.fileName || params.fileName.trim().length === 0) {
+        throw new JiraValidationError('Invalid attachment: fileName is required with base64 content');
+      }
+      const base64 = params.content!.replace(/^data:[^;,]*;base64,/, '').replace(/\s+/g, '');
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) && !/^[A-Za-z0-9_-]*={0,2}$/.test(base64)) {
+        throw new JiraValidationError('Invalid attachment: content is not valid base64');
+      }
+      file = { content: Buffer.from(base64, 'base64'), fileName: params.fileName.trim() };
+    }
+
+    if (file.content.length === 0) {
+      throw new JiraValidationError('Invalid attachment: the file is empty');
+    }
+    if (file.content.length > MAX_ATTACHMENT_BYTES) {
+      throw new JiraValidationError(`Invalid attachment: the file is ${file.content.length} bytes, more than the ${MAX_ATTACHMENT_BYTES} byte limit`);
+    }
+
+    const key = params.ticketKey.trim();
+    const attachments = await jiraClient.instance.addAttachment(
+      key,
+      params.fileName?.trim() || file.fileName,
+      file.content,
+      params.mimeType?.trim() || file.mimeType
+    );
+    return { key, attachments: attachments.map(toJiraAttachment) };
+  } catch (error) {
+    throw translateAttachmentError(error, `Ticket ${params.ticketKey}`, 'attach a file');
+  }
+}
+
+export async function listJiraAttachments(ticketKey: string): Promise<{ key: string; attachments: JiraAttachment[] }> {
+  try {
+    if (!ticketKey || ticketKey.trim().length === 0) {
+      throw new JiraValidationError('Ticket key is required and cannot be empty');
+    }
+    validateTicketKey(ticketKey);
+
+    const key = ticketKey.trim();
+    const attachments = await jiraClient.instance.getAttachments(key);
+    return { key, attachments: attachments.map(toJiraAttachment) };
+  } catch (error) {
+    throw translateAttachmentError(error, `Ticket ${ticketKey}`, 'list attachments');
+  }
+}
+
+/**
+ * Downloads an attachment, returning text files as text and anything else as base64
+ * JIRA does not say which ticket an attachment is on, so when ticketKey is given the ticket's attachments are
+ * checked for it; that is how API keys limited to some projects are held to them
+ */
+export async function downloadJiraAttachment(params: DownloadAttachmentParams): Promise<JiraAttachmentContent> {
+  try {
+    const attachmentId = String(params.attachmentId ?? '').trim();
+    if (!/^\d+$/.test(attachmentId)) {
+      throw new JiraValidationError(`Invalid attachment ID: ${params.attachmentId}. Expected a numeric attachment ID`);
+    }
+    const maxBytes = params.maxBytes ?? MAX_ATTACHMENT_BYTES;
+    if (!Number.isInteger(maxBytes) || maxBytes < 1 || maxBytes > MAX_ATTACHMENT_BYTES) {
+      throw new JiraValidationError(`Invalid maxBytes: ${params.maxBytes}. Expected a whole number between 1 and ${MAX_ATTACHMENT_BYTES}`);
+    }
+    if (params.ticketKey !== undefined) {
+      validateTicketKey(params.ticketKey);
+      const ticketKey = params.ticketKey.trim();
+      const attachments = await jiraClient.instance.getAttachments(ticketKey);
+      if (!attachments.some((attachment: any) => String(attachment.id) === attachmentId)) {
+        throw new JiraNotFoundError(`Attachment ${attachmentId} is not on ticket ${ticketKey}. Use list_jira_attachments to see its attachments.`);
+      }
+    }
+
+    const file = await jiraClient.instance.downloadAttachment(attachmentId, maxBytes);
+    const asText = TEXT_MIME_TYPE_PATTERN.test(file.mimeType);
+    return {
+      id: file.id,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size: file.size,
+      encoding: asText ? 'utf8' : 'base64',
+      content: file.content.toString(asText ? 'utf8' : 'base64')
+    };
+  } catch (error) {
+    throw translateAttachmentError(error, `Attachment ${params.attachmentId}`, 'download the attachment');
+  }
+}
+
+export interface JiraAccountConnection {
+  connected: boolean; // Whether the caller's requests act as their own JIRA account
+  account?: JiraConnectedAccount;
+  authorizationUrl?: string; // Link the caller opens to authorize (or authorize again)
+}
+
+export interface JiraConnectedAccount {
+  accountId: string;
+  displayName?: string;
+  email?: string;
+  site: string;
+}
+
+/**
+ * Gets the calling user's JIRA account connection, with a link to authorize acting as them
+ * Given the confirmation code shown after authorizing, activates the caller's pending grant instead
+ * @throws JiraValidationError if OAuth is not configured, the request did not identify the caller or the code is wrong
+ */
+export async function connectJiraAccount(confirmationCode?: string): Promise<JiraAccountConnection> {
+  const callerId = requireOAuthCaller();
+  if (confirmationCode) {
+    const confirmed = await confirmCallerAuthorization(confirmationCode);
+    return { connected: true, account: toConnectedAccount(confirmed) };
+  }
+  const grant = await getCallerGrant();
+  return {
+    connected: !!grant,
+    ...(grant ? { account: toConnectedAccount(grant) } : {}),
+    authorizationUrl: await createAuthorizationUrl(callerId)
+  };
+}
+
+/**
+ * Removes the calling user's JIRA authorization, so their requests use the service account again
+ * Access can also be revoked in the Atlassian account's connected apps settings
+ */
+export async function disconnectJiraAccount(): Promise<{ disconnected: boolean; account?: JiraConnectedAccount }> {
+  requireOAuthCaller();
+  const grant = await removeCallerGrant();
+  return { disconnected: !!grant, ...(grant ? { account: toConnectedAccount(grant) } : {}) };
+}
+
+function requireOAuthCaller(): string {
+  if (!isOAuthConfigured()) {
+    throw new JiraValidationError('Acting as your own JIRA account is not enabled. Set JIRA_OAUTH_CLIENT_ID and JIRA_OAUTH_CLIENT_SECRET');
+  }
+  const callerId = getCallerId();
+  if (!callerId) {
+    throw new JiraValidationError(`The request did not identify the caller. Use an API key bound to the user (caller), or one trusted to send their user ID in the ${getCallerHeader()} header (trustCallerHeader)`);
+  }
+  return callerId;
+}
+
+function toConnectedAccount(grant: OAuthGrant): JiraConnectedAccount {
+  return {
+    accountId: grant.accountId,
+    ...(grant.displayName ? { displayName: grant.displayName } : {}),
+    ...(grant.email ? { email: grant.email } : {}),
+    site: grant.siteUrl
+  };
+}
@@ -1,8 +1,17 @@
 /**
  * Converts markdown text to JIRA's Atlassian Document Format (ADF)
- * Supports: headers, bold, italic, code, lists, links, paragraphs, tables
+ * Supports: headers, bold, italic, code, lists (nested and task lists), links (http, https, mailto and relative URLs), paragraphs, tables,
+ * code blocks, quotes, rules, images on their own line, and the JIRA-specific panels (> [!INFO]),
+ * expands (<details>), status lozenges (:status[Done]{color=green}) and dates (:date[2026-10-01])
  */
 
+import { randomUUID } from 'crypto';
+
+export interface MarkdownOptions {
+  // Looks up the account ID for an @email mention; unresolved mentions are kept as text
+  mentionAccountId?: (email: string) => string | undefined;
+}
+
 interface ADFNode {
   type: string;
   version?: number;
@@ -15,9 +24,18 @@ interface ADFNode {
 /**
  * Converts markdown text to JIRA ADF format
  * @param markdown - Markdown text to convert
+ * @param options - Conversion options (e.g., how @email mentions are resolved)
  * @returns ADF document structure
  */
-export function markdownToADF(markdown: string): ADFNode {
+export function markdownToADF(markdown: string, options: MarkdownOptions = {}): ADFNode {
+  return convertMarkdown(markdown, options, false);
+}
+
+/**
+ * Converts markdown to ADF; within quotes and panels (inQuote), consecutive lines of text form one
+ * paragraph, as in standard markdown, rather than a paragraph each
+ */
+function convertMarkdown(markdown: string, options: MarkdownOptions, inQuote: boolean): ADFNode {
   if (!markdown || markdown.trim().length === 0) {
     return {
       type: 'doc',
@@ -31,289 +49,196 @@ export function markdownToADF(markdown: string): ADFNode {
 
   const lines = markdown.split('\n');
   const content: ADFNode[] = [];
-  let currentList: ADFNode[] | null = null;
-  let listType: 'bulletList' | 'orderedList' | null = null;
-  let currentTable: ADFNode[] | null = null;
-  let tableHeader: string[] | null = null;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trimEnd();
-    
-    // Empty line - close current list/table if any, add paragraph break
-    if (line === '') {
-      if (currentList) {
-        content.push({
-          type: listType!,
-          content: currentList
-        });
-        currentList = null;
-        listType = null;
-      }
-      if (currentTable) {
-        content.push({
-          type: 'table',
-          attrs: {
-            isNumberColumnEnabled: false,
-            layout: 'default'
-          },
-          content: currentTable
-        });
-        currentTable = null;
-        tableHeader = null;
+
+    // Fenced code block (``` or ~~~) - kept verbatim until the closing fence (or the end of the text)
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/);
+    if (fenceMatch) {
+      const fence = fenceMatch[1];
+      const closingFence = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !closingFence.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
       }
+      const code = codeLines.join('\n');
+      content.push({
+        type: 'codeBlock',
+        ...(fenceMatch[2] ? { attrs: { language: fenceMatch[2] } } : {}),
+        content: code ? [{ type: 'text', text: code }] : []
+      });
       continue;
     }
 
-    // Table detection - check if line contains pipe characters
-    if (line.includes('|') && line.split('|').length >= 3) {
-      // Split by pipe and clean up - keep empty cells between pipes for alignment
-      const rawCells = line.split('|');
-      let cells: string[] = [];
-      for (let j = 0; j < rawCells.length; j++) {
-        const cell = rawCells[j].trim();
-        cells.push(cell);
-      }
-      // Remove leading/trailing empty cells (from pipes at start/end of line)
-      while (cells.length > 0 && cells[0] === '') {
-        cells.shift();
-      }
-      while (cells.length > 0 && cells[cells.length - 1] === '') {
-        cells.pop();
+    // Blockquote (> text) - consecutive quoted lines are converted as markdown of their own, along with
+    // unquoted lines that lazily continue a quoted paragraph
+    if (/^ {0,3}>/.test(line)) {
+      const quotedLines: string[] = [];
+      let inFence = false;
+      while (i < lines.length) {
+        if (/^ {0,3}>/.test(lines[i])) {
+          quotedLines.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        } else {
+          const previous = quotedLines[quotedLines.length - 1];
+          if (inFence || !lines[i].trim() || startsBlock(lines[i]) || !previous.trim() || startsBlock(previous)) {
+            break;
+          }
+          quotedLines.push(lines[i]);
+        }
+        if (/^ {0,3}(`{3,}|~{3,})/.test(quotedLines[quotedLines.length - 1])) {
+          inFence = !inFence;
+        }
+        i++;
       }
-      
-      // Skip rows that are clearly malformed (all empty or just separators with no content)
-      if (cells.length === 0 || (cells.length === 1 && cells[0] === '')) {
+      i--;
+
+      // A quote starting with [!INFO], [!WARNING] etc. is a panel
+      const panelMatch = quotedLines[0].match(PANEL_MARKER_PATTERN);
+      const panelType = panelMatch ? PANEL_TYPES[panelMatch[1].toLowerCase()] : undefined;
+      if (panelMatch && panelType) {
+        const panelText = [panelMatch[2], ...quotedLines.slice(1)].join('\n');
+        const panelContent = fitBlockContent(convertMarkdown(panelText, options, true).content || [], PANEL_CHILD_TYPES);
+        content.push({
+          type: 'panel',
+          attrs: { panelType },
+          content: panelContent.length > 0 ? panelContent : [{ type: 'paragraph', content: [] }]
+        });
         continue;
       }
-      
-      // Check if this is a table separator row (|---|---| or |:--:| or |:--| or |--:|)
-      // Also handle cases with escaped characters or math symbols
-      const isSeparator = cells.length > 0 && cells.every(cell => {
-        const cleaned = cell.replace(/[\\$]/g, ''); // Remove escape chars and math symbols
-        return /^:?-+:?$/.test(cleaned);
+
+      const quoted = fitBlockContent(convertMarkdown(quotedLines.join('\n'), options, true).content || [], BLOCKQUOTE_CHILD_TYPES);
+      content.push({
+        type: 'blockquote',
+        content: quoted.length > 0 ? quoted : [{ type: 'paragraph', content: [] }]
       });
-      
-      if (isSeparator) {
-        // This is a separator row - if we don't have a table yet, the previous line was the header
-        if (!currentTable && i > 0) {
-          // Get the previous line as header
-          const prevLine = lines[i - 1].trimEnd();
-          if (prevLine.includes('|')) {
-            // Parse header cells properly (keep empty cells for alignment)
-            const rawHeaderCells = prevLine.split('|');
-            const headerCells: string[] = [];
-            for (let j = 0; j < rawHeaderCells.length; j++) {
-              headerCells.push(rawHeaderCells[j].trim());
-            }
-            // Remove leading/trailing empty cells
-            while (headerCells.length > 0 && headerCells[0] === '') {
-              headerCells.shift();
-            }
-            while (headerCells.length > 0 && headerCells[headerCells.length - 1] === '') {
-              headerCells.pop();
-            }
-            currentTable = [];
-            tableHeader = headerCells;
-            // Create header row
-            const headerRow: ADFNode = {
-              type: 'tableRow',
-              content: headerCells.map(cell => {
-                const cellContent = cell.trim();
-                return {
-                  type: 'tableHeader',
-                  attrs: {},
-                  content: cellContent ? [{
-                    type: 'paragraph',
-                    content: parseInlineMarkdown(cellContent)
-                  }] : [{
-                    type: 'paragraph',
-                    content: []
-                  }]
-                };
-              })
-            };
-            currentTable.push(headerRow);
-          }
+      continue;
+    }
+
+    // Expand (<details><summary>Title</summary> ... </details>) - runs to its matching </details>
+    if (DETAILS_OPEN_PATTERN.test(line)) {
+      const detailsLines: string[] = [];
+      let depth = 0;
+      while (i < lines.length) {
+        depth += countMatches(lines[i], /<details(\s[^>]*)?>/gi) - countMatches(lines[i], /<\/details\s*>/gi);
+        detailsLines.push(lines[i]);
+        if (depth <= 0) {
+          break;
         }
-        // Skip separator row
-        continue;
+        i++;
       }
-      
-      // This is a table row (header or data)
-      if (!currentTable) {
-        // Start new table - this is the header row
-        currentTable = [];
-        tableHeader = cells;
-          // Create header row
-          const headerRow: ADFNode = {
-            type: 'tableRow',
-            content: cells.map(cell => {
-              const cellContent = cell.trim();
-              return {
-                type: 'tableHeader',
-                attrs: {},
-                content: cellContent ? [{
-                  type: 'paragraph',
-                  content: parseInlineMarkdown(cellContent)
-                }] : [{
-                  type: 'paragraph',
-                  content: []
-                }]
-              };
-            })
-          };
-        currentTable.push(headerRow);
-      } else {
-        // Add data row - ensure same number of cells as header
-        const numCells = tableHeader?.length || cells.length;
-        const paddedCells = [...cells];
-        while (paddedCells.length < numCells) {
-          paddedCells.push('');
-        }
-        
-        const dataRow: ADFNode = {
-          type: 'tableRow',
-          content: paddedCells.slice(0, numCells).map(cell => {
-            // Handle empty cells
-            const cellContent = cell.trim();
-            return {
-              type: 'tableCell',
-              attrs: {},
-              content: cellContent ? [{
-                type: 'paragraph',
-                content: parseInlineMarkdown(cellContent)
-              }] : [{
-                type: 'paragraph',
-                content: []
-              }]
-            };
-          })
-        };
-        currentTable.push(dataRow);
+      content.push(parseDetailsBlock(detailsLines.join('\n'), options));
+      continue;
+    }
+
+    // Horizontal rule (---, *** or ___)
+    if (/^ {0,3}([-*_])( *\1){2,} *$/.test(line)) {
+      content.push({ type: 'rule' });
+      continue;
+    }
+    
+    // Empty line - paragraph break
+    if (line === '') {
+      continue;
+    }
+
+    // Table - a header row followed by a separator row (|---|:---:|), or just a separator row for
+    // a table without a header, then rows until a line without a pipe
+    if (isTableStart(lines, i)) {
+      const tableLines: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '' && splitTableRow(lines[i]) !== null) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      // Column widths, e.g. {widths=200,120}, can follow the last row
+      const widthsMatch = i < lines.length ? lines[i].match(TABLE_WIDTHS_PATTERN) : null;
+      if (!widthsMatch) {
+        i--;
       }
+      content.push(parseTableBlock(tableLines, widthsMatch ? widthsMatch[1] : null, options));
       continue;
     }
 
-    // If we have an open table and hit a non-table line, close the table
-    if (currentTable) {
-      content.push({
-        type: 'table',
-        attrs: {
-          isNumberColumnEnabled: false,
-          layout: 'default'
-        },
-        content: currentTable
-      });
-      currentTable = null;
-      tableHeader = null;
+    // Image on its own line: ![alt](https://...) or an attachment's media file ![alt](attachment:<media ID>)
+    const image = parseImageLine(line);
+    if (image) {
+      content.push(image);
+      continue;
     }
 
     // Header detection (# ## ###)
     const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
     if (headerMatch) {
-      if (currentList) {
-        content.push({
-          type: listType!,
-          content: currentList
-        });
-        currentList = null;
-        listType = null;
-      }
       const level = headerMatch[1].length;
       const text = headerMatch[2];
       content.push({
         type: 'heading',
         attrs: { level },
-        content: parseInlineMarkdown(text)
+        content: parseInlineMarkdown(text, options)
       });
       continue;
     }
 
-    // Unordered list (- or *)
-    const bulletMatch = line.match(/^[-*]\s+(.+)$/);
-    if (bulletMatch) {
-      if (listType !== 'bulletList') {
-        if (currentList && listType) {
-          content.push({
-            type: listType,
-            content: currentList
-          });
+    // Lists (-, * or + bullets, 1. or 1) numbers, - [ ] tasks), including items indented under them
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const listLines: string[] = [];
+      while (i < lines.length) {
+        const listLine = lines[i].trimEnd();
+        if (listLine !== '' && !LIST_ITEM_PATTERN.test(listLine) && indentOf(listLine) === 0) {
+          break;
+        }
+        // A blank line only continues the list if an item or indented line follows it
+        if (listLine === '') {
+          const next = lines.slice(i + 1).find(nextLine => nextLine.trim() !== '');
+          if (!next || (!LIST_ITEM_PATTERN.test(next) && indentOf(next) === 0)) {
+            break;
+          }
         }
-        currentList = [];
-        listType = 'bulletList';
+        listLines.push(listLine);
+        i++;
       }
-      currentList!.push({
-        type: 'listItem',
-        content: [{
-          type: 'paragraph',
-          content: parseInlineMarkdown(bulletMatch[1])
-        }]
-      });
+      i--;
+      content.push(...parseListBlock(listLines, options));
       continue;
     }
 
-    // Ordered list (1. 2. 3.)
-    const orderedMatch = line.match(/^\d+\.\s+(.+)$/);
-    if (orderedMatch) {
-      if (listType !== 'orderedList') {
-        if (currentList && listType) {
-          content.push({
-            type: listType,
-            content: currentList
-          });
+    // Regular paragraph - check if line has any content (not just whitespace)
+    if (line.trim()) {
+      // A line ending in two spaces or a backslash continues the paragraph after a hard line break;
+      // in quotes, any line of text continues it after a soft break (a space)
+      let paragraph = line;
+      while (i + 1 < lines.length && lines[i + 1].trim() && !startsBlock(lines[i + 1]) && !SETEXT_UNDERLINE_PATTERN.test(lines[i + 1])) {
+        if (/( {2,}|\\)$/.test(lines[i])) {
+          paragraph = paragraph.replace(/\\$/, '') + '\n' + lines[i + 1].trim();
+        } else if (inQuote && !isTableStart(lines, i + 1)) {
+          paragraph = paragraph.trimEnd() + ' ' + lines[i + 1].trim();
+        } else {
+          break;
         }
-        currentList = [];
-        listType = 'orderedList';
+        i++;
       }
-      currentList!.push({
-        type: 'listItem',
-        content: [{
-          type: 'paragraph',
-          content: parseInlineMarkdown(orderedMatch[1])
-        }]
-      });
-      continue;
-    }
 
-    // Regular paragraph
-    if (currentList) {
-      content.push({
-        type: listType!,
-        content: currentList
-      });
-      currentList = null;
-      listType = null;
-    }
+      // Setext heading: text underlined with === (level 1) or --- (level 2), which is not then a rule
+      const underline = i + 1 < lines.length ? lines[i + 1].match(SETEXT_UNDERLINE_PATTERN) : null;
+      if (underline) {
+        content.push({
+          type: 'heading',
+          attrs: { level: underline[1] === '=' ? 1 : 2 },
+          content: parseInlineMarkdown(paragraph.trim(), options)
+        });
+        i++;
+        continue;
+      }
 
-    // Check if line has any content (not just whitespace)
-    if (line.trim()) {
       content.push({
         type: 'paragraph',
-        content: parseInlineMarkdown(line)
+        content: parseInlineMarkdown(paragraph, options)
       });
     }
   }
 
-  // Close any remaining list
-  if (currentList) {
-    content.push({
-      type: listType!,
-      content: currentList
-    });
-  }
-
-  // Close any remaining table
-  if (currentTable) {
-    content.push({
-      type: 'table',
-      attrs: {
-        isNumberColumnEnabled: false,
-        layout: 'default'
-      },
-      content: currentTable
-    });
-  }
-
   // If no content, add empty paragraph
   if (content.length === 0) {
     content.push({
@@ -329,150 +254,802 @@ export function markdownToADF(markdown: string): ADFNode {
   };
 }
 
+// Block nodes the ADF schema allows directly inside a blockquote or list item
+const BLOCKQUOTE_CHILD_TYPES = ['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle', 'mediaGroup'];
+const LIST_ITEM_CHILD_TYPES = ['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle'];
+const PANEL_CHILD_TYPES = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'rule',
+  'mediaGroup', 'mediaSingle', 'blockCard'
+];
+const EXPAND_CHILD_TYPES = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'rule',
+  'mediaGroup', 'mediaSingle', 'blockCard', 'embedCard', 'panel', 'blockquote', 'table', 'nestedExpand'
+];
+const NESTED_EXPAND_CHILD_TYPES = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'rule',
+  'mediaGroup', 'mediaSingle', 'panel', 'blockquote'
+];
+
+// GitHub-style alert marker on the first line of a quote: [!WARNING], optionally followed by text
+const PANEL_MARKER_PATTERN = /^\s*\[!([A-Za-z]+)\]\s*(.*)$/;
+
+// Alert names and the JIRA panel type each becomes (GitHub's TIP, IMPORTANT and CAUTION included)
+const PANEL_TYPES: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  important: 'note',
+  success: 'success',
+  tip: 'success',
+  warning: 'warning',
+  error: 'error',
+  caution: 'error'
+};
+
+// Line starting an expand section
+const DETAILS_OPEN_PATTERN = /^ {0,3}<details(\s[^>]*)?>/i;
+
+// Column widths (in pixels) on the line after a table: {widths=200,120,80}
+const TABLE_WIDTHS_PATTERN = /^\s*\{widths=(\d+(?:\s*,\s*\d+)*)\}\s*$/;
+
+// Image on its own line: ![alt](src), with the source optionally in <angle brackets>
+const IMAGE_LINE_PATTERN = /^\s*!\[((?:\\.|[^\]\\])*)\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+"[^"]*")?\s*\)\s*$/;
+
+// Media API file IDs, used by attachment:<media ID> image references
+const MEDIA_FILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Colours JIRA status lozenges can have
+const STATUS_COLORS = ['neutral', 'purple', 'blue', 'red', 'yellow', 'green'];
+
+// Setext heading underline: a line of = (level 1) or - (level 2) under a line of text
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}([=-])\1* *$/;
+
+// List item line: indentation, marker (-, *, + or 1. / 1)) and item text
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+// GitHub-style task item text: [ ] or [x] followed by the task
+const TASK_ITEM_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+
 /**
- * Parses inline markdown (bold, italic, code, links) within a line
- * Uses a simple approach: find all matches, then build nodes
- * @param text - Text with inline markdown
- * @returns Array of ADF text nodes with marks
+ * Checks whether a line starts a block (heading, list, quote, code fence, rule or table row)
+ * rather than continuing a paragraph
  */
-function parseInlineMarkdown(text: string): ADFNode[] {
-  if (!text) {
-    return [];
+function startsBlock(line: string): boolean {
+  return /^\s*(#{1,6}\s|>|`{3,}|~{3,})/.test(line) ||
+    DETAILS_OPEN_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    /^ {0,3}([-*_])( *\1){2,} *$/.test(line) ||
+    /^\s*\|/.test(line);
+}
+
+/**
+ * Measures the indentation of a line, counting tabs as 4 spaces
+ */
+function indentOf(line: string): number {
+  const leading = line.match(/^\s*/)![0];
+  return leading.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Converts the lines of a markdown list to ADF lists
+ * Lines indented under an item (nested lists, continuation paragraphs, code blocks) become part of
+ * that item, and a change of list type at the same level starts a new list
+ * @param lines - List lines, starting with a list item
+ * @returns bulletList, orderedList and taskList nodes
+ */
+function parseListBlock(lines: string[], options: MarkdownOptions): ADFNode[] {
+  const lists: ADFNode[] = [];
+  let list: ADFNode | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_PATTERN);
+    if (!match) {
+      // Blank line between items
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(match[1]);
+    const marker = match[2];
+    const task = /^[-*+]$/.test(marker) ? match[3].match(TASK_ITEM_PATTERN) : null;
+    const listType = task ? 'taskList' : /^\d/.test(marker) ? 'orderedList' : 'bulletList';
+
+    // Lines indented past this item's marker belong to the item
+    const childLines: string[] = [];
+    i++;
+    while (i < lines.length && (lines[i].trim() === '' || indentOf(lines[i]) > indent)) {
+      childLines.push(lines[i]);
+      i++;
+    }
+    const childIndent = Math.min(...childLines.filter(line => line.trim()).map(indentOf));
+    const children = childLines.length > 0
+      ? markdownToADF(childLines.map(line => line.replace(/\t/g, '    ').slice(childIndent)).join('\n'), options).content || []
+      : [];
+
+    if (!list || list.type !== listType) {
+      list = { type: listType, content: [] };
+      if (listType === 'taskList') {
+        list.attrs = { localId: randomUUID() };
+      } else if (listType === 'orderedList' && parseInt(marker, 10) !== 1) {
+        list.attrs = { order: parseInt(marker, 10) };
+      }
+      lists.push(list);
+    }
+
+    if (task) {
+      // Task items hold inline content only; nested task lists follow the item in its task list
+      const itemContent = parseInlineMarkdown(task[2], options);
+      const nestedTasks: ADFNode[] = [];
+      for (const child of children) {
+        if (child.type === 'taskList') {
+          nestedTasks.push(child);
+        } else {
+          const text = adfToMarkdown(child);
+          if (text) {
+            itemContent.push({ type: 'hardBreak' }, { type: 'text', text });
+          }
+        }
+      }
+      list.content!.push({
+        type: 'taskItem',
+        attrs: { localId: randomUUID(), state: task[1] === ' ' ? 'TODO' : 'DONE' },
+        content: itemContent
+      }, ...nestedTasks);
+    } else {
+      list.content!.push({
+        type: 'listItem',
+        content: [
+          { type: 'paragraph', content: parseInlineMarkdown(match[3], options) },
+          ...fitBlockContent(children, LIST_ITEM_CHILD_TYPES)
+        ]
+      });
+    }
   }
 
-  // Find all markdown patterns with their positions
-  const segments: Array<{ start: number; end: number; type: string; content: string; url?: string; marks: Array<{ type: string; attrs?: any }> }> = [];
-  
-  // Match patterns in order of specificity (code and links first to avoid conflicts)
-  let searchIndex = 0;
-  
-  while (searchIndex < text.length) {
-    const remaining = text.substring(searchIndex);
-    let matched = false;
+  return lists;
+}
 
-    // Code `code` - highest priority
-    const codeMatch = remaining.match(/^`([^`]+)`/);
+/**
+ * Splits a table row into its cells
+ * Escaped pipes (\|) and pipes inside code spans do not separate cells
+ * @returns The trimmed cells, or null if the line has no separating pipe
+ */
+function splitTableRow(line: string): string[] | null {
+  const text = line.trim();
+  const cells: string[] = [];
+  let cell = '';
+  let pipes = 0;
+  let endsWithPipe = false;
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.substring(i);
+    endsWithPipe = false;
+
+    if (rest.startsWith('\\|')) {
+      cell += '|';
+      i += 2;
+      continue;
+    }
+    if (rest[0] === '\\' && rest.length > 1) {
+      // Keep other escapes for the inline parser (so \` does not start a code span here)
+      cell += rest.substring(0, 2);
+      i += 2;
+      continue;
+    }
+
+    const codeMatch = rest.match(/^(`+)([\s\S]*?[^`])\1(?!`)/);
     if (codeMatch) {
-      segments.push({
-        start: searchIndex,
-        end: searchIndex + codeMatch[0].length,
-        type: 'formatted',
-        content: codeMatch[1],
-        marks: [{ type: 'code' }]
-      });
-      searchIndex += codeMatch[0].length;
-      matched = true;
+      cell += codeMatch[0].replace(/\\\|/g, '|');
+      i += codeMatch[0].length;
+      continue;
+    }
+
+    if (rest[0] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+      pipes++;
+      endsWithPipe = true;
+      i++;
       continue;
     }
 
-    // Links [text](url)
-    const linkMatch = remaining.match(/^\[([^\]]+)\]\(([^)]+)\)/);
-    if (linkMatch) {
-      segments.push({
-        start: searchIndex,
-        end: searchIndex + linkMatch[0].length,
-        type: 'formatted',
-        content: linkMatch[1],
-        url: linkMatch[2],
-        marks: [{ type: 'link', attrs: { href: linkMatch[2] } }]
+    // A backtick run without a closing run is plain text
+    const plain = rest[0] === '`' ? rest.match(/^`+/)![0] : rest[0];
+    cell += plain;
+    i += plain.length;
+  }
+
+  if (pipes === 0) {
+    return null;
+  }
+  if (!endsWithPipe) {
+    cells.push(cell.trim());
+  }
+  if (text.startsWith('|')) {
+    cells.shift();
+  }
+  return cells;
+}
+
+/**
+ * Checks whether table cells form a separator row (---, :---, ---: or :---:)
+ */
+function isTableSeparator(cells: string[]): boolean {
+  return cells.length > 0 && cells.every(cell => /^:?-+:?$/.test(cell));
+}
+
+/**
+ * Checks whether a table starts at a line: a header row followed by a separator row with as many
+ * cells, or (not under another row) a separator row starting with a pipe for a table without a header
+ */
+function isTableStart(lines: string[], index: number): boolean {
+  const cells = splitTableRow(lines[index]);
+  if (!cells) {
+    return false;
+  }
+  if (isTableSeparator(cells)) {
+    // Under a row with a different number of cells, this is not a table
+    return /^\s*\|/.test(lines[index]) && (index === 0 || splitTableRow(lines[index - 1]) === null);
+  }
+  const next = index + 1 < lines.length ? splitTableRow(lines[index + 1]) : null;
+  return next !== null && isTableSeparator(next) && next.length === cells.length;
+}
+
+/**
+ * Converts the lines of a markdown table to an ADF table
+ * The separator row sets the number of columns; longer rows are cut and shorter rows padded.
+ * Column alignment is carried as an alignment mark on each cell's paragraph
+ * @param lines - Table lines (header row, if any, then the separator row and the data rows)
+ * @param widths - Comma-separated column widths in pixels, or null
+ */
+function parseTableBlock(lines: string[], widths: string | null, options: MarkdownOptions): ADFNode {
+  const rows = lines.map(line => splitTableRow(line)!);
+  const separatorIndex = isTableSeparator(rows[0]) ? 0 : 1;
+  const alignments = rows[separatorIndex].map(cell =>
+    cell.endsWith(':') ? (cell.startsWith(':') ? 'center' : 'end') : null
+  );
+  const columnWidths = widths ? widths.split(',').map(width => parseInt(width, 10)) : [];
+
+  const toRow = (cells: string[], cellType: string): ADFNode => ({
+    type: 'tableRow',
+    content: alignments.map((align, column) => {
+      const width = columnWidths[column];
+      return {
+        type: cellType,
+        attrs: width > 0 ? { colwidth: [width] } : {},
+        content: [{
+          type: 'paragraph',
+          ...(align ? { marks: [{ type: 'alignment', attrs: { align } }] } : {}),
+          content: parseInlineMarkdown(cells[column] || '', options)
+        }]
+      };
+    })
+  });
+
+  return {
+    type: 'table',
+    attrs: {
+      isNumberColumnEnabled: false,
+      layout: 'default'
+    },
+    content: [
+      ...(separatorIndex === 1 ? [toRow(rows[0], 'tableHeader')] : []),
+      ...rows.slice(separatorIndex + 1).map(cells => toRow(cells, 'tableCell'))
+    ]
+  };
+}
+
+/**
+ * Converts a line holding only an image to a mediaSingle
+ * External images are linked by URL; attachment:<media ID> embeds an attachment's media file.
+ * Any other attachment reference (see findAttachmentReferences) is left for the paragraph parser
+ */
+function parseImageLine(line: string): ADFNode | null {
+  const match = line.match(IMAGE_LINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const alt = match[1].replace(/\\(.)/g, '$1');
+  const source = (match[2] || match[3]).trim();
+
+  let media: any;
+  if (/^https?:\/\//i.test(source)) {
+    media = { type: 'external', url: source };
+  } else if (/^attachment:/i.test(source) && MEDIA_FILE_ID_PATTERN.test(source.substring('attachment:'.length))) {
+    media = { type: 'file', id: source.substring('attachment:'.length), collection: '' };
+  } else {
+    return null;
+  }
+
+  return {
+    type: 'mediaSingle',
+    attrs: { layout: 'center' },
+    content: [{ type: 'media', attrs: { ...media, ...(alt ? { alt } : {}) } }]
+  };
+}
+
+/**
+ * Counts the matches of a global pattern in a line
+ */
+function countMatches(line: string, pattern: RegExp): number {
+  return (line.match(pattern) || []).length;
+}
+
+/**
+ * Converts a <details> block to an expand, with the <summary> as its title
+ * Expands inside it become nested expands, which cannot be nested further
+ * @param text - The block, from <details> to its closing </details> (which may be missing)
+ */
+function parseDetailsBlock(text: string, options: MarkdownOptions): ADFNode {
+  let body = text.replace(DETAILS_OPEN_PATTERN, '');
+  const closing = body.search(/<\/details\s*>\s*$/i);
+  if (closing !== -1) {
+    body = body.substring(0, closing);
+  }
+
+  let title = '';
+  const summaryMatch = body.match(/^\s*<summary(?:\s[^>]*)?>([\s\S]*?)<\/summary\s*>/i);
+  if (summaryMatch) {
+    title = summaryMatch[1].replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    body = body.substring(summaryMatch[0].length);
+  }
+
+  const children = (markdownToADF(body.replace(/^[ \t]*\n/, ''), options).content || []).map(child =>
+    child.type === 'expand'
+      ? { ...child, type: 'nestedExpand', content: fitBlockContent(child.content || [], NESTED_EXPAND_CHILD_TYPES) }
+      : child
+  );
+  const expandContent = fitBlockContent(children, EXPAND_CHILD_TYPES);
+  return {
+    type: 'expand',
+    attrs: { title },
+    content: expandContent.length > 0 ? expandContent : [{ type: 'paragraph', content: [] }]
+  };
+}
+
+/**
+ * Fits converted blocks into what a blockquote, list item, panel or expand may contain
+ * Nested quotes are flattened, headings become bold paragraphs and rules are dropped;
+ * any other block (e.g., a table) is kept as a paragraph of its markdown text
+ */
+function fitBlockContent(nodes: ADFNode[], allowedTypes: string[]): ADFNode[] {
+  const result: ADFNode[] = [];
+  for (const node of nodes) {
+    if (allowedTypes.includes(node.type)) {
+      // Drop the empty paragraph markdownToADF produces for blank input
+      if (node.type !== 'paragraph' || (node.content && node.content.length > 0)) {
+        result.push(node);
+      }
+    } else if (node.type === 'blockquote') {
+      result.push(...fitBlockContent(node.content || [], allowedTypes));
+    } else if (node.type === 'heading') {
+      result.push({
+        type: 'paragraph',
+        content: (node.content || []).map(child =>
+          // The code mark cannot be combined with strong
+          child.type === 'text' && !(child.marks || []).some(mark => mark.type === 'code')
+            ? { ...child, marks: [...(child.marks || []), { type: 'strong' }] }
+            : child
+        )
       });
-      searchIndex += linkMatch[0].length;
-      matched = true;
+    } else if (node.type !== 'rule') {
+      const text = adfToMarkdown(node);
+      if (text) {
+        result.push({ type: 'paragraph', content: [{ type: 'text', text }] });
+      }
+    }
+  }
+  return result;
+}
+
+// Characters that can be escaped with a backslash
+const ESCAPABLE_CHARACTERS = /[\\`*_{}\[\]()#+\-.!|~<>@]/;
+
+// Bare URLs are linked automatically
+const BARE_URL_PATTERN = /^https?:\/\/[^\s<]+/;
+
+// @user@example.com mentions
+const MENTION_PATTERN = /^@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/;
+
+/**
+ * Parses inline markdown within a paragraph, heading, list item or table cell
+ * Supports nested bold, italic, strikethrough and underline (<u>), code spans, links, autolinks,
+ * bare URLs, backslash escapes, hard line breaks, @email mentions, status lozenges and dates
+ * @param text - Text with inline markdown (newlines are hard line breaks)
+ * @param options - Conversion options (used for @email mentions)
+ * @returns Array of ADF inline nodes
+ */
+function parseInlineMarkdown(text: string, options: MarkdownOptions = {}): ADFNode[] {
+  if (!text) {
+    return [];
+  }
+  return mergeTextNodes(tokenizeInline(text, [], options));
+}
+
+type ADFMark = { type: string; attrs?: any };
+
+/**
+ * Tokenizes inline markdown, applying the given marks to everything it produces
+ * Emphasis delimiters recurse into their content, so marks nest
+ */
+function tokenizeInline(text: string, marks: ADFMark[], options: MarkdownOptions): ADFNode[] {
+  const nodes: ADFNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) {
+      nodes.push(textNode(plain, marks));
+      plain = '';
+    }
+  };
+  const inLink = marks.some(mark => mark.type === 'link');
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.substring(i);
+    const previous = i > 0 ? text[i - 1] : '';
+
+    // Escaped character \*
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE_CHARACTERS.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Hard line break (newline or <br>)
+    const breakMatch = rest.match(/^(\n|<br\s*\/?>)/i);
+    if (breakMatch) {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i += breakMatch[0].length;
       continue;
     }
 
-    // Bold **text** or __text__
-    const boldMatch = remaining.match(/^(\*\*|__)([^*_\n]+?)\1/);
-    if (boldMatch) {
-      segments.push({
-        start: searchIndex,
-        end: searchIndex + boldMatch[0].length,
-        type: 'formatted',
-        content: boldMatch[2],
-        marks: [{ type: 'strong' }]
+    // Code `code` - content is literal; only a link mark can be combined with code
+    const codeMatch = rest.match(/^(`+)([\s\S]*?[^`])\1(?!`)/);
+    if (codeMatch) {
+      flush();
+      let code = codeMatch[2];
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+        code = code.slice(1, -1);
+      }
+      nodes.push(textNode(code, [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]));
+      i += codeMatch[0].length;
+      continue;
+    }
+
+    // Links [text](url) and autolinks <https://...>; an image within text links to the image
+    if (!inLink) {
+      const inlineImageMatch = rest.match(/^!\[((?:\\.|[^\]\\])*)\]\(/);
+      const imageSource = inlineImageMatch ? parseLinkDestination(rest, inlineImageMatch[0].length) : null;
+      if (inlineImageMatch && imageSource && /^https?:\/\//i.test(imageSource.href)) {
+        flush();
+        const alt = inlineImageMatch[1].replace(/\\(.)/g, '$1');
+        nodes.push(textNode(alt || imageSource.href, [...marks, { type: 'link', attrs: { href: imageSource.href } }]));
+        i += imageSource.end;
+        continue;
+      }
+
+      const linkTextMatch = rest.match(/^\[((?:\\.|[^\]\\])+)\]\(/);
+      const destination = linkTextMatch ? parseLinkDestination(rest, linkTextMatch[0].length) : null;
+      if (linkTextMatch && destination) {
+        flush();
+        // Links to other schemes (javascript:, data:, ...) keep only their text
+        const linkMarks = isSafeLinkHref(destination.href) ? [...marks, { type: 'link', attrs: { href: destination.href } }] : marks;
+        nodes.push(...tokenizeInline(linkTextMatch[1], linkMarks, options));
+        i += destination.end;
+        continue;
+      }
+
+      const autolinkMatch = rest.match(/^<((?:https?|mailto):[^>\s]+)>/i);
+      if (autolinkMatch) {
+        flush();
+        nodes.push(textNode(autolinkMatch[1], [...marks, { type: 'link', attrs: { href: autolinkMatch[1] } }]));
+        i += autolinkMatch[0].length;
+        continue;
+      }
+
+      const urlMatch = /[A-Za-z0-9]/.test(previous) ? null : rest.match(BARE_URL_PATTERN);
+      if (urlMatch) {
+        const url = trimUrlPunctuation(urlMatch[0]);
+        flush();
+        nodes.push(textNode(url, [...marks, { type: 'link', attrs: { href: url } }]));
+        i += url.length;
+        continue;
+      }
+    }
+
+    // Status lozenge :status[In Progress]{color=blue}
+    const statusMatch = rest.match(/^:status\[((?:\\.|[^\]\\])+)\](?:\{color=([A-Za-z]+)\})?/);
+    if (statusMatch) {
+      const color = (statusMatch[2] || 'neutral').toLowerCase();
+      flush();
+      nodes.push({
+        type: 'status',
+        attrs: {
+          text: statusMatch[1].replace(/\\(.)/g, '$1'),
+          color: STATUS_COLORS.includes(color) ? color : 'neutral',
+          localId: randomUUID()
+        }
       });
-      searchIndex += boldMatch[0].length;
-      matched = true;
+      i += statusMatch[0].length;
       continue;
     }
 
-    // Italic *text* or _text_ (but not if it's part of ** or __)
-    const italicMatch = remaining.match(/^([*_])([^*_\n]+?)\1/);
-    if (italicMatch) {
-      // Check it's not part of bold
-      const before = text.substring(Math.max(0, searchIndex - 1), searchIndex + 1);
-      const after = text.substring(searchIndex + italicMatch[0].length - 1, searchIndex + italicMatch[0].length + 1);
-      if (!before.match(/\*\*/) && !after.match(/\*\*/) && 
-          !before.match(/__/) && !after.match(/__/)) {
-        segments.push({
-          start: searchIndex,
-          end: searchIndex + italicMatch[0].length,
-          type: 'formatted',
-          content: italicMatch[2],
-          marks: [{ type: 'em' }]
-        });
-        searchIndex += italicMatch[0].length;
-        matched = true;
+    // Date :date[2026-10-01] (left as text when it is not a valid date)
+    const dateMatch = rest.match(/^:date\[(\d{4})-(\d{2})-(\d{2})\]/);
+    if (dateMatch) {
+      const timestamp = Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]));
+      if (new Date(timestamp).toISOString().startsWith(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`)) {
+        flush();
+        nodes.push({ type: 'date', attrs: { timestamp: String(timestamp) } });
+        i += dateMatch[0].length;
         continue;
       }
     }
 
-    if (!matched) {
-      searchIndex++;
+    // Mention @user@example.com (left as text when the user cannot be resolved)
+    const mentionMatch = char === '@' && !/[A-Za-z0-9._%+-]/.test(previous) ? rest.match(MENTION_PATTERN) : null;
+    if (mentionMatch) {
+      const accountId = options.mentionAccountId ? options.mentionAccountId(mentionMatch[1]) : undefined;
+      if (accountId) {
+        flush();
+        nodes.push({ type: 'mention', attrs: { id: accountId, text: mentionMatch[0] } });
+      } else {
+        plain += mentionMatch[0];
+      }
+      i += mentionMatch[0].length;
+      continue;
+    }
+
+    // Underline <u>text</u>
+    const underlineMatch = rest.match(/^<u>([\s\S]+?)<\/u>/i);
+    if (underlineMatch) {
+      flush();
+      nodes.push(...tokenizeInline(underlineMatch[1], addMark(marks, 'underline'), options));
+      i += underlineMatch[0].length;
+      continue;
+    }
+
+    // Bold italic ***text***, bold **text** / __text__, strikethrough ~~text~~, italic *text* / _text_
+    const delimiter = findEmphasisDelimiter(text, i);
+    if (delimiter && canOpenEmphasis(text, i, delimiter)) {
+      const close = findClosingDelimiter(text, i + delimiter.length, delimiter);
+      if (close > i + delimiter.length) {
+        flush();
+        const innerMarks = delimiter === '~~' ? addMark(marks, 'strike')
+          : delimiter.length === 3 ? addMark(addMark(marks, 'strong'), 'em')
+          : delimiter.length === 2 ? addMark(marks, 'strong')
+          : addMark(marks, 'em');
+        nodes.push(...tokenizeInline(text.substring(i + delimiter.length, close), innerMarks, options));
+        i = close + delimiter.length;
+        continue;
+      }
     }
+
+    plain += char;
+    i++;
   }
 
-  // Remove overlapping segments (keep first match)
-  const nonOverlapping: typeof segments = [];
-  for (const seg of segments) {
-    const overlaps = nonOverlapping.some(s => 
-      (seg.start < s.end && seg.end > s.start)
-    );
-    if (!overlaps) {
-      nonOverlapping.push(seg);
+  flush();
+  return nodes;
+}
+
+/**
+ * Creates a text node, leaving out empty marks
+ */
+function textNode(text: string, marks: ADFMark[]): ADFNode {
+  return marks.length > 0 ? { type: 'text', text, marks: [...marks] } : { type: 'text', text };
+}
+
+/**
+ * Adds a mark unless it is already applied
+ */
+function addMark(marks: ADFMark[], type: string): ADFMark[] {
+  return marks.some(mark => mark.type === type) ? marks : [...marks, { type }];
+}
+
+/**
+ * Gets the emphasis delimiter starting at an index, if any (longest first)
+ */
+function findEmphasisDelimiter(text: string, index: number): string | null {
+  const delimiter = ['***', '___', '**', '__', '~~'].find(d => text.startsWith(d, index));
+  if (delimiter) {
+    return delimiter;
+  }
+  return text[index] === '*' || text[index] === '_' ? text[index] : null;
+}
+
+/**
+ * Checks that an emphasis delimiter can open: it must be followed by non-whitespace,
+ * and underscores must not be inside a word (snake_case stays as text)
+ */
+function canOpenEmphasis(text: string, index: number, delimiter: string): boolean {
+  const next = text[index + delimiter.length];
+  if (!next || /\s/.test(next)) {
+    return false;
+  }
+  return delimiter[0] !== '_' || index === 0 || !/[A-Za-z0-9]/.test(text[index - 1]);
+}
+
+/**
+ * Finds the delimiter closing an emphasis run, skipping escapes, code spans and nested emphasis
+ * @returns Index of the closing delimiter, or -1 if the run is not closed
+ */
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  let j = from;
+  while (j < text.length) {
+    if (text[j] === '\\') {
+      j += 2;
+      continue;
+    }
+    if (text[j] === '`') {
+      const codeMatch = text.substring(j).match(/^(`+)[\s\S]*?[^`]\1(?!`)/);
+      j += codeMatch ? codeMatch[0].length : 1;
+      continue;
+    }
+
+    if (text.startsWith(delimiter, j) && !/\s/.test(text[j - 1])) {
+      const runLength = text.substring(j).match(/^([*_~])\1*/)![0].length;
+      const afterRun = text[j + runLength];
+      // Underscores must not close inside a word
+      const closesWord = delimiter[0] !== '_' || !afterRun || !/[A-Za-z0-9]/.test(afterRun);
+      // A single delimiter does not close on a double one (that run closes nested bold)
+      if (closesWord && (delimiter.length > 1 || runLength !== 2)) {
+        return j;
+      }
+    }
+
+    // Skip a nested emphasis run of a different delimiter so its closer is not taken for ours
+    const nested = findEmphasisDelimiter(text, j);
+    if (nested && nested !== delimiter && canOpenEmphasis(text, j, nested)) {
+      const nestedClose = findClosingDelimiter(text, j + nested.length, nested);
+      if (nestedClose > 0) {
+        j = nestedClose + nested.length;
+        continue;
+      }
     }
+    j++;
   }
+  return -1;
+}
 
-  // Sort by position
-  nonOverlapping.sort((a, b) => a.start - b.start);
+/**
+ * Parses a link's destination and optional title, from just after "](" to the closing parenthesis
+ * Destinations are <...>, or run to whitespace or the first unbalanced ")", so URLs like
+ * https://en.wikipedia.org/wiki/Foo_(bar) keep their parentheses
+ * @returns The destination, and the index just after the closing parenthesis; null if it is not a link
+ */
+function parseLinkDestination(text: string, start: number): { href: string; end: number } | null {
+  let i = start;
+  while (text[i] === ' ' || text[i] === '\t') {
+    i++;
+  }
 
-  // Build nodes
-  const nodes: ADFNode[] = [];
-  let lastIndex = 0;
-
-  for (const seg of nonOverlapping) {
-    // Add plain text before this segment
-    if (seg.start > lastIndex) {
-      const plainText = text.substring(lastIndex, seg.start);
-      if (plainText) {
-        nodes.push({ type: 'text', text: plainText });
+  let href = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close === -1 || /[\n<]/.test(text.substring(i + 1, close))) {
+      return null;
+    }
+    href = text.substring(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    while (i < text.length && !/\s/.test(text[i])) {
+      if (text[i] === '\\' && i + 1 < text.length && ESCAPABLE_CHARACTERS.test(text[i + 1])) {
+        href += text[i + 1];
+        i += 2;
+        continue;
       }
+      if (text[i] === '(') {
+        depth++;
+      } else if (text[i] === ')') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      }
+      href += text[i];
+      i++;
+    }
+    if (depth > 0 || !href) {
+      return null;
     }
+  }
 
-    // Add formatted segment
-    nodes.push({
-      type: 'text',
-      text: seg.content,
-      marks: seg.marks
-    });
+  const title = text.substring(i).match(/^(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/);
+  return title ? { href, end: i + title[0].length } : null;
+}
+
+/**
+ * Checks that a link points somewhere safe to follow: http(s), mailto or a relative URL
+ */
+function isSafeLinkHref(href: string): boolean {
+  const scheme = href.match(/^([A-Za-z][A-Za-z0-9+.-]*):/);
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
 
-    lastIndex = seg.end;
+/**
+ * Writes a link destination for markdown, in <...> when it has whitespace or unbalanced parentheses
+ */
+function formatLinkDestination(href: string): string {
+  let depth = 0;
+  for (const char of href) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    if (depth < 0) {
+      break;
+    }
   }
+  return depth !== 0 || /[\s<>]/.test(href) ? `<${href.replace(/</g, '%3C').replace(/>/g, '%3E')}>` : href;
+}
 
-  // Add remaining plain text
-  if (lastIndex < text.length) {
-    const remaining = text.substring(lastIndex);
-    if (remaining) {
-      nodes.push({ type: 'text', text: remaining });
+/**
+ * Removes trailing punctuation from a bare URL (e.g., the period ending a sentence)
+ * A closing parenthesis is kept when the URL contains a matching opening one
+ */
+function trimUrlPunctuation(url: string): string {
+  let result = url;
+  while (/[.,;:!?'"*_~)\]]$/.test(result)) {
+    if (result.endsWith(')') && (result.match(/\(/g) || []).length >= (result.match(/\)/g) || []).length) {
+      break;
     }
+    result = result.slice(0, -1);
   }
+  return result;
+}
 
-  // If no markdown found, return plain text
-  if (nodes.length === 0) {
-    return [{ type: 'text', text }];
+/**
+ * Merges adjacent text nodes that have the same marks
+ */
+function mergeTextNodes(nodes: ADFNode[]): ADFNode[] {
+  const merged: ADFNode[] = [];
+  for (const node of nodes) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === 'text' && node.type === 'text' &&
+        JSON.stringify(last.marks || []) === JSON.stringify(node.marks || [])) {
+      last.text += node.text || '';
+    } else {
+      merged.push(node.type === 'text' ? { ...node } : node);
+    }
   }
+  return merged;
+}
 
-  return nodes;
+/**
+ * Finds the email addresses of @email mentions in markdown, so they can be resolved before conversion
+ * @param markdown - Markdown text
+ * @returns Unique email addresses, without the leading @
+ */
+export function findMentionEmails(markdown: string): string[] {
+  const emails = new Set<string>();
+  const pattern = new RegExp(`(^|[^A-Za-z0-9._%+-])${MENTION_PATTERN.source.replace(/^\^/, '')}`, 'g');
+  for (const match of (markdown || '').matchAll(pattern)) {
+    emails.add(match[2]);
+  }
+  return Array.from(emails);
+}
+
+/**
+ * Finds attachment image references that are not media file IDs (attachment IDs or file names
+ * in ![alt](attachment:...) lines), so they can be replaced with media file IDs before conversion
+ * @param markdown - Markdown text
+ * @returns Unique references, without the attachment: prefix
+ */
+export function findAttachmentReferences(markdown: string): string[] {
+  const references = new Set<string>();
+  for (const line of (markdown || '').split('\n')) {
+    const match = line.match(IMAGE_LINE_PATTERN);
+    const source = match ? (match[2] || match[3]).trim() : '';
+    if (/^attachment:/i.test(source)) {
+      const reference = source.substring('attachment:'.length);
+      if (reference && !MEDIA_FILE_ID_PATTERN.test(reference)) {
+        references.add(reference);
+      }
+    }
+  }
+  return Array.from(references);
 }
 
 /**
@@ -489,3 +1066,366 @@ export function plainTextToADF(text: string): ADFNode {
   };
 }
 
+
+/**
+ * Converts JIRA ADF content back to markdown
+ * Supports: headers, bold, italic, strikethrough, code, lists (nested and task lists), links,
+ * paragraphs, tables, code blocks, quotes, rules, panels, expands, decisions, mentions, emoji,
+ * status lozenges, dates, smart links and media
+ * Unknown nodes fall back to their text content
+ * @param adf - ADF document or node
+ * @returns Markdown text
+ */
+export function adfToMarkdown(adf: ADFNode | null | undefined): string {
+  if (!adf) {
+    return '';
+  }
+  return renderBlocks(adf.type === 'doc' ? adf.content || [] : [adf]).trim();
+}
+
+// Lists are rendered directly under the preceding line of their list item
+const LIST_TYPES = ['bulletList', 'orderedList', 'taskList'];
+
+/**
+ * Renders a list of block nodes separated by blank lines
+ */
+function renderBlocks(nodes: ADFNode[]): string {
+  return nodes
+    .map(node => renderBlock(node))
+    .filter(block => block.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Renders a single block node to markdown
+ */
+function renderBlock(node: ADFNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      // Keep a paragraph that starts like a heading, quote or list item from being read as one
+      return escapeBlockStart(renderInline(node.content || []));
+    case 'heading':
+      return `${'#'.repeat(node.attrs?.level || 1)} ${renderInline(node.content || [])}`;
+    case 'bulletList':
+    case 'orderedList':
+      return renderList(node);
+    case 'taskList':
+      return renderTaskList(node);
+    case 'decisionList':
+      return (node.content || [])
+        .map(item => `- Decision: ${renderInline(item.content || []).replace(/\n/g, ' ')}`)
+        .join('\n');
+    case 'codeBlock': {
+      const code = (node.content || []).map(child => child.text || '').join('');
+      // Use a fence longer than any run of backticks in the code
+      const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      return fence + (node.attrs?.language || '') + '\n' + code + '\n' + fence;
+    }
+    case 'blockquote':
+      return quoteLines(renderBlocks(node.content || []));
+    case 'panel': {
+      // GitHub-style alert: > [!INFO]
+      const panelType = String(node.attrs?.panelType || 'info').toUpperCase();
+      return quoteLines(`[!${panelType}]\n${renderBlocks(node.content || [])}`);
+    }
+    case 'expand':
+    case 'nestedExpand':
+      return `<details>\n<summary>${node.attrs?.title || ''}</summary>\n\n${renderBlocks(node.content || [])}\n\n</details>`;
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map(renderMedia).filter(media => media).join('\n');
+    case 'media':
+      return renderMedia(node);
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `<${node.attrs.url}>` : '';
+    default:
+      // Inline node at block level, or an unsupported block (layouts, extensions): keep its content
+      if (node.type === 'text' || !node.content) {
+        return renderInline([node]);
+      }
+      return renderBlocks(node.content);
+  }
+}
+
+/**
+ * Escapes the start of a paragraph that would otherwise be read as a heading, quote, list item or table
+ */
+function escapeBlockStart(text: string): string {
+  if (/^(#{1,6}\s|>|[-+]\s|\|)/.test(text)) {
+    return `\\${text}`;
+  }
+  const ordered = text.match(/^(\d+)[.)]\s/);
+  return ordered ? `${ordered[1]}\\${text.substring(ordered[1].length)}` : text;
+}
+
+/**
+ * Escapes characters in plain text that markdownToADF would read as formatting
+ * Underscores inside words (snake_case) are left alone
+ */
+function escapeText(text: string): string {
+  return text.replace(/[\\`*[\]_]|~~|<(?=[A-Za-z\/])/g, (match, offset: number) => {
+    if (match === '_' && /[A-Za-z0-9]/.test(text[offset - 1] || '') && /[A-Za-z0-9]/.test(text[offset + 1] || '')) {
+      return match;
+    }
+    return match.split('').map(char => `\\${char}`).join('');
+  });
+}
+
+/**
+ * Prefixes every line with "> "
+ */
+function quoteLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Renders the content of a list item: nested lists follow their line directly,
+ * other blocks are separated by blank lines
+ */
+function renderListItemContent(nodes: ADFNode[]): string {
+  let result = '';
+  for (const node of nodes) {
+    const block = renderBlock(node);
+    if (!block) {
+      continue;
+    }
+    result += result ? (LIST_TYPES.includes(node.type) ? '\n' : '\n\n') + block : block;
+  }
+  return result;
+}
+
+/**
+ * Renders a bullet or ordered list, indenting nested content under each item
+ */
+function renderList(list: ADFNode): string {
+  const start = list.attrs?.order || 1;
+  return (list.content || []).map((item, index) => {
+    const marker = list.type === 'orderedList' ? `${start + index}.` : '-';
+    const body = renderListItemContent(item.content || []);
+    const [first, ...rest] = body.split('\n');
+    const indent = ' '.repeat(marker.length + 1);
+    return [`${marker} ${first || ''}`, ...rest.map(line => (line ? indent + line : line))].join('\n');
+  }).join('\n');
+}
+
+/**
+ * Renders a task list as GitHub-style checkboxes, indenting nested task lists
+ */
+function renderTaskList(list: ADFNode): string {
+  return (list.content || []).map(item => {
+    if (item.type === 'taskList') {
+      return renderTaskList(item).split('\n').map(line => `  ${line}`).join('\n');
+    }
+    const checkbox = item.attrs?.state === 'DONE' ? '[x]' : '[ ]';
+    return `- ${checkbox} ${renderInline(item.content || []).replace(/\n/g, ' ')}`;
+  }).join('\n');
+}
+
+/**
+ * Renders a table; a first row of header cells becomes the header row, otherwise the table is
+ * written without one. Alignment marks become separator colons and column widths a {widths=...} line
+ */
+function renderTable(table: ADFNode): string {
+  const tableRows = table.content || [];
+  const rows = tableRows.map(row =>
+    (row.content || []).map(cell =>
+      renderBlocks(cell.content || []).replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) {
+    return '';
+  }
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const formatRow = (cells: string[]) => {
+    const padded = [...cells];
+    while (padded.length < columnCount) {
+      padded.push('');
+    }
+    return `| ${padded.join(' | ')} |`;
+  };
+
+  const columns = Array.from({ length: columnCount }, (_, column) => column);
+  const separator = '|' + columns.map(column => {
+    const align = tableRows
+      .map(row => row.content?.[column]?.content?.[0]?.marks?.find(mark => mark.type === 'alignment')?.attrs?.align)
+      .find(value => value);
+    return align === 'center' ? ' :---: |' : align === 'end' ? ' ---: |' : ' --- |';
+  }).join('');
+
+  const firstRowCells = tableRows[0].content || [];
+  const hasHeader = firstRowCells.length > 0 && firstRowCells.every(cell => cell.type === 'tableHeader');
+  const lines = hasHeader
+    ? [formatRow(rows[0]), separator, ...rows.slice(1).map(formatRow)]
+    : [separator, ...rows.map(formatRow)];
+
+  const widths = columns.map(column => firstRowCells[column]?.attrs?.colwidth?.[0] || 0);
+  if (widths.some(width => width > 0)) {
+    lines.push(`{widths=${widths.map(width => Math.round(width)).join(',')}}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders a media node as an image: external media by URL, attachments as attachment:<media ID>
+ */
+function renderMedia(media: ADFNode): string {
+  if (media.type !== 'media' && media.type !== 'mediaInline') {
+    return '';
+  }
+  const alt = String(media.attrs?.alt || '').replace(/[\\[\]]/g, '\\$&');
+  if (media.attrs?.type === 'external' && media.attrs?.url) {
+    return `![${alt}](${media.attrs.url})`;
+  }
+  return media.attrs?.id ? `![${alt}](attachment:${media.attrs.id})` : '';
+}
+
+/**
+ * Formats a date node's timestamp (milliseconds since the epoch) as YYYY-MM-DD
+ */
+function formatDateTimestamp(timestamp: any): string {
+  const date = new Date(Number(timestamp));
+  return isNaN(date.getTime()) ? String(timestamp ?? '') : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Renders inline nodes (text with marks, mentions, line breaks, status lozenges, dates)
+ * Marks shared by neighbouring nodes stay open across them, so **bold _italic_** nests
+ */
+function renderInline(nodes: ADFNode[]): string {
+  let result = '';
+  const openMarks: ADFMark[] = [];
+
+  // Closes open marks from the innermost down to (and including) index, keeping trailing
+  // whitespace outside the closing delimiters
+  const closeMarksFrom = (index: number) => {
+    if (index >= openMarks.length) {
+      return;
+    }
+    const trailing = result.match(/\s*$/)![0];
+    result = result.substring(0, result.length - trailing.length);
+    while (openMarks.length > index) {
+      result += markDelimiters(openMarks.pop()!)[1];
+    }
+    result += trailing;
+  };
+
+  for (const node of nodes) {
+    const marks = node.type === 'text' ? orderMarks(node.marks || []).filter(mark => mark.type !== 'code') : [];
+    const link = marks.find(mark => mark.type === 'link');
+
+    // Bare URLs are written as autolinks
+    if (link && marks.length === 1 && node.text === link.attrs?.href && !openMarks.some(mark => sameMark(mark, link))) {
+      closeMarksFrom(0);
+      result += `<${node.text}>`;
+      continue;
+    }
+
+    // Keep the open marks this node shares (outermost first), close the rest, then open its new marks
+    let shared = 0;
+    while (shared < openMarks.length && marks.some(mark => sameMark(mark, openMarks[shared]))) {
+      shared++;
+    }
+    closeMarksFrom(shared);
+
+    const text = renderInlineNode(node);
+    const leading = marks.length > openMarks.length ? text.match(/^\s*/)![0] : '';
+    result += leading;
+    for (const mark of marks) {
+      if (!openMarks.some(open => sameMark(open, mark))) {
+        result += markDelimiters(mark)[0];
+        openMarks.push(mark);
+      }
+    }
+    result += text.substring(leading.length);
+  }
+
+  closeMarksFrom(0);
+  return result;
+}
+
+/**
+ * Renders a single inline node, without marks other than code
+ */
+function renderInlineNode(node: ADFNode): string {
+  switch (node.type) {
+    case 'text': {
+      const text = node.text || '';
+      if ((node.marks || []).some(mark => mark.type === 'code')) {
+        return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+      }
+      return escapeText(text);
+    }
+    case 'hardBreak':
+      // Two trailing spaces mark a hard line break
+      return '  \n';
+    case 'mention': {
+      const text = node.attrs?.text || node.attrs?.id || 'unknown';
+      return text.startsWith('@') ? text : `@${text}`;
+    }
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+    case 'inlineCard':
+      return node.attrs?.url ? `<${node.attrs.url}>` : '';
+    case 'status': {
+      const color = node.attrs?.color && node.attrs.color !== 'neutral' ? `{color=${node.attrs.color}}` : '';
+      return `:status[${node.attrs?.text || ''}]${color}`;
+    }
+    case 'date':
+      return `:date[${formatDateTimestamp(node.attrs?.timestamp)}]`;
+    case 'mediaInline':
+      return renderMedia(node);
+    case 'placeholder':
+      return '';
+    default:
+      return node.content ? renderInline(node.content) : node.text || '';
+  }
+}
+
+// Order marks are opened in: links outermost, code innermost
+// Marks without a markdown equivalent (colour, sub/superscript) keep the plain text
+const MARK_ORDER = ['link', 'strong', 'em', 'strike', 'underline', 'code'];
+
+/**
+ * Sorts marks from outermost to innermost, dropping marks markdown cannot express
+ */
+function orderMarks(marks: ADFMark[]): ADFMark[] {
+  return marks
+    .filter(mark => MARK_ORDER.includes(mark.type))
+    .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+/**
+ * Checks whether two marks are the same (links must also point to the same URL)
+ */
+function sameMark(a: ADFMark, b: ADFMark): boolean {
+  return a.type === b.type && (a.type !== 'link' || a.attrs?.href === b.attrs?.href);
+}
+
+/**
+ * Gets the markdown that opens and closes a mark
+ */
+function markDelimiters(mark: ADFMark): [string, string] {
+  switch (mark.type) {
+    case 'strong':
+      return ['**', '**'];
+    case 'em':
+      return ['*', '*'];
+    case 'strike':
+      return ['~~', '~~'];
+    case 'underline':
+      return ['<u>', '</u>'];
+    case 'link':
+      return ['[', `](${formatLinkDestination(mark.attrs?.href || '')})`];
+    default:
+      return ['', ''];
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Model Context Protocol (MCP) front-end for the JIRA tools
+ * Handles MCP's JSON-RPC 2.0 messages for the streamable HTTP transport (POST /mcp) and, through it, the
+ * stdio transport (mcp-stdio). Tools are listed from the same definitions as /discovery, with JSON Schema
+ * input definitions built from their parameters, and calls are run through the /tools/* endpoints, so
+ * authentication, API key scopes, the calling user's OAuth grant and audit records apply as for direct calls
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+
+// A tool parameter as discovery describes it
+export interface DiscoveryParameter {
+  name: string;
+  type: string; // string, number, boolean, array or object
+  description: string;
+  required: boolean;
+}
+
+// A tool as discovery describes it
+export interface DiscoveryFunction {
+  name: string;
+  description: string;
+  parameters: DiscoveryParameter[];
+  endpoint: string;
+  httpMethod: string;
+}
+
+// Response from a tool endpoint
+export interface ToolResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * What the MCP server needs from the app: the tools the client may see, and a way to call them
+ */
+export interface McpToolHost {
+  listTools(): Promise<DiscoveryFunction[]>;
+  isTool(name: string): boolean;
+  callTool(name: string, args: Record<string, any>): Promise<ToolResponse>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+// Protocol versions this server speaks, newest first
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'optimizely-jira-tools', title: 'Optimizely JIRA Tools', version: '1.0.0' };
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * Handles one JSON-RPC message, or a batch of them
+ * @returns The response(s), or undefined when the message only contained notifications
+ */
+export async function handleMcpMessage(message: any, host: McpToolHost): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+  if (Array.isArray(message)) {
+    if (message.length === 0) {
+      return createError(null, INVALID_REQUEST, 'Empty batch');
+    }
+    const responses = await Promise.all(message.map(item => handleRequest(item, host)));
+    const answered = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+    return answered.length > 0 ? answered : undefined;
+  }
+  return handleRequest(message, host);
+}
+
+/**
+ * Builds a JSON-RPC error response
+ */
+export function createError(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Builds an MCP tool definition from a discovery definition
+ */
+export function toMcpTool(fn: DiscoveryFunction): { name: string; description: string; inputSchema: Record<string, any> } {
+  return { name: fn.name, description: fn.description, inputSchema: toInputSchema(fn.parameters) };
+}
+
+/**
+ * Builds the JSON Schema for a tool's arguments from its discovery parameters
+ * Further properties are allowed, since the create tool also takes any mapped JIRA field
+ */
+export function toInputSchema(parameters: DiscoveryParameter[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  for (const parameter of parameters) {
+    properties[parameter.name] = {
+      type: parameter.type,
+      // Discovery does not say what arrays hold (labels are strings, bulk tickets are objects)
+      ...(parameter.type === 'array' ? { items: {} } : {}),
+      description: parameter.description
+    };
+  }
+  const required = parameters.filter(parameter => parameter.required).map(parameter => parameter.name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+async function handleRequest(request: any, host: McpToolHost): Promise<JsonRpcResponse | undefined> {
+  const id = request && (typeof request.id === 'string' || typeof request.id === 'number') ? request.id : null;
+  if (!request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return createError(id, INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request');
+  }
+  // Notifications (no id) are not answered; the server sends none of its own, so there is nothing to track
+  if (request.id === undefined) {
+    return undefined;
+  }
+
+  const params = request.params || {};
+  try {
+    switch (request.method) {
+      case 'initialize':
+        return createResult(id, {
+          protocolVersion: PROTOCOL_VERSIONS.includes(params.protocolVersion) ? params.protocolVersion : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: 'Tools for creating, finding and updating JIRA tickets. Ticket descriptions and comments accept markdown.'
+        });
+      case 'ping':
+        return createResult(id, {});
+      case 'tools/list':
+        return createResult(id, { tools: (await host.listTools()).map(toMcpTool) });
+      case 'tools/call':
+        return await callTool(id, params, host);
+      default:
+        return createError(id, METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  } catch (error) {
+    console.error(`Error handling MCP ${request.method} request:`, error);
+    return createError(id, INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error');
+  }
+}
+
+/**
+ * Runs a tool, returning its JSON response as text and structured content
+ * Tool failures (validation, JIRA and permission errors) are results with isError set, so the model can see them
+ */
+async function callTool(id: string | number | null, params: any, host: McpToolHost): Promise<JsonRpcResponse> {
+  const name = params.name;
+  const args = params.arguments ?? {};
+  if (typeof name !== 'string' || !host.isTool(name)) {
+    return createError(id, INVALID_PARAMS, `Unknown tool: ${name}`);
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return createError(id, INVALID_PARAMS, 'Tool arguments must be an object');
+  }
+
+  const response = await host.callTool(name, args);
+  const body = response.body && typeof response.body === 'object' ? response.body : { message: String(response.body ?? '') };
+  return createResult(id, {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    structuredContent: body,
+    isError: response.status >= 400
+  });
+}
+
+function createResult(id: string | number | null, result: any): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * Sends a request through an Express app in-process, without a network connection
+ * The body is passed already parsed, so body parsers leave it as it is
+ */
+export function dispatchToApp(
+  app: (req: http.IncomingMessage, res: http.ServerResponse) => void,
+  request: { method: string; url: string; headers: Record<string, string>; body?: any }
+): Promise<ToolResponse> {
+  return new Promise(resolve => {
+    const req = new http.IncomingMessage(new net.Socket());
+    req.method = request.method;
+    req.url = request.url;
+    req.headers = { ...request.headers, 'content-type': 'application/json' };
+    Object.assign(req, { body: request.body, _body: true });
+    req.push(null);
+
+    const res = new http.ServerResponse(req);
+    const chunks: Buffer[] = [];
+    const collect = (chunk: any, encoding?: any) => {
+      if (chunk !== undefined && chunk !== null && typeof chunk !== 'function') {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8'));
+      }
+    };
+    Object.assign(res, {
+      write: (chunk: any, encoding?: any) => {
+        collect(chunk, encoding);
+        return true;
+      },
+      end: (chunk?: any, encoding?: any) => {
+        collect(chunk, encoding);
+        const text = Buffer.concat(chunks).toString('utf8');
+        let body: any = text;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // Not JSON, e.g. an Express error page
+        }
+        // Listeners (the audit log) expect 'finish' once the response is complete
+        res.emit('finish');
+        resolve({ status: res.statusCode, body });
+        return res;
+      }
+    });
+    app(req, res);
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * MCP stdio transport: reads JSON-RPC messages from stdin, one per line, and writes the responses to stdout
+ * Messages are handled in-process by the streamable HTTP endpoint (POST /mcp, see mcp-server), authenticated
+ * with MCP_BEARER_TOKEN (an API key, a tenant's token or BEARER_TOKEN, which is the default) and acting as
+ * the calling user MCP_CALLER_ID when set (the key must have trustCallerHeader set)
+ * Usage: npm run build && node dist/api/mcp-stdio.js
+ */
+
+import * as readline from 'readline';
+import { dispatchToApp, createError, PARSE_ERROR } from './mcp-server';
+import { getCallerHeader } from './jira-oauth';
+
+// stdout carries protocol messages only, so logging goes to stderr
+console.log = console.error;
+console.info = console.error;
+
+// Load the app without starting its HTTP server
+process.env.MCP_TRANSPORT = 'stdio';
+const app = require('./index');
+
+const token = process.env.MCP_BEARER_TOKEN || process.env.BEARER_TOKEN;
+const headers: Record<string, string> = token ? { authorization: `Bearer ${token}` } : {};
+if (process.env.MCP_CALLER_ID) {
+  headers[getCallerHeader()] = process.env.MCP_CALLER_ID;
+}
+
+function send(message: any): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+// Requests are handled as they arrive, so a slow tool call does not hold up pings; responses carry their request's id
+const lines = readline.createInterface({ input: process.stdin, terminal: false });
+lines.on('line', async line => {
+  if (!line.trim()) {
+    return;
+  }
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return send(createError(null, PARSE_ERROR, 'Invalid JSON'));
+  }
+
+  const response = await dispatchToApp(app, { method: 'POST', url: '/mcp', headers, body: message });
+  if (response.status !== 202) {
+    send(response.body);
+  }
+});
@@ -0,0 +1,212 @@
+/**
+ * Stores for JIRA OAuth grants: the access and refresh tokens a user authorized, by tenant and caller,
+ * and the authorizations callers have started but not yet confirmed
+ * Grants are kept in memory unless JIRA_OAUTH_GRANT_STORE selects a file or a Redis-compatible REST store.
+ * Grants in a file or Redis are encrypted with JIRA_OAUTH_ENCRYPTION_KEY, since refresh tokens are long-lived
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { decryptValue, encryptValue, isEncryptedValue, readEncryptionKey } from './encryption';
+import { JsonFile, sendRedisCommand } from './storage';
+
+export interface OAuthGrant {
+  accountId: string; // JIRA account the tokens act as
+  displayName?: string;
+  email?: string;
+  cloudId: string; // Atlassian site the tokens were granted for
+  siteUrl: string;
+  accessToken: string;
+  refreshToken?: string; // Only given for the offline_access scope
+  expiresAt: number; // When the access token expires (epoch milliseconds)
+  scope?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An authorization a caller has started: the nonce of their newest link until a callback uses it, then the
+// grant from the callback until the caller confirms it with the code the callback showed
+export interface PendingAuthorization {
+  nonce?: string;
+  grant?: OAuthGrant;
+  confirmationCodeHash?: string; // SHA-256 of the confirmation code
+  failedConfirmations?: number;
+  expiresAt: number;
+}
+
+/**
+ * Stores grants, and pending authorizations under their own keys (see jira-oauth)
+ */
+export interface OAuthGrantStore {
+  get<T = OAuthGrant>(key: string): Promise<T | undefined>;
+
+  set<T = OAuthGrant>(key: string, grant: T): Promise<void>;
+
+  /**
+   * Gets and removes a value in one step, so concurrent requests cannot both use it
+   */
+  take<T = OAuthGrant>(key: string): Promise<T | undefined>;
+
+  delete(key: string): Promise<void>;
+}
+
+// Prefix for keys in shared stores, so they do not collide with other applications' keys
+const KEY_PREFIX = 'jira-oauth-grant:';
+
+/**
+ * Keeps grants in process memory (lost on restart, so users have to authorize again)
+ */
+export class MemoryOAuthGrantStore implements OAuthGrantStore {
+  private grants = new Map<string, any>();
+
+  async get<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    return this.grants.get(key);
+  }
+
+  async set<T = OAuthGrant>(key: string, grant: T): Promise<void> {
+    this.grants.set(key, grant);
+  }
+
+  async take<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    const grant = this.grants.get(key);
+    this.grants.delete(key);
+    return grant;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.grants.delete(key);
+  }
+}
+
+/**
+ * Keeps encrypted grants in a JSON file
+ * Operations are serialized within the process; the file should not be shared by several servers
+ */
+export class FileOAuthGrantStore implements OAuthGrantStore {
+  private readonly file: JsonFile<string>;
+
+  constructor(filePath: string, private readonly key: Buffer) {
+    this.file = new JsonFile(filePath, 'OAuth grant store', 0o600);
+  }
+
+  get<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    return this.file.update(grants => grants[key] ? openGrant(grants[key], this.key) : undefined);
+  }
+
+  async set<T = OAuthGrant>(key: string, grant: T): Promise<void> {
+    await this.file.update(grants => {
+      grants[key] = sealGrant(grant, this.key);
+    });
+  }
+
+  take<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    return this.file.update(grants => {
+      const sealed = grants[key];
+      delete grants[key];
+      return sealed ? openGrant(sealed, this.key) : undefined;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.file.update(grants => {
+      delete grants[key];
+    });
+  }
+}
+
+/**
+ * Keeps encrypted grants in Redis through a REST API that takes commands as JSON arrays
+ * (Upstash, Vercel KV and compatible services)
+ */
+export class RedisOAuthGrantStore implements OAuthGrantStore {
+  constructor(private readonly url: string, private readonly token: string, private readonly key: Buffer) {}
+
+  async get<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    const value = await this.command(['GET', KEY_PREFIX + key]);
+    return typeof value === 'string' ? openGrant(value, this.key) : undefined;
+  }
+
+  async set<T = OAuthGrant>(key: string, grant: T): Promise<void> {
+    await this.command(['SET', KEY_PREFIX + key, sealGrant(grant, this.key)]);
+  }
+
+  async take<T = OAuthGrant>(key: string): Promise<T | undefined> {
+    const value = await this.command(['GETDEL', KEY_PREFIX + key]);
+    return typeof value === 'string' ? openGrant(value, this.key) : undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', KEY_PREFIX + key]);
+  }
+
+  private command(args: string[]): Promise<any> {
+    return sendRedisCommand(this.url, this.token, args, 'OAuth grant store');
+  }
+}
+
+/**
+ * Encrypts a grant for storage
+ */
+function sealGrant(grant: unknown, key: Buffer): string {
+  return encryptValue(JSON.stringify(grant), key);
+}
+
+/**
+ * Decrypts a stored grant
+ * @throws If the grant was encrypted with another key or has been tampered with
+ */
+function openGrant(sealed: string, key: Buffer): any {
+  if (!isEncryptedValue(sealed)) {
+    throw new Error('Stored OAuth grant is not encrypted');
+  }
+  try {
+    return JSON.parse(decryptValue(sealed, key));
+  } catch {
+    throw new Error('Stored OAuth grant could not be decrypted with JIRA_OAUTH_ENCRYPTION_KEY');
+  }
+}
+
+/**
+ * Creates the store selected by JIRA_OAUTH_GRANT_STORE ("memory", "file" or "redis")
+ * Defaults to redis when a Redis REST URL is configured, otherwise memory
+ */
+export function createOAuthGrantStore(): OAuthGrantStore {
+  const redisUrl = process.env.JIRA_OAUTH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const redisToken = process.env.JIRA_OAUTH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+  const kind = (process.env.JIRA_OAUTH_GRANT_STORE || (redisUrl ? 'redis' : 'memory')).trim().toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryOAuthGrantStore();
+    case 'file':
+      return new FileOAuthGrantStore(path.resolve(
+        process.env.JIRA_OAUTH_GRANT_FILE || path.join(os.tmpdir(), 'jira-oauth-grants.json')
+      ), readEncryptionKey('JIRA_OAUTH_ENCRYPTION_KEY', 'to store OAuth grants in a file or Redis'));
+    case 'redis':
+      if (!redisUrl || !redisToken) {
+        throw new Error('JIRA_OAUTH_REDIS_REST_URL and JIRA_OAUTH_REDIS_REST_TOKEN are required for the redis OAuth grant store');
+      }
+      return new RedisOAuthGrantStore(redisUrl, redisToken, readEncryptionKey('JIRA_OAUTH_ENCRYPTION_KEY', 'to store OAuth grants in a file or Redis'));
+    default:
+      throw new Error(`Invalid JIRA_OAUTH_GRANT_STORE: ${kind}. Expected memory, file or redis`);
+  }
+}
+
+// Lazy initialization so environment variables are read when the store is first used
+let _oauthGrantStore: OAuthGrantStore | null = null;
+
+export const oauthGrantStore = {
+  get instance(): OAuthGrantStore {
+    if (!_oauthGrantStore) {
+      _oauthGrantStore = createOAuthGrantStore();
+    }
+    return _oauthGrantStore;
+  },
+
+  /**
+   * Replaces the store, e.g. with another OAuthGrantStore implementation
+   */
+  use(store: OAuthGrantStore): void {
+    _oauthGrantStore = store;
+  }
+};
@@ -0,0 +1,74 @@
+/**
+ * Building blocks for the file and Redis stores (idempotency keys and OAuth grants)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A JSON object in a file, read and written back on every change
+ * Changes are serialized within the process; the file should not be shared by several servers
+ */
+export class JsonFile<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param description - What the file holds, for errors (e.g., "idempotency store")
+   * @param mode - File permissions for newly written files
+   */
+  constructor(private readonly filePath: string, private readonly description: string, private readonly mode?: number) {}
+
+  /**
+   * Reads the file, applies a change and writes it back if anything changed
+   */
+  update<R>(change: (entries: Record<string, T>) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      const entries = await this.read();
+      const before = JSON.stringify(entries);
+      const result = change(entries);
+      if (JSON.stringify(entries) !== before) {
+        // Write to a temporary file and rename it, so a crash cannot leave a half-written file
+        const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(temporaryPath, JSON.stringify(entries), this.mode !== undefined ? { mode: this.mode } : undefined);
+        await fs.promises.rename(temporaryPath, this.filePath);
+      }
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<Record<string, T>> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Could not read ${this.description} ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Sends a command to Redis through a REST API that takes commands as JSON arrays
+ * (Upstash, Vercel KV and compatible services)
+ * @param description - What the store holds, for errors (e.g., "Idempotency store")
+ * @returns The command's result
+ */
+export async function sendRedisCommand(url: string, token: string, args: string[], description: string): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(args)
+  });
+  const body: any = await response.json().catch(() => ({}));
+  if (!response.ok || body.error) {
+    throw new Error(`${description} error (${response.status}): ${body.error || response.statusText}`);
+  }
+  return body.result;
+}
@@ -0,0 +1,321 @@
+/**
+ * Tenant registry, so one deployment can serve several JIRA sites and projects
+ * Tenants are defined in a JSON or YAML file (JIRA_TENANTS_FILE) and selected per request by bearer token
+ * or URL path prefix. Each tenant has its own credentials, project, defaults and field mappings; requests
+ * that match no tenant use the environment variables as before
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { loadFieldMappingFile } from './field-mapping-file';
+import { loadCreateDefaultsFile, parseEnvDefaults } from './create-defaults-file';
+import { decryptValue, isEncryptedValue, readEncryptionKey } from './encryption';
+
+export interface TenantConfig {
+  id: string;
+  name: string;
+  bearerToken: string;
+  pathPrefix?: string; // e.g. "/acme", serving /acme/discovery and /acme/tools/...
+  settings: Record<string, string>; // Settings by environment variable name (JIRA_BASE_URL, JIRA_PROJECT_KEY, ...)
+}
+
+// Tenant file keys for the common settings, and the environment variables they replace
+const SETTING_KEYS: Record<string, string> = {
+  jiraBaseUrl: 'JIRA_BASE_URL',
+  jiraUserEmail: 'JIRA_USER_EMAIL',
+  jiraApiToken: 'JIRA_API_TOKEN',
+  projectKey: 'JIRA_PROJECT_KEY',
+  defaultIssueType: 'JIRA_DEFAULT_ISSUE_TYPE',
+  fieldMappingsFile: 'JIRA_FIELD_MAPPINGS_FILE',
+  defaultsFile: 'JIRA_DEFAULTS_FILE',
+  oauthClientId: 'JIRA_OAUTH_CLIENT_ID',
+  oauthClientSecret: 'JIRA_OAUTH_CLIENT_SECRET',
+  oauthRedirectUri: 'JIRA_OAUTH_REDIRECT_URI'
+};
+
+// Settings every tenant must have, so none falls back to another tenant's JIRA site or project
+const REQUIRED_SETTINGS = ['JIRA_BASE_URL', 'JIRA_USER_EMAIL', 'JIRA_API_TOKEN', 'JIRA_PROJECT_KEY'];
+
+// Settings tenants share with the environment unless they set their own (tuning and OAuth endpoints, never credentials)
+const SHARED_SETTINGS = [
+  'JIRA_REQUEST_TIMEOUT_MS',
+  'JIRA_MAX_RETRIES',
+  'JIRA_OAUTH_AUTH_URL',
+  'JIRA_OAUTH_API_URL',
+  'JIRA_OAUTH_SCOPES'
+];
+
+// Route names a path prefix cannot use
+const RESERVED_PATH_PREFIXES = ['/tools', '/discovery', '/health', '/oauth', '/mcp'];
+
+const PATH_PREFIX_PATTERN = /^\/[A-Za-z0-9_-]+$/;
+
+
+// ${NAME} references to environment variables in tenant file values
+const ENV_REFERENCE_PATTERN = /\$\{([A-Z0-9_]+)\}/g;
+
+const tenantStorage = new AsyncLocalStorage<TenantConfig>();
+
+let _tenants: TenantConfig[] | null = null;
+
+/**
+ * Gets the tenants from JIRA_TENANTS_FILE, loading and validating the file on first use
+ * @returns No tenants if JIRA_TENANTS_FILE is not set
+ */
+export function getTenants(): TenantConfig[] {
+  if (!_tenants) {
+    const configured = process.env.JIRA_TENANTS_FILE;
+    _tenants = configured && configured.trim() ? loadTenantsFile(path.resolve(configured.trim())) : [];
+  }
+  return _tenants;
+}
+
+/**
+ * Runs a function with a tenant selected, for it and everything it starts asynchronously
+ */
+export function runWithTenant<T>(tenant: TenantConfig, fn: () => T): T {
+  return tenantStorage.run(tenant, fn);
+}
+
+/**
+ * Gets the tenant selected for the current request, if any
+ */
+export function getCurrentTenant(): TenantConfig | undefined {
+  return tenantStorage.getStore();
+}
+
+/**
+ * Gets an ID for the current tenant, for keeping per-tenant state apart ("default" without a tenant)
+ */
+export function getTenantId(): string {
+  return getCurrentTenant()?.id ?? 'default';
+}
+
+/**
+ * Gets a setting for the current tenant, or from the environment when no tenant is selected
+ * @param name - Environment variable name, e.g. "JIRA_PROJECT_KEY"
+ */
+export function getSetting(name: string): string | undefined {
+  const tenant = getCurrentTenant();
+  if (!tenant) {
+    return process.env[name];
+  }
+  return tenant.settings[name] ?? (SHARED_SETTINGS.includes(name) ? process.env[name] : undefined);
+}
+
+/**
+ * Gets all settings for the current tenant (see getSetting)
+ */
+export function getSettings(): Record<string, string | undefined> {
+  const tenant = getCurrentTenant();
+  if (!tenant) {
+    return process.env;
+  }
+  const shared = Object.fromEntries(SHARED_SETTINGS.map(name => [name, process.env[name]]));
+  return { ...shared, ...tenant.settings };
+}
+
+/**
+ * Finds the tenant whose bearer token matches, comparing in constant time
+ */
+export function findTenantByToken(token: string): TenantConfig | undefined {
+  return getTenants().find(tenant => tokensMatch(token, tenant.bearerToken));
+}
+
+/**
+ * Finds the tenant whose path prefix starts a request path (e.g. "/acme/tools/get_jira_ticket")
+ */
+export function findTenantByPath(requestPath: string): TenantConfig | undefined {
+  return getTenants().find(tenant =>
+    tenant.pathPrefix && (requestPath === tenant.pathPrefix || requestPath.startsWith(`${tenant.pathPrefix}/`))
+  );
+}
+
+/**
+ * Compares bearer tokens without leaking how much of the token matched through timing
+ */
+export function tokensMatch(given: string, expected: string): boolean {
+  const givenBuffer = Buffer.from(given);
+  const expectedBuffer = Buffer.from(expected);
+  return givenBuffer.length === expectedBuffer.length && timingSafeEqual(givenBuffer, expectedBuffer);
+}
+
+/**
+ * Reads, parses and validates the tenants file
+ * @throws With every validation problem listed if the file is invalid
+ */
+function loadTenantsFile(filePath: string): TenantConfig[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Invalid tenants file: ${filePath} (from JIRA_TENANTS_FILE) does not exist`);
+  }
+
+  let parsed: any;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid tenants file ${filePath}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+  }
+
+  const problems: string[] = [];
+  const tenants = parseTenants(parsed, path.dirname(filePath), problems);
+  if (problems.length > 0) {
+    throw new Error(`Invalid tenants file ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return tenants;
+}
+
+/**
+ * Parses tenants file contents ({ "tenants": { "<id>": { ... } } }), collecting validation problems
+ * @param baseDir - Directory relative field mapping file paths are resolved against
+ */
+function parseTenants(parsed: any, baseDir: string, problems: string[]): TenantConfig[] {
+  if (!parsed || typeof parsed.tenants !== 'object' || Array.isArray(parsed.tenants)) {
+    problems.push('"tenants" must be an object keyed by tenant ID');
+    return [];
+  }
+
+  const tenants: TenantConfig[] = [];
+  for (const [id, entry] of Object.entries<any>(parsed.tenants)) {
+    const source = `tenants.${id}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push(`${source}: expected an object`);
+      continue;
+    }
+
+    const readValue = (key: string, value: any): string | undefined => {
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        problems.push(`${source}.${key}: expected a string`);
+        return undefined;
+      }
+      try {
+        return resolveValue(String(value));
+      } catch (error) {
+        problems.push(`${source}.${key}: ${error instanceof Error ? error.message : error}`);
+        return undefined;
+      }
+    };
+
+    const settings: Record<string, string> = {};
+    for (const [key, name] of Object.entries(SETTING_KEYS)) {
+      const value = readValue(key, entry[key]);
+      if (value !== undefined) {
+        settings[name] = value;
+      }
+    }
+    if (entry.settings !== undefined) {
+      if (typeof entry.settings !== 'object' || Array.isArray(entry.settings)) {
+        problems.push(`${source}.settings: expected an object of JIRA_* settings`);
+      } else {
+        for (const [name, raw] of Object.entries(entry.settings)) {
+          if (!/^JIRA_[A-Z0-9_]+$/.test(name)) {
+            problems.push(`${source}.settings.${name}: only JIRA_* settings can be set per tenant`);
+            continue;
+          }
+          const value = readValue(`settings.${name}`, raw);
+          if (value !== undefined) {
+            settings[name] = value;
+          }
+        }
+      }
+    }
+
+    for (const name of REQUIRED_SETTINGS) {
+      if (!settings[name]) {
+        const key = Object.keys(SETTING_KEYS).find(candidate => SETTING_KEYS[candidate] === name);
+        problems.push(`${source}: ${key} is required`);
+      }
+    }
+    if (settings.JIRA_FIELD_MAPPINGS_FILE) {
+      settings.JIRA_FIELD_MAPPINGS_FILE = path.resolve(baseDir, settings.JIRA_FIELD_MAPPINGS_FILE);
+      try {
+        loadFieldMappingFile(settings.JIRA_FIELD_MAPPINGS_FILE);
+      } catch (error) {
+        problems.push(`${source}.fieldMappingsFile: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (settings.JIRA_DEFAULTS_FILE) {
+      settings.JIRA_DEFAULTS_FILE = path.resolve(baseDir, settings.JIRA_DEFAULTS_FILE);
+      try {
+        loadCreateDefaultsFile(settings.JIRA_DEFAULTS_FILE);
+      } catch (error) {
+        problems.push(`${source}.defaultsFile: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (!settings.JIRA_OAUTH_CLIENT_ID !== !settings.JIRA_OAUTH_CLIENT_SECRET) {
+      problems.push(`${source}: oauthClientId and oauthClientSecret must be set together`);
+    }
+    const defaultsProblems: string[] = [];
+    parseEnvDefaults(settings, defaultsProblems);
+    problems.push(...defaultsProblems.map(problem => `${source}.settings: ${problem}`));
+
+    const bearerToken = readValue('bearerToken', entry.bearerToken);
+    if (!bearerToken) {
+      problems.push(`${source}: bearerToken is required`);
+    }
+    const pathPrefix = readValue('pathPrefix', entry.pathPrefix)?.replace(/\/+$/, '');
+    if (pathPrefix !== undefined &&
+        (!PATH_PREFIX_PATTERN.test(pathPrefix) || RESERVED_PATH_PREFIXES.includes(pathPrefix.toLowerCase()))) {
+      problems.push(`${source}.pathPrefix: "${pathPrefix}" must be a single path segment like "/acme", other than ${RESERVED_PATH_PREFIXES.join(', ')}`);
+    }
+
+    tenants.push({
+      id,
+      name: readValue('name', entry.name) || id,
+      bearerToken: bearerToken || '',
+      pathPrefix,
+      settings
+    });
+  }
+
+  // Tokens and prefixes select the tenant, so they must be unique (including against BEARER_TOKEN)
+  const tokens = new Map<string, string>();
+  const prefixes = new Map<string, string>();
+  for (const tenant of tenants) {
+    if (tenant.bearerToken && process.env.BEARER_TOKEN && tenant.bearerToken === process.env.BEARER_TOKEN) {
+      problems.push(`tenants.${tenant.id}.bearerToken: must differ from BEARER_TOKEN`);
+    }
+    if (tenant.bearerToken && tokens.has(tenant.bearerToken)) {
+      problems.push(`tenants.${tenant.id}.bearerToken: already used by tenant ${tokens.get(tenant.bearerToken)}`);
+    }
+    tokens.set(tenant.bearerToken, tenant.id);
+    const prefix = tenant.pathPrefix?.toLowerCase();
+    if (prefix && prefixes.has(prefix)) {
+      problems.push(`tenants.${tenant.id}.pathPrefix: already used by tenant ${prefixes.get(prefix)}`);
+    }
+    if (prefix) {
+      prefixes.set(prefix, tenant.id);
+    }
+  }
+  return tenants;
+}
+
+/**
+ * Resolves ${NAME} environment variable references and decrypts enc:v1: values
+ */
+function resolveValue(value: string): string {
+  const resolved = value.replace(ENV_REFERENCE_PATTERN, (_, name: string) => {
+    const envValue = process.env[name];
+    if (envValue === undefined) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return envValue;
+  });
+
+  if (!isEncryptedValue(resolved)) {
+    return resolved;
+  }
+  // Encrypted values (see encryption) use JIRA_TENANTS_ENCRYPTION_KEY
+  const key = readEncryptionKey('JIRA_TENANTS_ENCRYPTION_KEY', 'to use encrypted values');
+  try {
+    return decryptValue(resolved, key);
+  } catch {
+    throw new Error('encrypted value could not be decrypted with JIRA_TENANTS_ENCRYPTION_KEY');
+  }
+}
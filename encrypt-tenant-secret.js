@@ -0,0 +1,40 @@
+/**
+ * Script to encrypt a secret (JIRA API token or bearer token) for the tenants file
+ * Usage: node encrypt-tenant-secret.js <secret>
+ *        node encrypt-tenant-secret.js --generate-key
+ *
+ * Set environment variables:
+ * - JIRA_TENANTS_ENCRYPTION_KEY (required to encrypt): 32 byte key, base64 or hex
+ *
+ * Prints an enc:v1:... value to use in place of the secret in JIRA_TENANTS_FILE
+ */
+
+const crypto = require('crypto');
+
+const arg = process.argv[2];
+
+if (arg === '--generate-key') {
+  console.log(crypto.randomBytes(32).toString('base64'));
+  process.exit(0);
+}
+
+if (!arg) {
+  console.error('Usage: JIRA_TENANTS_ENCRYPTION_KEY=... node encrypt-tenant-secret.js <secret>');
+  console.error('       node encrypt-tenant-secret.js --generate-key');
+  process.exit(1);
+}
+
+const configured = (process.env.JIRA_TENANTS_ENCRYPTION_KEY || '').trim();
+const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, 'hex') : Buffer.from(configured, 'base64');
+if (key.length !== 32) {
+  console.error('Error: JIRA_TENANTS_ENCRYPTION_KEY must be a 32 byte key (base64 or hex)');
+  console.error('Generate one with: node encrypt-tenant-secret.js --generate-key');
+  process.exit(1);
+}
+
+const iv = crypto.randomBytes(12);
+const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+const ciphertext = Buffer.concat([cipher.update(arg, 'utf8'), cipher.final()]);
+const tag = cipher.getAuthTag();
+
+console.log(`enc:v1:${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`);
@@ -0,0 +1,181 @@
+/**
+ * Local fake of Atlassian's OAuth 2.0 (3LO) authorization server and API gateway, for testing
+ * connect_jira_account and per-user requests without a real OAuth app
+ * Usage: node fake-oauth-server.js [port]
+ *        const { startFakeOAuthServer } = require('./fake-oauth-server');
+ *
+ * Point the server at it with:
+ * - JIRA_OAUTH_AUTH_URL=http://localhost:<port>
+ * - JIRA_OAUTH_API_URL=http://localhost:<port>
+ * - JIRA_OAUTH_CLIENT_ID / JIRA_OAUTH_CLIENT_SECRET matching the fake (fake-client-id / fake-client-secret)
+ * - JIRA_BASE_URL matching the fake's site (FAKE_OAUTH_SITE_URL, default https://example.atlassian.net)
+ *
+ * /authorize approves at once as the user given by ?user= (default alice), or denies with ?deny=1.
+ * JIRA API requests (/ex/jira/<cloudId>/rest/api/3/...) answer /myself; anything else goes to the
+ * onJiraRequest option, or gets a 404. Access tokens last FAKE_OAUTH_EXPIRES_IN seconds (default 3600),
+ * and refresh tokens rotate: each can be used once
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+
+const USERS = {
+  alice: { accountId: '5b10a2844c20165700ede21a', displayName: 'Alice Example', emailAddress: 'alice@example.com' },
+  bob: { accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Bob Example', emailAddress: 'bob@example.com' }
+};
+
+/**
+ * Starts the fake server
+ * @param {object} options - port, clientId, clientSecret, siteUrl, cloudId, expiresIn (seconds),
+ *   onJiraRequest(req, res, user, path, body) for JIRA API requests other than /myself
+ * @returns {Promise<object>} url, requests (every request received), revoke(accountId) and close()
+ */
+function startFakeOAuthServer(options = {}) {
+  const config = {
+    clientId: options.clientId || process.env.FAKE_OAUTH_CLIENT_ID || 'fake-client-id',
+    clientSecret: options.clientSecret || process.env.FAKE_OAUTH_CLIENT_SECRET || 'fake-client-secret',
+    siteUrl: options.siteUrl || process.env.FAKE_OAUTH_SITE_URL || 'https://example.atlassian.net',
+    cloudId: options.cloudId || '11111111-2222-3333-4444-555555555555',
+    expiresIn: options.expiresIn || Number(process.env.FAKE_OAUTH_EXPIRES_IN) || 3600
+  };
+  const codes = new Map(); // code -> { user, redirectUri, scope }
+  const accessTokens = new Map(); // token -> { user, expiresAt }
+  const refreshTokens = new Map(); // token -> { user, scope }
+  const requests = [];
+
+  const issueTokens = (user, scope) => {
+    const accessToken = `fake-access-${crypto.randomBytes(12).toString('hex')}`;
+    const refreshToken = `fake-refresh-${crypto.randomBytes(12).toString('hex')}`;
+    accessTokens.set(accessToken, { user, expiresAt: Date.now() + config.expiresIn * 1000 });
+    refreshTokens.set(refreshToken, { user, scope });
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: config.expiresIn, scope, token_type: 'Bearer' };
+  };
+
+  const authenticate = req => {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const entry = accessTokens.get(token);
+    return entry && entry.expiresAt > Date.now() ? entry.user : undefined;
+  };
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const chunks = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    const rawBody = Buffer.concat(chunks).toString('utf8');
+    const url = new URL(req.url, 'http://localhost');
+    requests.push({ method: req.method, path: url.pathname, authorization: req.headers.authorization, body: rawBody });
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (url.searchParams.get('client_id') !== config.clientId || !redirectUri) {
+        return send(res, 400, { error: 'invalid_request', error_description: 'Unknown client_id or missing redirect_uri' });
+      }
+      const target = new URL(redirectUri);
+      target.searchParams.set('state', url.searchParams.get('state') || '');
+      if (url.searchParams.get('deny')) {
+        target.searchParams.set('error', 'access_denied');
+        target.searchParams.set('error_description', 'The user denied access');
+      } else {
+        const user = USERS[url.searchParams.get('user') || 'alice'];
+        if (!user) {
+          return send(res, 400, { error: 'invalid_request', error_description: `Unknown fake user (expected ${Object.keys(USERS).join(', ')})` });
+        }
+        const code = `fake-code-${crypto.randomBytes(12).toString('hex')}`;
+        codes.set(code, { user, redirectUri, scope: url.searchParams.get('scope') || '' });
+        target.searchParams.set('code', code);
+      }
+      res.writeHead(302, { Location: target.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/oauth/token') {
+      let params;
+      try {
+        params = JSON.parse(rawBody || '{}');
+      } catch {
+        return send(res, 400, { error: 'invalid_request', error_description: 'Expected a JSON body' });
+      }
+      if (params.client_id !== config.clientId || params.client_secret !== config.clientSecret) {
+        return send(res, 401, { error: 'access_denied', error_description: 'Unauthorized' });
+      }
+      if (params.grant_type === 'authorization_code') {
+        const entry = codes.get(params.code);
+        codes.delete(params.code);
+        if (!entry || entry.redirectUri !== params.redirect_uri) {
+          return send(res, 403, { error: 'invalid_grant', error_description: 'Invalid authorization code' });
+        }
+        return send(res, 200, issueTokens(entry.user, entry.scope));
+      }
+      if (params.grant_type === 'refresh_token') {
+        const entry = refreshTokens.get(params.refresh_token);
+        refreshTokens.delete(params.refresh_token);
+        if (!entry) {
+          return send(res, 403, { error: 'unauthorized_client', error_description: 'refresh_token is invalid' });
+        }
+        return send(res, 200, issueTokens(entry.user, entry.scope));
+      }
+      return send(res, 400, { error: 'unsupported_grant_type' });
+    }
+
+    const user = authenticate(req);
+    if (!user) {
+      return send(res, 401, { code: 401, message: 'Unauthorized; scope does not match' });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/oauth/token/accessible-resources') {
+      return send(res, 200, [{ id: config.cloudId, url: config.siteUrl, name: 'Fake site', scopes: [] }]);
+    }
+
+    const prefix = `/ex/jira/${config.cloudId}/rest/api/3`;
+    if (url.pathname.startsWith(prefix)) {
+      const path = url.pathname.substring(prefix.length);
+      if (req.method === 'GET' && path === '/myself') {
+        return send(res, 200, { ...user, active: true });
+      }
+      if (options.onJiraRequest) {
+        return options.onJiraRequest(req, res, user, path + url.search, rawBody);
+      }
+    }
+    return send(res, 404, { errorMessages: [`The fake OAuth server does not serve ${req.method} ${url.pathname}`], errors: {} });
+  });
+
+  return new Promise(resolve => {
+    server.listen(options.port || 0, () => {
+      resolve({
+        url: `http://localhost:${server.address().port}`,
+        config,
+        requests,
+        // Invalidates a user's tokens, as if they revoked the app's access
+        revoke(accountId) {
+          for (const tokens of [accessTokens, refreshTokens]) {
+            for (const [token, entry] of tokens) {
+              if (entry.user.accountId === accountId) {
+                tokens.delete(token);
+              }
+            }
+          }
+        },
+        close: () => new Promise(done => server.close(done))
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  startFakeOAuthServer({ port: Number(process.argv[2]) || 4455 }).then(server => {
+    console.log(`Fake OAuth server running at ${server.url}`);
+    console.log(`  JIRA_OAUTH_AUTH_URL=${server.url}`);
+    console.log(`  JIRA_OAUTH_API_URL=${server.url}`);
+    console.log(`  JIRA_OAUTH_CLIENT_ID=${server.config.clientId}`);
+    console.log(`  JIRA_OAUTH_CLIENT_SECRET=${server.config.clientSecret}`);
+    console.log(`  JIRA_BASE_URL=${server.config.siteUrl}`);
+  });
+}
+
+module.exports = { startFakeOAuthServer, USERS };
@@ -0,0 +1,39 @@
+/**
+ * Script to generate an API key for the tool endpoints
+ * Usage: node generate-api-key.js <name> [tool,tool,...] [operation,operation,...] [PROJECT,PROJECT,...]
+ *
+ * Prints the key (give it to the caller; it is not stored anywhere) and the entry to add to API_KEYS_FILE,
+ * which only contains the key's SHA-256 hash
+ *
+ * To rotate a key, generate a new one with the same name, move the old hash to previousHashes
+ * with an expiresAt for when callers must have switched, and replace hash with the new one
+ */
+
+const crypto = require('crypto');
+
+const [name, tools, operations, projects] = process.argv.slice(2);
+
+if (!name) {
+  console.error('Usage: node generate-api-key.js <name> [tool,tool,...] [operation,operation,...] [PROJECT,PROJECT,...]');
+  console.error('Example: node generate-api-key.js opal-search search_jira_tickets,get_jira_ticket read DHK');
+  process.exit(1);
+}
+
+const key = `jtk_${crypto.randomBytes(32).toString('base64url')}`;
+const hash = `sha256:${crypto.createHash('sha256').update(key).digest('hex')}`;
+const list = value => `[${value.split(',').map(item => item.trim()).filter(item => item).join(', ')}]`;
+
+console.log(`API key (shown once): ${key}\n`);
+console.log('Add to API_KEYS_FILE:\n');
+console.log('keys:');
+console.log(`  ${name}:`);
+console.log(`    hash: ${hash}`);
+if (tools && tools !== '*') {
+  console.log(`    tools: ${list(tools)}`);
+}
+if (operations && operations !== '*') {
+  console.log(`    operations: ${list(operations)}`);
+}
+if (projects && projects !== '*') {
+  console.log(`    projects: ${list(projects)}`);
+}
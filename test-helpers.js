@@ -0,0 +1,161 @@
+/**
+ * Shared setup for the tests (test-*.js, run by npm test): fake JIRA sites behind fetch, and requests
+ * to the app without starting a server
+ * The tests load the compiled code from dist/; npm test builds it first, or run npm run build before
+ * node --test <file>
+ */
+
+const assert = require('node:assert/strict');
+const test = require('node:test');
+
+/**
+ * Makes a JSON response, or an empty one without a body
+ */
+function json(status, body) {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Fake JIRA sites: records every request and answers the REST API calls the tests make
+ * (/field, /myself, create metadata, creating tickets, and getting, updating and listing comments on the site's tickets)
+ */
+class FakeJira {
+  /**
+   * @param sites - Sites by host: credentials ("email:API token") requests must use, accountId of the
+   *   service account and project (key of the site's tickets)
+   */
+  constructor(sites = {}) {
+    this.sites = sites;
+    // Every request received: host, method, path, body, and the credentials or account it acted as
+    this.requests = [];
+  }
+
+  /**
+   * Replaces fetch, answering requests to the fake sites; requests to localhost (e.g. the fake OAuth server)
+   * are really sent, and requests to any other host fail
+   * Answers are delayed a little, so concurrent requests interleave
+   */
+  install() {
+    const realFetch = global.fetch;
+    global.fetch = async (input, init = {}) => {
+      const url = new URL(String(input));
+      const site = this.sites[url.host];
+      if (!site) {
+        if (url.hostname === 'localhost') {
+          return realFetch(input, init);
+        }
+        throw new TypeError(`fetch failed: the tests do not serve ${url.host}`);
+      }
+      const authorization = new Headers(init.headers).get('authorization') || '';
+      const credentials = Buffer.from(authorization.replace(/^Basic /, ''), 'base64').toString('utf8');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (credentials !== site.credentials) {
+        this.requests.push({ host: url.host, method: init.method || 'GET', path: url.pathname, body: init.body, credentials });
+        return json(401, { errorMessages: ['Unauthorized'] });
+      }
+      const [status, body] = this.answer(site, {
+        host: url.host,
+        method: init.method || 'GET',
+        path: url.pathname.replace('/rest/api/3', ''),
+        body: init.body,
+        credentials,
+        accountId: site.accountId
+      });
+      return json(status, body);
+    };
+    test.after(() => {
+      global.fetch = realFetch;
+    });
+    return this;
+  }
+
+  /**
+   * Records a request to a site's REST API (path after /rest/api/3) and answers it
+   * @param site - accountId the request acts as and project of the site's tickets
+   * @returns Status and body
+   */
+  answer(site, request) {
+    this.requests.push(request);
+    const { method, path } = request;
+    if (path === '/field') {
+      return [200, []];
+    }
+    if (path === '/myself') {
+      return [200, { accountId: request.accountId, displayName: request.accountId }];
+    }
+    if (path === `/issue/createmeta/${site.project}/issuetypes`) {
+      return [200, { issueTypes: [{ id: '10001', name: 'Story' }] }];
+    }
+    if (path === `/issue/createmeta/${site.project}/issuetypes/10001`) {
+      return [200, { fields: [{ fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string' } }] }];
+    }
+    if (path === '/issue' && method === 'POST') {
+      const created = this.requests.filter(earlier => earlier.path === '/issue' && earlier.method === 'POST').length;
+      return [201, { id: String(10000 + created), key: `${site.project}-${created}` }];
+    }
+    const issue = path.match(/^\/issue\/([A-Z]+-\d+)(\/comment)?$/);
+    if (issue && issue[1].startsWith(`${site.project}-`)) {
+      if (issue[2]) {
+        return [200, { comments: [], total: 0 }];
+      }
+      if (method === 'PUT') {
+        return [204];
+      }
+      return [200, { id: '1', key: issue[1], fields: { summary: `${site.project} ticket` } }];
+    }
+    return [404, { errorMessages: [`Not found on ${request.host}: ${method} ${path}`] }];
+  }
+
+  /**
+   * The accounts the recorded requests acted as, each once
+   */
+  accounts() {
+    return [...new Set(this.requests.map(request => request.accountId))];
+  }
+}
+
+/**
+ * Loads the app from dist/, after the test has set up its environment
+ * The app is not started as a server, and failed JIRA requests are not retried
+ * @returns The app, and request(...) and callTool(...) to send it requests
+ */
+function loadApp() {
+  process.env.NODE_ENV = 'production';
+  process.env.JIRA_MAX_RETRIES = '0';
+  const app = require('./dist/api/index');
+  const { dispatchToApp } = require('./dist/api/mcp-server');
+
+  const request = (method, url, { token, headers = {}, body } = {}) => dispatchToApp(app, {
+    method,
+    url,
+    headers: { ...(token ? { authorization: `Bearer ${token}` } : {}), ...headers },
+    body
+  });
+
+  // Calls a tool endpoint, e.g. callTool('get_jira_ticket', { ticketKey: 'DHK-1' }, { token })
+  const callTool = (tool, parameters, { prefix = '', ...options } = {}) =>
+    request('POST', `${prefix}/tools/${tool}`, { ...options, body: { parameters } });
+
+  return { app, dispatchToApp, request, callTool };
+}
+
+/**
+ * Silences console.log while the tests run: the request body and audit logs would drown out the results
+ */
+function quietLogs() {
+  test.before(() => {
+    test.mock.method(console, 'log', () => {});
+  });
+}
+
+/**
+ * Checks a response's status, showing the body when it is not the expected one
+ */
+function assertStatus(response, status) {
+  assert.equal(response.status, status, typeof response.body === 'string' ? response.body : JSON.stringify(response.body));
+}
+
+module.exports = { FakeJira, loadApp, quietLogs, assertStatus };
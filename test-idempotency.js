@@ -0,0 +1,69 @@
+/**
+ * Tests that an idempotency key can only be claimed once, so requests repeated at the same moment
+ * create one ticket between them
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { FakeJira, loadApp, quietLogs } = require('./test-helpers');
+const { MemoryIdempotencyStore, FileIdempotencyStore } = require('./dist/api/idempotency-store');
+
+process.env.BEARER_TOKEN = 'test-bearer-token';
+process.env.JIRA_BASE_URL = 'https://example.atlassian.net';
+process.env.JIRA_USER_EMAIL = 'bot@example.com';
+process.env.JIRA_API_TOKEN = 'test-api-token';
+process.env.JIRA_PROJECT_KEY = 'DHK';
+process.env.IDEMPOTENCY_STORE = 'memory';
+delete process.env.JIRA_TENANTS_FILE;
+delete process.env.API_KEYS_FILE;
+
+const jira = new FakeJira({
+  'example.atlassian.net': { credentials: 'bot@example.com:test-api-token', accountId: 'service-account', project: 'DHK' }
+}).install();
+const { callTool } = loadApp();
+
+const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-idempotency-'));
+const record = { fingerprint: 'request', status: 'pending', createdAt: Date.now() };
+
+quietLogs();
+
+test.after(() => {
+  fs.rmSync(storeDir, { recursive: true, force: true });
+});
+
+for (const [name, createStore] of [
+  ['memory store', () => new MemoryIdempotencyStore()],
+  ['file store', () => new FileIdempotencyStore(path.join(storeDir, `${Date.now()}-${Math.random()}.json`))]
+]) {
+  test(`${name}: only one of several concurrent claims wins`, async () => {
+    const store = createStore();
+    const claims = await Promise.all([1, 2, 3].map(() => store.add('key', record, 1000)));
+    assert.deepEqual(claims.sort(), [false, false, true]);
+  });
+
+  test(`${name}: an expired claim can be claimed again`, async () => {
+    const store = createStore();
+    assert.equal(await store.add('key', record, 1), true);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(await store.add('key', record, 1000), true);
+    assert.equal(await store.add('key', record, 1000), false);
+  });
+}
+
+test('concurrent creates with the same key create one ticket', async () => {
+  const parameters = { summary: 'Only once', idempotencyKey: 'create-once' };
+  const responses = await Promise.all([
+    callTool('create_jira_ticket_with_fields', parameters, { token: 'test-bearer-token' }),
+    callTool('create_jira_ticket_with_fields', parameters, { token: 'test-bearer-token' })
+  ]);
+  assert.deepEqual(responses.map(response => response.status).sort(), [200, 409], JSON.stringify(responses.map(response => response.body)));
+  assert.equal(jira.requests.filter(request => request.method === 'POST' && request.path === '/issue').length, 1);
+
+  const replay = await callTool('create_jira_ticket_with_fields', parameters, { token: 'test-bearer-token' });
+  assert.equal(replay.status, 200, JSON.stringify(replay.body));
+  assert.equal(replay.body.ticket.key, responses.find(response => response.status === 200).body.ticket.key);
+  assert.equal(jira.requests.filter(request => request.method === 'POST' && request.path === '/issue').length, 1);
+});
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 
-import { jiraClient } from './api/jira-client';
-import { createJiraTicket } from './api/jira-tools';
+// Runs against a real JIRA site with the credentials in the environment, and creates a ticket there
+// Usage: npm run test:integration (builds to dist/ first)
+const { jiraClient } = require('./dist/api/jira-client');
+const { createJiraTicket } = require('./dist/api/jira-tools');
 
 async function testJiraIntegration() {
   console.log('🧪 Testing Optimizely Internal Tools - JIRA Integration\n');
@@ -9,7 +11,7 @@ async function testJiraIntegration() {
   try {
     // Test 1: Health Check
     console.log('1️⃣ Testing JIRA connectivity...');
-    const health = await jiraClient.healthCheck();
+    const health = await jiraClient.instance.healthCheck();
     console.log('✅ Health Check Result:', health);
     console.log('');
 
@@ -48,8 +50,3 @@ async function testJiraIntegration() {
 if (require.main === module) {
   testJiraIntegration();
 }
-
-
-
-
-
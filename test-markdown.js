@@ -0,0 +1,223 @@
+/**
+ * Tests for the markdown converter: markdownToADF output is checked against the ADF schema's content
+ * rules, and markdown -> ADF -> markdown round trips through adfToMarkdown
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { markdownToADF, adfToMarkdown } = require('./dist/api/markdown-converter');
+
+const INLINE = ['text', 'hardBreak', 'mention', 'emoji', 'date', 'status', 'inlineCard'];
+const BLOCK = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'blockquote',
+  'rule', 'panel', 'table', 'mediaSingle', 'mediaGroup', 'expand', 'blockCard', 'embedCard'
+];
+const LIST_ITEM_CHILDREN = ['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle'];
+const PANEL_CHILDREN = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'rule',
+  'mediaGroup', 'mediaSingle', 'blockCard'
+];
+const TABLE_CELL_CHILDREN = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'taskList', 'decisionList', 'codeBlock', 'blockquote',
+  'rule', 'panel', 'mediaGroup', 'mediaSingle', 'blockCard', 'embedCard', 'nestedExpand'
+];
+const MARKS = ['strong', 'em', 'code', 'strike', 'underline', 'link', 'textColor', 'subsup'];
+
+// Content rules from the ADF schema (doc version 1) for every node type: allowed children, whether
+// at least one is required, and a check of the node's attrs
+const SCHEMA = {
+  doc: { content: BLOCK },
+  paragraph: { content: INLINE },
+  heading: { content: INLINE, attrs: attrs => Number.isInteger(attrs.level) && attrs.level >= 1 && attrs.level <= 6 },
+  bulletList: { content: ['listItem'], required: true },
+  orderedList: { content: ['listItem'], required: true, attrs: attrs => attrs.order === undefined || attrs.order >= 0 },
+  listItem: { content: LIST_ITEM_CHILDREN, required: true },
+  taskList: { content: ['taskItem', 'taskList'], required: true, attrs: attrs => typeof attrs.localId === 'string' },
+  taskItem: { content: INLINE, attrs: attrs => typeof attrs.localId === 'string' && ['TODO', 'DONE'].includes(attrs.state) },
+  codeBlock: { content: ['text'], attrs: attrs => attrs.language === undefined || typeof attrs.language === 'string' },
+  blockquote: { content: ['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle', 'mediaGroup'], required: true },
+  rule: { content: [] },
+  panel: {
+    content: PANEL_CHILDREN,
+    required: true,
+    attrs: attrs => ['info', 'note', 'warning', 'success', 'error', 'custom'].includes(attrs.panelType)
+  },
+  expand: { content: [...PANEL_CHILDREN, 'embedCard', 'panel', 'blockquote', 'table', 'nestedExpand'], required: true },
+  nestedExpand: { content: [...PANEL_CHILDREN, 'panel', 'blockquote'], required: true },
+  table: { content: ['tableRow'], required: true },
+  tableRow: { content: ['tableHeader', 'tableCell'], required: true },
+  tableHeader: { content: TABLE_CELL_CHILDREN, required: true },
+  tableCell: { content: TABLE_CELL_CHILDREN, required: true },
+  mediaSingle: { content: ['media'], required: true },
+  media: {
+    content: [],
+    attrs: attrs => attrs.type === 'external' ? typeof attrs.url === 'string' : typeof attrs.id === 'string' && typeof attrs.collection === 'string'
+  },
+  hardBreak: { content: [] },
+  mention: { content: [], attrs: attrs => typeof attrs.id === 'string' },
+  status: {
+    content: [],
+    attrs: attrs => typeof attrs.text === 'string' && ['neutral', 'purple', 'blue', 'red', 'yellow', 'green'].includes(attrs.color)
+  },
+  date: { content: [], attrs: attrs => /^\d+$/.test(attrs.timestamp) }
+};
+
+/**
+ * Checks an ADF node and its children against SCHEMA
+ * @returns Every problem found, with the path to the node
+ */
+function validateADF(node, path = 'doc', parent) {
+  const problems = [];
+  if (path === 'doc' && (node.type !== 'doc' || node.version !== 1)) {
+    problems.push('doc: the root must be a version 1 doc');
+  }
+
+  if (node.type === 'text') {
+    if (typeof node.text !== 'string' || node.text.length === 0) {
+      problems.push(`${path}: text nodes must not be empty`);
+    }
+    const marks = (node.marks || []).map(mark => mark.type);
+    for (const mark of node.marks || []) {
+      if (!MARKS.includes(mark.type)) {
+        problems.push(`${path}: unknown mark ${mark.type}`);
+      }
+      if (mark.type === 'link' && !(mark.attrs && typeof mark.attrs.href === 'string')) {
+        problems.push(`${path}: link marks need an href`);
+      }
+    }
+    if (marks.includes('code') && marks.some(mark => mark !== 'code' && mark !== 'link')) {
+      problems.push(`${path}: code marks can only be combined with links`);
+    }
+    if (parent === 'codeBlock' && marks.length > 0) {
+      problems.push(`${path}: text in a code block cannot have marks`);
+    }
+    return problems;
+  }
+
+  const rule = SCHEMA[node.type];
+  if (!rule) {
+    return [`${path}: unknown node type ${node.type}`];
+  }
+  if (rule.attrs && !rule.attrs(node.attrs || {})) {
+    problems.push(`${path}: invalid attrs ${JSON.stringify(node.attrs)}`);
+  }
+  const children = node.content || [];
+  if (rule.required && children.length === 0) {
+    problems.push(`${path}: ${node.type} needs content`);
+  }
+  if (node.type === 'mediaSingle' && children.length !== 1) {
+    problems.push(`${path}: mediaSingle holds exactly one media node`);
+  }
+  if (node.type === 'listItem' && children.length > 0 && !['paragraph', 'mediaSingle', 'codeBlock'].includes(children[0].type)) {
+    problems.push(`${path}: a list item must start with a paragraph, code block or image`);
+  }
+  children.forEach((child, index) => {
+    const childPath = `${path}.content[${index}]`;
+    if (!rule.content.includes(child.type)) {
+      problems.push(`${childPath}: ${child.type} is not allowed in ${node.type}`);
+    }
+    problems.push(...validateADF(child, childPath, node.type));
+  });
+  return problems;
+}
+
+const assertValidADF = markdown => {
+  const adf = markdownToADF(markdown);
+  assert.deepEqual(validateADF(adf), [], `Invalid ADF for ${JSON.stringify(markdown)}:\n${JSON.stringify(adf, null, 2)}`);
+  return adf;
+};
+
+test('markdownToADF output follows the ADF schema', async t => {
+  const documents = {
+    'empty text': '',
+    'headings and marks': '# Title\n\n## Section\n\nSome **bold**, *italic*, ~~struck~~, `code` and [linked `code`](https://example.com) text.',
+    'setext headings': 'Title\n=====\n\nSubtitle\n--------\n\nText',
+    'nested lists': '- one\n- two\n  1. nested\n  2. ordered\n- three',
+    'task lists': '- [ ] todo\n- [x] done',
+    'code blocks': '```sql\nSELECT *\nFROM **tickets**;\n```\n\n~~~\nno language\n~~~',
+    'unclosed code block': '```\nstack trace without a closing fence',
+    'code block in a list': '- step\n  ```bash\n  npm test\n  ```',
+    'blockquotes': '> quoted line\ncontinued lazily\n>\n> - a list\n> ```js\n> code();\n> ```',
+    'nested blockquotes': '> outer\n> > inner',
+    'heading in a blockquote': '> # Not allowed in a quote\n> text',
+    'panels': '> [!WARNING]\n> Be careful\n\n> [!TIP] Inline title',
+    'rules and table separators': 'Above\n\n---\n\n| A | B |\n| --- | --- |\n| 1 | **2** |\n\n***',
+    'expands': '<details>\n<summary>More</summary>\n\nHidden text\n\n| A |\n| --- |\n| 1 |\n\n</details>',
+    'status and dates': ':status[Done]{color=green} on :date[2026-10-01]',
+    'images': '![diagram](https://example.com/d.png)',
+    'hard breaks': 'line one  \nline two',
+    'unsafe links': '[click](javascript:alert(1)) and [ok](https://example.com/a_(b))'
+  };
+  for (const [name, markdown] of Object.entries(documents)) {
+    await t.test(name, () => {
+      assertValidADF(markdown);
+    });
+  }
+});
+
+test('fenced code blocks are kept verbatim with their language', () => {
+  const adf = assertValidADF('```sql\nSELECT *\nFROM **tickets**;\n```');
+  assert.deepEqual(adf.content, [{
+    type: 'codeBlock',
+    attrs: { language: 'sql' },
+    content: [{ type: 'text', text: 'SELECT *\nFROM **tickets**;' }]
+  }]);
+});
+
+test('blockquotes join their lines into one paragraph and contain their lists', () => {
+  const adf = assertValidADF('> quoted line\n> continues here\n>\n> - item');
+  assert.equal(adf.content.length, 1);
+  assert.equal(adf.content[0].type, 'blockquote');
+  assert.deepEqual(adf.content[0].content.map(node => node.type), ['paragraph', 'bulletList']);
+  assert.equal(adf.content[0].content[0].content[0].text, 'quoted line continues here');
+});
+
+test('rules are only made from lines that are not table separators', () => {
+  const adf = assertValidADF('---\n\n| A |\n| --- |\n| 1 |');
+  assert.deepEqual(adf.content.map(node => node.type), ['rule', 'table']);
+});
+
+test('links only keep safe schemes', () => {
+  const adf = assertValidADF('[click](javascript:alert(1))');
+  const text = adf.content[0].content;
+  assert.ok(text.every(node => !(node.marks || []).some(mark => mark.type === 'link')), JSON.stringify(text));
+});
+
+test('markdown -> ADF -> markdown keeps the markdown', async t => {
+  const documents = [
+    '# Title\n\nSome **bold**, *italic*, ~~struck~~ and `code` text.',
+    '- one\n- two\n  - nested\n- three',
+    '1. first\n2. second',
+    '- [ ] todo\n- [x] done',
+    '```sql\nSELECT *\nFROM t;\n```',
+    '> [!WARNING]\n> Be careful',
+    'Above\n\n---\n\nBelow',
+    '| A | B |\n| --- | --- |\n| 1 | 2 |',
+    'See [docs](https://example.com/a_(b)) now',
+    ':status[Done]{color=green} on :date[2026-10-01]',
+    '<details>\n<summary>More</summary>\n\nHidden text\n\n</details>',
+    '![diagram](https://example.com/d.png)',
+    'line one  \nline two'
+  ];
+  for (const markdown of documents) {
+    await t.test(JSON.stringify(markdown), () => {
+      assert.equal(adfToMarkdown(markdownToADF(markdown)), markdown);
+    });
+  }
+});
+
+test('markdown -> ADF -> markdown settles on the same ADF', async t => {
+  // Markdown written differently than adfToMarkdown writes it converts back to the same document
+  const documents = {
+    'lazy blockquote lines': '> quoted line\ncontinues here',
+    'setext headings': 'Title\n=====\n\nText',
+    'starred lists': '* one\n* two',
+    'underscore emphasis': '__bold__ and _italic_'
+  };
+  for (const [name, markdown] of Object.entries(documents)) {
+    await t.test(name, () => {
+      const adf = markdownToADF(markdown);
+      assert.deepEqual(markdownToADF(adfToMarkdown(adf)), adf);
+    });
+  }
+});
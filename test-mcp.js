@@ -0,0 +1,218 @@
+/**
+ * Tests for the MCP endpoint (POST /mcp): initialize and protocol versions, tools/list input schemas,
+ * tools/call results, notifications, batches, the Origin check and authentication
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { FakeJira, loadApp, quietLogs, assertStatus } = require('./test-helpers');
+const { toInputSchema } = require('./dist/api/mcp-server');
+
+const TOKEN = 'test-bearer-token';
+const SEARCH_KEY = 'search-key';
+
+// An API key that may only read, to check that tools/list only shows the tools a key may use
+const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-mcp-keys-'));
+fs.writeFileSync(path.join(keysDir, 'api-keys.json'), JSON.stringify({
+  keys: {
+    search: {
+      hash: `sha256:${crypto.createHash('sha256').update(SEARCH_KEY).digest('hex')}`,
+      tools: ['search_jira_tickets', 'get_jira_ticket']
+    }
+  }
+}));
+
+process.env.API_KEYS_FILE = path.join(keysDir, 'api-keys.json');
+process.env.BEARER_TOKEN = TOKEN;
+process.env.BASE_URL = 'https://tools.example.com/api';
+process.env.MCP_ALLOWED_ORIGINS = 'https://assistant.example.com';
+process.env.JIRA_BASE_URL = 'https://example.atlassian.net';
+process.env.JIRA_USER_EMAIL = 'bot@example.com';
+process.env.JIRA_API_TOKEN = 'test-api-token';
+process.env.JIRA_PROJECT_KEY = 'DHK';
+delete process.env.JIRA_TENANTS_FILE;
+
+const jira = new FakeJira({
+  'example.atlassian.net': { credentials: 'bot@example.com:test-api-token', accountId: 'service-account', project: 'DHK' }
+}).install();
+const { app, request } = loadApp();
+
+// Sends a JSON-RPC message (or batch) to /mcp
+const mcp = (body, { token = TOKEN, headers } = {}) => request('POST', '/mcp', { token, headers, body });
+
+const rpc = (id, method, params) => ({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) });
+
+quietLogs();
+
+test.after(() => {
+  fs.rmSync(keysDir, { recursive: true, force: true });
+});
+
+test('initialize answers with a protocol version both sides speak', async () => {
+  const response = await mcp(rpc(1, 'initialize', {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' }
+  }));
+  assertStatus(response, 200);
+  assert.equal(response.body.id, 1);
+  assert.equal(response.body.result.protocolVersion, '2025-03-26');
+  assert.deepEqual(response.body.result.capabilities, { tools: { listChanged: false } });
+  assert.equal(response.body.result.serverInfo.name, 'optimizely-jira-tools');
+
+  // A version the server does not know gets the newest one it speaks, for the client to accept or hang up
+  const unknown = await mcp(rpc(2, 'initialize', { protocolVersion: '1999-01-01', capabilities: {} }));
+  assert.equal(unknown.body.result.protocolVersion, '2025-06-18');
+});
+
+test('tools/list describes the discovery tools with JSON Schema inputs', async () => {
+  const response = await mcp(rpc('list', 'tools/list'));
+  assertStatus(response, 200);
+  const tools = response.body.result.tools;
+
+  const discovery = await request('GET', '/discovery', { token: TOKEN });
+  assertStatus(discovery, 200);
+  assert.deepEqual(tools.map(tool => tool.name), discovery.body.functions.map(fn => fn.name));
+  for (const fn of discovery.body.functions) {
+    const tool = tools.find(candidate => candidate.name === fn.name);
+    assert.equal(tool.description, fn.description);
+    assert.deepEqual(tool.inputSchema, toInputSchema(fn.parameters));
+  }
+
+  const getTicket = tools.find(tool => tool.name === 'get_jira_ticket');
+  assert.equal(getTicket.inputSchema.type, 'object');
+  assert.deepEqual(getTicket.inputSchema.required, ['ticketKey']);
+  assert.equal(getTicket.inputSchema.properties.ticketKey.type, 'string');
+  const create = tools.find(tool => tool.name === 'create_jira_ticket_with_fields');
+  assert.deepEqual(create.inputSchema.properties.labels, { type: 'array', items: {}, description: create.inputSchema.properties.labels.description });
+});
+
+test('toInputSchema leaves out required when no parameter is required', () => {
+  assert.deepEqual(toInputSchema([{ name: 'jql', type: 'string', description: 'Query', required: false }]), {
+    type: 'object',
+    properties: { jql: { type: 'string', description: 'Query' } }
+  });
+});
+
+test('tools/list only shows the tools an API key may use', async () => {
+  const response = await mcp(rpc(1, 'tools/list'), { token: SEARCH_KEY });
+  assertStatus(response, 200);
+  assert.deepEqual(response.body.result.tools.map(tool => tool.name).sort(), ['get_jira_ticket', 'search_jira_tickets']);
+});
+
+test('tools/call returns the tool response as text and structured content', async () => {
+  jira.requests.length = 0;
+  const response = await mcp(rpc(7, 'tools/call', { name: 'get_jira_ticket', arguments: { ticketKey: 'DHK-1' } }));
+  assertStatus(response, 200);
+  const result = response.body.result;
+  assert.equal(result.isError, false);
+  assert.equal(result.structuredContent.ticket.key, 'DHK-1');
+  assert.deepEqual(JSON.parse(result.content[0].text), result.structuredContent);
+  assert.ok(jira.requests.some(request => request.path === '/issue/DHK-1'));
+});
+
+test('tools/call marks failed tool calls with isError', async () => {
+  const missing = await mcp(rpc(8, 'tools/call', { name: 'get_jira_ticket', arguments: {} }));
+  assertStatus(missing, 200);
+  assert.equal(missing.body.result.isError, true);
+  assert.equal(missing.body.result.structuredContent.code, 'VALIDATION_FAILED');
+
+  const notFound = await mcp(rpc(9, 'tools/call', { name: 'get_jira_ticket', arguments: { ticketKey: 'OTHER-1' } }));
+  assert.equal(notFound.body.result.isError, true);
+
+  // Scopes are still checked per call: this key may not create tickets
+  const denied = await mcp(rpc(10, 'tools/call', { name: 'create_jira_ticket_with_fields', arguments: { summary: 'No' } }), { token: SEARCH_KEY });
+  assertStatus(denied, 200);
+  assert.equal(denied.body.result.isError, true);
+  assert.equal(denied.body.result.structuredContent.code, 'PERMISSION_DENIED');
+});
+
+test('protocol errors are JSON-RPC errors', async () => {
+  const unknownTool = await mcp(rpc(1, 'tools/call', { name: 'drop_database', arguments: {} }));
+  assert.equal(unknownTool.body.error.code, -32602);
+  const badArguments = await mcp(rpc(2, 'tools/call', { name: 'get_jira_ticket', arguments: ['DHK-1'] }));
+  assert.equal(badArguments.body.error.code, -32602);
+  const unknownMethod = await mcp(rpc(3, 'resources/list'));
+  assert.equal(unknownMethod.body.error.code, -32601);
+  const invalid = await mcp({ id: 4, method: 'ping' });
+  assert.equal(invalid.body.error.code, -32600);
+  assert.equal(invalid.body.id, 4);
+});
+
+test('notifications are accepted with 202 and no body', async () => {
+  const response = await mcp({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  assert.equal(response.status, 202);
+  assert.equal(response.body, '');
+});
+
+test('batches get one response per request, in a list', async () => {
+  const response = await mcp([
+    rpc('a', 'ping'),
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    rpc('b', 'tools/call', { name: 'get_jira_ticket', arguments: { ticketKey: 'DHK-2' } })
+  ]);
+  assertStatus(response, 200);
+  assert.deepEqual(response.body.map(item => item.id), ['a', 'b']);
+  assert.deepEqual(response.body[0].result, {});
+  assert.equal(response.body[1].result.structuredContent.ticket.key, 'DHK-2');
+
+  const notificationsOnly = await mcp([{ jsonrpc: '2.0', method: 'notifications/initialized' }]);
+  assert.equal(notificationsOnly.status, 202);
+
+  const empty = await mcp([]);
+  assert.equal(empty.body.error.code, -32600);
+});
+
+test('browser requests are only accepted from BASE_URL and MCP_ALLOWED_ORIGINS', async () => {
+  for (const origin of ['https://tools.example.com', 'https://assistant.example.com']) {
+    assertStatus(await mcp(rpc(1, 'ping'), { headers: { origin } }), 200);
+  }
+  for (const origin of ['https://evil.example', 'https://tools.example.com.evil.example', 'http://tools.example.com', 'null']) {
+    const response = await mcp(rpc(1, 'ping'), { headers: { origin } });
+    assertStatus(response, 403);
+    assert.match(response.body.error.message, /is not allowed/);
+  }
+  // Clients other than browsers send no Origin
+  assertStatus(await mcp(rpc(1, 'ping')), 200);
+});
+
+test('only POST is accepted', async () => {
+  const response = await request('GET', '/mcp', { token: TOKEN });
+  assertStatus(response, 405);
+});
+
+test('requests without a valid token are refused on the transport with 401', async () => {
+  for (const token of [undefined, 'wrong-token']) {
+    jira.requests.length = 0;
+    const response = await request('POST', '/mcp', {
+      token,
+      body: rpc(1, 'tools/call', { name: 'get_jira_ticket', arguments: { ticketKey: 'DHK-1' } })
+    });
+    assertStatus(response, 401);
+    assert.equal(response.body.result, undefined);
+    assert.equal(response.body.error.code, -32000);
+    assert.deepEqual(jira.requests, []);
+  }
+  for (const method of ['initialize', 'tools/list']) {
+    assertStatus(await request('POST', '/mcp', { body: rpc(1, method, {}) }), 401);
+  }
+
+  // Clients start their authorization flow from the WWW-Authenticate header
+  const server = app.listen(0);
+  try {
+    await new Promise(resolve => server.once('listening', resolve));
+    const response = await fetch(`http://localhost:${server.address().port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer wrong-token' },
+      body: JSON.stringify(rpc(1, 'initialize', {}))
+    });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate'), /^Bearer\b/);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,231 @@
+/**
+ * Tests for acting as the calling user (connect_jira_account) against the fake OAuth server
+ * (fake-oauth-server.js): users authorize and confirm, their requests carry their own tokens, "me" is the caller,
+ * callers without a grant, or who disconnect, use the service account, and links cannot be replayed or
+ * completed on someone else's behalf
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { startFakeOAuthServer, USERS } = require('./fake-oauth-server');
+const { FakeJira, loadApp, quietLogs, assertStatus } = require('./test-helpers');
+
+const SERVICE_ACCOUNT_ID = 'service-account';
+const SITE_URL = 'https://example.atlassian.net';
+
+// Keys for the tool endpoints: the platform names its users in X-Caller-Id, and alice's key is bound to her
+const PLATFORM_KEY = 'platform-key';
+const ALICE_KEY = 'alice-key';
+const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-oauth-keys-'));
+const hash = key => `sha256:${crypto.createHash('sha256').update(key).digest('hex')}`;
+fs.writeFileSync(path.join(keysDir, 'api-keys.json'), JSON.stringify({
+  keys: {
+    platform: { hash: hash(PLATFORM_KEY), trustCallerHeader: true },
+    alice: { hash: hash(ALICE_KEY), caller: 'caller-alice' }
+  }
+}));
+
+process.env.API_KEYS_FILE = path.join(keysDir, 'api-keys.json');
+process.env.BEARER_TOKEN = 'shared-bearer-token';
+process.env.BASE_URL = 'https://tools.example.com';
+process.env.JIRA_BASE_URL = SITE_URL;
+process.env.JIRA_USER_EMAIL = 'bot@example.com';
+process.env.JIRA_API_TOKEN = 'service-api-token';
+process.env.JIRA_PROJECT_KEY = 'DHK';
+process.env.JIRA_OAUTH_CLIENT_ID = 'fake-client-id';
+process.env.JIRA_OAUTH_CLIENT_SECRET = 'fake-client-secret';
+process.env.JIRA_OAUTH_GRANT_STORE = 'memory';
+delete process.env.JIRA_TENANTS_FILE;
+
+// The service account's site; OAuth users' requests reach the same fake JIRA through the fake OAuth server
+const jira = new FakeJira({
+  [new URL(SITE_URL).host]: { credentials: 'bot@example.com:service-api-token', accountId: SERVICE_ACCOUNT_ID, project: 'DHK' }
+}).install();
+const { request, callTool: callAppTool } = loadApp();
+
+let fake;
+
+const callTool = (tool, parameters, { key = PLATFORM_KEY, caller } = {}) =>
+  callAppTool(tool, parameters, { token: key, headers: caller ? { 'x-caller-id': caller } : {} });
+
+// The accounts a get_jira_ticket call acted as in JIRA
+const actingAs = async options => {
+  jira.requests.length = 0;
+  assertStatus(await callTool('get_jira_ticket', { ticketKey: 'DHK-1' }, options), 200);
+  return jira.accounts();
+};
+
+// Asks connect_jira_account for an authorization link
+async function requestLink(options) {
+  const connection = await callTool('connect_jira_account', {}, options);
+  assertStatus(connection, 200);
+  return connection.body.authorizationUrl;
+}
+
+// Approves a link on the fake authorization page as a user and follows the redirect to the OAuth callback
+async function authorize(authorizationUrl, user) {
+  const authorization = await fetch(`${authorizationUrl}&user=${user}`, { redirect: 'manual' });
+  assert.equal(authorization.status, 302);
+  const callback = new URL(authorization.headers.get('location'));
+  assert.equal(callback.origin + callback.pathname, 'https://tools.example.com/oauth/callback');
+  return request('GET', callback.pathname + callback.search);
+}
+
+// The confirmation code on a callback page
+const confirmationCodeOf = callback => callback.body.match(/Confirmation code: (\S+)/)[1];
+
+// Goes through connect_jira_account, the fake authorization page, the OAuth callback and the confirmation
+async function connect(options, user) {
+  const callback = await authorize(await requestLink(options), user);
+  assertStatus(callback, 200);
+  return callTool('connect_jira_account', { confirmationCode: confirmationCodeOf(callback) }, options);
+}
+
+quietLogs();
+
+test.before(async () => {
+  fake = await startFakeOAuthServer({
+    siteUrl: SITE_URL,
+    onJiraRequest(req, res, user, jiraPath, body) {
+      const [status, responseBody] = jira.answer({ project: 'DHK' }, {
+        host: 'oauth',
+        method: req.method,
+        path: jiraPath.split('?')[0],
+        body,
+        accountId: user.accountId
+      });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(responseBody === undefined ? undefined : JSON.stringify(responseBody));
+    }
+  });
+  process.env.JIRA_OAUTH_AUTH_URL = fake.url;
+  process.env.JIRA_OAUTH_API_URL = fake.url;
+});
+
+test.after(async () => {
+  await fake.close();
+  fs.rmSync(keysDir, { recursive: true, force: true });
+});
+
+test('callers use the service account until they connect', async () => {
+  assert.deepEqual(await actingAs({ caller: 'caller-nobody' }), [SERVICE_ACCOUNT_ID]);
+
+  const connection = await callTool('connect_jira_account', {}, { caller: 'caller-nobody' });
+  assertStatus(connection, 200);
+  assert.equal(connection.body.connected, false);
+  assert.match(connection.body.authorizationUrl, new RegExp(`^${fake.url}/authorize\\?`));
+});
+
+test('connected callers act as their own JIRA account', async () => {
+  const callback = await authorize(await requestLink({ caller: 'caller-alice' }), 'alice');
+  assertStatus(callback, 200);
+  assert.match(callback.body, /Authorized JIRA as Alice Example/);
+  assert.match(confirmationCodeOf(callback), /^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+  // Not active until the code is submitted
+  assert.deepEqual(await actingAs({ caller: 'caller-alice' }), [SERVICE_ACCOUNT_ID]);
+
+  // Codes are accepted as typed, in lower case and without the dash
+  const alice = await callTool('connect_jira_account', {
+    confirmationCode: confirmationCodeOf(callback).toLowerCase().replace('-', '')
+  }, { caller: 'caller-alice' });
+  assertStatus(alice, 200);
+  assert.equal(alice.body.connected, true);
+  assert.equal(alice.body.account.accountId, USERS.alice.accountId);
+  assert.match(alice.body.message, /Connected to JIRA as Alice Example/);
+  const bob = await connect({ caller: 'caller-bob' }, 'bob');
+  assertStatus(bob, 200);
+
+  assert.deepEqual(await actingAs({ caller: 'caller-alice' }), [USERS.alice.accountId]);
+  assert.deepEqual(await actingAs({ caller: 'caller-bob' }), [USERS.bob.accountId]);
+  assert.deepEqual(await actingAs({ caller: 'caller-nobody' }), [SERVICE_ACCOUNT_ID]);
+
+  const connection = await callTool('connect_jira_account', {}, { caller: 'caller-alice' });
+  assert.equal(connection.body.connected, true);
+  assert.equal(connection.body.account.accountId, USERS.alice.accountId);
+});
+
+test('a link completed by someone else does not connect their account to the caller', async () => {
+  // Mallory forwards her link to Alice, who approves it
+  const callback = await authorize(await requestLink({ caller: 'caller-mallory' }), 'alice');
+  assertStatus(callback, 200);
+  assert.match(callback.body, /Only do this if you asked for this link yourself/);
+  assert.deepEqual(await actingAs({ caller: 'caller-mallory' }), [SERVICE_ACCOUNT_ID]);
+
+  // Without Alice's code, Mallory cannot activate the grant, and guessing drops it
+  const code = confirmationCodeOf(callback);
+  const wrongCode = code === 'AAAA-AAAA' ? 'BBBB-BBBB' : 'AAAA-AAAA';
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    const response = await callTool('connect_jira_account', { confirmationCode: wrongCode }, { caller: 'caller-mallory' });
+    assertStatus(response, 400);
+    assert.match(response.body.message, attempt < 5 ? /not correct/ : /Too many wrong confirmation codes/);
+  }
+  const late = await callTool('connect_jira_account', { confirmationCode: code }, { caller: 'caller-mallory' });
+  assertStatus(late, 400);
+  assert.match(late.body.message, /no JIRA authorization waiting for confirmation/);
+  assert.deepEqual(await actingAs({ caller: 'caller-mallory' }), [SERVICE_ACCOUNT_ID]);
+
+  // The code only confirms the grant for the caller who asked for the link
+  const other = await authorize(await requestLink({ caller: 'caller-mallory' }), 'alice');
+  const elsewhere = await callTool('connect_jira_account', { confirmationCode: confirmationCodeOf(other) }, { caller: 'caller-nobody' });
+  assertStatus(elsewhere, 400);
+  assert.deepEqual(await actingAs({ caller: 'caller-nobody' }), [SERVICE_ACCOUNT_ID]);
+});
+
+test('each authorization link works once, and only the newest one', async () => {
+  const link = await requestLink({ caller: 'caller-carol' });
+  assertStatus(await authorize(link, 'bob'), 200);
+  const replayed = await authorize(link, 'alice');
+  assertStatus(replayed, 400);
+  assert.match(replayed.body, /already been used or was replaced/);
+
+  const older = await requestLink({ caller: 'caller-carol' });
+  const newer = await requestLink({ caller: 'caller-carol' });
+  assertStatus(await authorize(older, 'alice'), 400);
+  const callback = await authorize(newer, 'alice');
+  assertStatus(callback, 200);
+  assert.deepEqual(await actingAs({ caller: 'caller-carol' }), [SERVICE_ACCOUNT_ID]);
+});
+
+test('"me" is the calling user', async () => {
+  const assignees = [];
+  for (const caller of ['caller-alice', 'caller-bob', 'caller-nobody']) {
+    jira.requests.length = 0;
+    const response = await callTool('update_jira_ticket_with_fields', { ticketKey: 'DHK-1', fields: { assignee: 'me' } }, { caller });
+    assertStatus(response, 200);
+    const update = jira.requests.find(request => request.method === 'PUT');
+    assignees.push([update.accountId, JSON.parse(update.body).fields.assignee.accountId]);
+  }
+  assert.deepEqual(assignees, [
+    [USERS.alice.accountId, USERS.alice.accountId],
+    [USERS.bob.accountId, USERS.bob.accountId],
+    [SERVICE_ACCOUNT_ID, SERVICE_ACCOUNT_ID]
+  ]);
+});
+
+test('keys bound to a caller act as that caller', async () => {
+  assert.deepEqual(await actingAs({ key: ALICE_KEY }), [USERS.alice.accountId]);
+});
+
+test('the caller header is only accepted from keys trusted to send it', async () => {
+  for (const key of ['shared-bearer-token', ALICE_KEY]) {
+    jira.requests.length = 0;
+    const response = await callTool('get_jira_ticket', { ticketKey: 'DHK-1' }, { key, caller: 'caller-bob' });
+    assertStatus(response, 403);
+    assert.equal(response.body.code, 'PERMISSION_DENIED');
+    assert.deepEqual(jira.requests, []);
+  }
+});
+
+test('disconnected callers go back to the service account', async () => {
+  const response = await callTool('disconnect_jira_account', {}, { caller: 'caller-bob' });
+  assertStatus(response, 200);
+  assert.equal(response.body.disconnected, true);
+  assert.equal(response.body.account.accountId, USERS.bob.accountId);
+
+  assert.deepEqual(await actingAs({ caller: 'caller-bob' }), [SERVICE_ACCOUNT_ID]);
+  assert.deepEqual(await actingAs({ caller: 'caller-alice' }), [USERS.alice.accountId]);
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests that tenants (JIRA_TENANTS_FILE) stay isolated: each tenant's requests go to its own JIRA site with
+ * its own credentials, caches and settings, and its discovery manifest describes only its own project
+ * JIRA is replaced by fake sites (see test-helpers), so no JIRA site is needed
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { FakeJira, loadApp, quietLogs, assertStatus } = require('./test-helpers');
+
+const tenantsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-tenants-'));
+fs.writeFileSync(path.join(tenantsDir, 'tenants.json'), JSON.stringify({
+  tenants: {
+    acme: {
+      name: 'Acme',
+      jiraBaseUrl: 'https://acme.atlassian.net',
+      jiraUserEmail: 'bot@acme.example',
+      jiraApiToken: 'acme-api-token',
+      projectKey: 'ACME',
+      bearerToken: 'acme-bearer-token',
+      pathPrefix: '/acme',
+      settings: { JIRA_FIELD_TEAM: 'customfield_10010' }
+    },
+    globex: {
+      name: 'Globex',
+      jiraBaseUrl: 'https://globex.atlassian.net',
+      jiraUserEmail: 'bot@globex.example',
+      jiraApiToken: 'globex-api-token',
+      projectKey: 'GLBX',
+      bearerToken: 'globex-bearer-token',
+      settings: { JIRA_FIELD_REGION: 'customfield_10020' }
+    }
+  }
+}));
+
+// The default (no tenant) configuration, which tenants must not fall back to
+process.env.JIRA_TENANTS_FILE = path.join(tenantsDir, 'tenants.json');
+process.env.BEARER_TOKEN = 'default-bearer-token';
+process.env.JIRA_BASE_URL = 'https://default.atlassian.net';
+process.env.JIRA_USER_EMAIL = 'bot@default.example';
+process.env.JIRA_API_TOKEN = 'default-api-token';
+process.env.JIRA_PROJECT_KEY = 'DEF';
+process.env.JIRA_FIELD_CUSTOMER = 'customfield_10030';
+delete process.env.API_KEYS_FILE;
+
+const SITES = {
+  'acme.atlassian.net': { credentials: 'bot@acme.example:acme-api-token', accountId: 'acme-bot', project: 'ACME' },
+  'globex.atlassian.net': { credentials: 'bot@globex.example:globex-api-token', accountId: 'globex-bot', project: 'GLBX' },
+  'default.atlassian.net': { credentials: 'bot@default.example:default-api-token', accountId: 'default-bot', project: 'DEF' }
+};
+
+const jira = new FakeJira(SITES).install();
+const { request, callTool } = loadApp();
+
+quietLogs();
+
+test.after(() => {
+  fs.rmSync(tenantsDir, { recursive: true, force: true });
+});
+
+test.beforeEach(() => {
+  jira.requests.length = 0;
+});
+
+test('each tenant token reaches its own JIRA site with its own credentials', async () => {
+  for (const [token, host, ticketKey] of [
+    ['acme-bearer-token', 'acme.atlassian.net', 'ACME-1'],
+    ['globex-bearer-token', 'globex.atlassian.net', 'GLBX-1'],
+    ['default-bearer-token', 'default.atlassian.net', 'DEF-1']
+  ]) {
+    jira.requests.length = 0;
+    const response = await callTool('get_jira_ticket', { ticketKey }, { token });
+    assertStatus(response, 200);
+    assert.equal(response.body.ticket.url, `https://${host}/browse/${ticketKey}`);
+    assert.ok(jira.requests.length > 0);
+    assert.deepEqual([...new Set(jira.requests.map(request => request.host))], [host]);
+    assert.deepEqual([...new Set(jira.requests.map(request => request.credentials))], [SITES[host].credentials]);
+  }
+});
+
+test('concurrent requests from different tenants do not share settings', async () => {
+  const calls = [];
+  for (let i = 1; i <= 5; i++) {
+    calls.push(callTool('get_jira_ticket', { ticketKey: `ACME-${i}` }, { token: 'acme-bearer-token' }));
+    calls.push(callTool('get_jira_ticket', { ticketKey: `GLBX-${i}` }, { token: 'globex-bearer-token' }));
+  }
+  const responses = await Promise.all(calls);
+  for (const response of responses) {
+    assertStatus(response, 200);
+  }
+  for (const request of jira.requests) {
+    assert.equal(request.credentials, SITES[request.host].credentials);
+  }
+  const hostsByTicket = jira.requests
+    .map(request => [request.path.match(/\/issue\/([A-Z]+)-/), request.host])
+    .filter(([match]) => match);
+  for (const [match, host] of hostsByTicket) {
+    assert.equal(SITES[host].project, match[1]);
+  }
+});
+
+test('cached users are kept per tenant', async () => {
+  // "me" is the service account, looked up once per tenant and never answered from another tenant's cache
+  const acme = await callTool('update_jira_ticket_with_fields', { ticketKey: 'ACME-1', fields: { assignee: 'me' } }, { token: 'acme-bearer-token' });
+  assertStatus(acme, 200);
+  const globex = await callTool('update_jira_ticket_with_fields', { ticketKey: 'GLBX-1', fields: { assignee: 'me' } }, { token: 'globex-bearer-token' });
+  assertStatus(globex, 200);
+
+  const myselfHosts = jira.requests.filter(request => request.path.endsWith('/myself')).map(request => request.host);
+  assert.ok(myselfHosts.includes('globex.atlassian.net'), 'globex looked up its own service account');
+  const assignees = jira.requests
+    .filter(request => request.method === 'PUT')
+    .map(request => [request.host, JSON.parse(request.body).fields.assignee.accountId]);
+  assert.deepEqual(assignees, [['acme.atlassian.net', 'acme-bot'], ['globex.atlassian.net', 'globex-bot']]);
+});
+
+test('a path prefix only accepts its own tenant token', async () => {
+  const own = await callTool('get_jira_ticket', { ticketKey: 'ACME-1' }, { token: 'acme-bearer-token', prefix: '/acme' });
+  assertStatus(own, 200);
+
+  for (const token of ['globex-bearer-token', 'default-bearer-token']) {
+    jira.requests.length = 0;
+    const other = await callTool('get_jira_ticket', { ticketKey: 'ACME-1' }, { token, prefix: '/acme' });
+    assertStatus(other, 403);
+    assert.deepEqual(jira.requests, []);
+  }
+});
+
+test('tenants cannot reach tickets in another tenant project', async () => {
+  const response = await callTool('get_jira_ticket', { ticketKey: 'ACME-1' }, { token: 'globex-bearer-token' });
+  assertStatus(response, 404);
+  assert.deepEqual([...new Set(jira.requests.map(request => request.host))], ['globex.atlassian.net']);
+});
+
+test('discovery describes only the selected tenant', async () => {
+  const describe = async (url, token) => {
+    const response = await request('GET', url, { token });
+    assertStatus(response, 200);
+    return JSON.stringify(response.body);
+  };
+
+  const acme = await describe('/acme/discovery');
+  assert.match(acme, /created in the ACME project/);
+  assert.match(acme, /"name":"team"/);
+  assert.match(acme, /\/acme\/tools\/create_jira_ticket_with_fields/);
+  assert.doesNotMatch(acme, /GLBX|DEF\b|region|customer|globex|default\.atlassian/i);
+
+  const globex = await describe('/discovery', 'globex-bearer-token');
+  assert.match(globex, /created in the GLBX project/);
+  assert.match(globex, /"name":"region"/);
+  assert.doesNotMatch(globex, /ACME|DEF\b|"team"|customer|acme|default\.atlassian/i);
+
+  const defaults = await describe('/discovery');
+  assert.match(defaults, /created in the DEF project/);
+  assert.match(defaults, /"name":"customer"/);
+  assert.doesNotMatch(defaults, /ACME|GLBX|"team"|region|acme|globex/i);
+});